@@ -21,7 +21,21 @@ import {
     registerBranchTools,
     registerRegionTools,
     registerDatabaseTools,
+    registerSchemaTools,
+    registerDiagnosticTools,
+    registerDiffTools,
+    registerMigrationTools,
+    registerBackupTools,
+    registerImportTools,
+    registerExportTools,
+    registerSqlUserTools,
 } from "@likidu/mcp-server-tidbcloud/tools";
+import {
+    registerClusterResources,
+    registerRegionResources,
+    registerSchemaResources,
+} from "@likidu/mcp-server-tidbcloud/resources";
+import { registerWorkflowPrompts } from "@likidu/mcp-server-tidbcloud/prompts";
 import { TiDBCloudClient } from "@likidu/mcp-server-tidbcloud/api";
 import type {
     Config as ServerConfig,
@@ -43,6 +57,7 @@ import { getSkillContent } from "./skill.js";
 type Bindings = {
     TIDB_CLOUD_ENV?: string;
     TIDB_CLOUD_API_URL?: string;
+    TIDB_CLOUD_IAM_API_URL?: string;
     NODE_ENV?: string;
     SERVER_HOST?: string;
 };
@@ -156,6 +171,8 @@ app.all("/mcp", async (c) => {
         c.env?.TIDB_CLOUD_API_URL ??
         process.env?.TIDB_CLOUD_API_URL ??
         API_BASE_URLS[environment];
+    const iamApiBaseUrl =
+        c.env?.TIDB_CLOUD_IAM_API_URL ?? process.env?.TIDB_CLOUD_IAM_API_URL;
 
     console.log(
         `[mcp] Processing request, env=${environment}, publicKey=${publicKey.substring(0, 8)}...`,
@@ -166,6 +183,7 @@ app.all("/mcp", async (c) => {
         authMode: "digest",
         digest: { publicKey, privateKey },
         apiBaseUrl,
+        iamApiBaseUrl,
     };
 
     const mcpServer = new McpServer({
@@ -187,7 +205,19 @@ app.all("/mcp", async (c) => {
     registerRegionTools(mcpServer, client);
     registerClusterTools(mcpServer, client);
     registerBranchTools(mcpServer, client);
+    registerBackupTools(mcpServer, client);
+    registerImportTools(mcpServer, client);
+    registerExportTools(mcpServer, client);
+    registerSqlUserTools(mcpServer, client);
     registerDatabaseTools(mcpServer, dbConfig);
+    registerSchemaTools(mcpServer, dbConfig);
+    registerDiagnosticTools(mcpServer, dbConfig);
+    registerDiffTools(mcpServer, client, dbConfig);
+    registerMigrationTools(mcpServer, client, dbConfig);
+    registerRegionResources(mcpServer, client);
+    registerClusterResources(mcpServer, client);
+    registerSchemaResources(mcpServer, dbConfig);
+    registerWorkflowPrompts(mcpServer, client, dbConfig);
 
     const transport = new WebStandardStreamableHTTPServerTransport({
         sessionIdGenerator: undefined,
@@ -47,6 +47,7 @@ npx mcp-remote https://mcp-server-tidbcloud.workers.dev/mcp \\
 - **tidbcloud_list_clusters** - List all Serverless clusters in your organization
 - **tidbcloud_get_cluster** - Get details about a specific cluster (including connection endpoint)
 - **tidbcloud_create_cluster** - Create a new Serverless cluster
+- **tidbcloud_wait_for_cluster** - Wait until a cluster reaches a target state (e.g. ACTIVE)
 - **tidbcloud_update_cluster** - Update cluster configuration
 - **tidbcloud_delete_cluster** - Delete a cluster (irreversible)
 
@@ -54,16 +55,72 @@ npx mcp-remote https://mcp-server-tidbcloud.workers.dev/mcp \\
 - **tidbcloud_list_branches** - List all branches for a cluster
 - **tidbcloud_get_branch** - Get branch details and connection endpoint
 - **tidbcloud_create_branch** - Create a new branch (max 5 per org)
+- **tidbcloud_wait_for_branch** - Wait until a branch reaches a target state (e.g. ACTIVE)
+- **tidbcloud_reset_branch** - Reset a branch to the latest data of its parent, keeping its ID and endpoint
 - **tidbcloud_delete_branch** - Delete a branch (irreversible)
 
+### Backup and Restore
+- **tidbcloud_list_backups** - List automated backups of a cluster
+- **tidbcloud_get_backup** - Get details of a backup
+- **tidbcloud_delete_backup** - Delete a backup (irreversible)
+- **tidbcloud_restore_cluster** - Restore a cluster to a point in time or from a backup
+
+### Data Import
+- **tidbcloud_create_import** - Import CSV/Parquet/SQL files from Amazon S3 into a cluster
+- **tidbcloud_list_imports** - List import tasks of a cluster
+- **tidbcloud_get_import** - Get the state and progress of an import task
+- **tidbcloud_cancel_import** - Cancel a running import task
+
+### Data Export
+- **tidbcloud_create_export** - Export a database, table or query result of a cluster to CSV/Parquet/SQL files (branches are not supported by the export API)
+- **tidbcloud_list_exports** - List export tasks of a cluster
+- **tidbcloud_get_export** - Get the state of an export task
+- **tidbcloud_cancel_export** - Cancel a running export task
+- **tidbcloud_download_export** - Get download links for a finished export
+
+### SQL User Management (API keys only)
+- **tidbcloud_list_sql_users** - List SQL users of a cluster
+- **tidbcloud_get_sql_user** - Get a SQL user and its roles
+- **tidbcloud_create_sql_user** - Create a SQL user with a built-in role
+- **tidbcloud_update_sql_user** - Change a SQL user's password or role
+- **tidbcloud_delete_sql_user** - Delete a SQL user
+
 ### Database Operations (requires DB credentials)
 - **show_databases** - List all databases
 - **show_tables** - List tables in a database
+- **describe_schema** - Describe columns, indexes, foreign keys, TiFlash replicas and size of a table or database
+- **explain_query** - Explain a query and flag full scans, hotspots and bad estimates (EXPLAIN ANALYZE for SELECT only)
+- **list_top_statements** - Top statements by latency, RU or executions for a time window
+- **get_statement_plan** - Plans used by a statement digest, with their latency
+- **list_slow_queries** - Slowest query executions from the slow query log
+- **advise_indexes** - Propose indexes for given queries or the top statements, with benefit estimated from hypothetical-index plans and ready-to-run CREATE INDEX DDL (apply on a branch first)
+- **diff_schema** - Compare tables, columns, indexes and views between two clusters, branches or hosts and generate the DDL that aligns the target with the source
+- **diff_table_data** - Count and sample the rows inserted, updated or deleted between two endpoints using chunked primary-key checksums
+- **register_migrations** - Register versioned migrations (up/down SQL) in the database's migration history table
+- **migration_status** - List applied and pending migrations and detect checksum or schema drift
+- **apply_migrations** - Apply pending migrations in order (DML-only migrations run in one transaction)
+- **rollback_migrations** - Roll back the last N applied migrations with their down SQL
+- **tidbcloud_test_migration_on_branch** - Create a branch, run DDL/DML and verification queries on it, and optionally delete it, in one call
 - **db_query** - Execute read-only SQL (SELECT, SHOW, DESCRIBE, EXPLAIN)
-- **db_execute** - Execute write SQL (INSERT, UPDATE, DELETE, CREATE, ALTER, DROP)
+- **db_execute** - Execute write SQL (INSERT, UPDATE, DELETE, CREATE, ALTER, DROP); set \`atomic\` to run a batch in one transaction, \`preview\` to see the impact first
 - **db_create_user** - Create a database user
 - **db_remove_user** - Remove a database user
 
+## Available Resources
+
+- **tidbcloud://regions** - Available regions
+- **tidbcloud://regions/{region}** - A single region
+- **tidbcloud://clusters/{clusterId}** - Cluster details
+- **tidbcloud://clusters/{clusterId}/branches/{branchId}** - Branch details
+- **tidbcloud://db/{database}/{table}/schema** - CREATE TABLE statement (requires DB credentials)
+
+## Available Prompts
+
+- **create_dev_branch** - Create a dev branch, wait until it is ready and seed it
+- **diagnose_slow_query** - Analyze a slow query and suggest fixes
+- **explore_database** - Summarize the tables and relationships of a database
+- **rotate_db_user_password** - Set a new password for a SQL user
+
 ## Database Credentials
 
 For SQL operations, provide credentials via headers:
@@ -84,7 +141,7 @@ Use \`tidbcloud_get_cluster\` to find your cluster's connection endpoint.
 
 ## Notes
 
-- **Async Operations**: Cluster and branch creation are async. Use the \`get\` tools to check status.
+- **Async Operations**: Cluster and branch creation are async. Use the \`wait_for\` tools (or \`waitUntilReady\` on the create tools) instead of polling the \`get\` tools.
 - **Branch Limits**: Maximum 5 branches per organization (default quota).
 - **Read-Only Mode**: \`db_query\` only allows SELECT/SHOW/DESCRIBE/EXPLAIN for safety.
 `;
@@ -2,18 +2,44 @@
  * TiDB Cloud API client
  */
 
-import { createHash } from "crypto";
-import type { Config, Environment } from "../config.js";
-import type {
-  Branch,
-  CreateBranchRequest,
-  ListBranchesResponse,
-  Cluster,
-  CreateClusterRequest,
-  UpdateClusterRequest,
-  ListClustersResponse,
-  ListRegionsResponse,
-  ApiError,
+import { createHash, randomBytes } from "crypto";
+import {
+  DEFAULT_RETRY_CONFIG,
+  IAM_API_BASE_URLS,
+  type Config,
+  type Environment,
+  type RetryConfig,
+} from "../config.js";
+import {
+  BranchState,
+  ClusterState,
+  type Branch,
+  type CreateBranchRequest,
+  type ListBranchesResponse,
+  type Cluster,
+  type CreateClusterRequest,
+  type UpdateClusterRequest,
+  type ListClustersResponse,
+  type ListRegionsResponse,
+  type Backup,
+  type ListBackupsResponse,
+  type RestoreRequest,
+  type RestoreResponse,
+  type Import,
+  type CreateImportRequest,
+  type ListImportsResponse,
+  type StartUploadResponse,
+  type CompletePart,
+  type UploadSource,
+  type Export,
+  type CreateExportRequest,
+  type ListExportsResponse,
+  type DownloadExportResponse,
+  type SqlUser,
+  type CreateSqlUserRequest,
+  type UpdateSqlUserRequest,
+  type ListSqlUsersResponse,
+  type ApiError,
 } from "./types.js";
 
 /**
@@ -22,15 +48,92 @@ import type {
 export class TiDBCloudApiError extends Error {
   public readonly statusCode: number;
   public readonly apiError?: ApiError;
+  public readonly retryAfterMs?: number;
 
-  constructor(message: string, statusCode: number, apiError?: ApiError) {
+  constructor(
+    message: string,
+    statusCode: number,
+    apiError?: ApiError,
+    retryAfterMs?: number,
+  ) {
     super(message);
     this.name = "TiDBCloudApiError";
     this.statusCode = statusCode;
     this.apiError = apiError;
+    this.retryAfterMs = retryAfterMs;
   }
 }
 
+type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/**
+ * Methods that are safe to repeat without side effects
+ */
+const IDEMPOTENT_METHODS: ReadonlySet<HttpMethod> = new Set([
+  "GET",
+  "PUT",
+  "DELETE",
+]);
+
+/**
+ * Status codes worth retrying (0 is a network error, 408 a client timeout)
+ */
+const RETRYABLE_STATUS_CODES: ReadonlySet<number> = new Set([
+  0, 408, 429, 500, 502, 503, 504,
+]);
+
+/**
+ * Parses a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * Waits for the given time; rejects with the abort reason as soon as the
+ * signal fires
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Digest challenge parameters cached between requests, with how many times
+ * the nonce has been used
+ */
+interface DigestChallenge {
+  realm: string;
+  nonce: string;
+  qop?: string;
+  opaque?: string;
+  nonceCount: number;
+}
+
 /**
  * Parses the WWW-Authenticate header to extract digest auth parameters
  */
@@ -52,29 +155,91 @@ function md5(data: string): string {
 }
 
 /**
- * Generates a random client nonce
+ * Generates a cryptographically secure client nonce
  */
 function generateCnonce(): string {
-  return Math.random().toString(36).substring(2, 10);
+  return randomBytes(16).toString("hex");
 }
 
+/**
+ * Page size used when walking every page of a list endpoint
+ */
+const LIST_ALL_PAGE_SIZE = 100;
+
+/**
+ * Default upper bound on items collected by the listAll* helpers
+ */
+export const DEFAULT_LIST_ALL_LIMIT = 1000;
+
+/**
+ * Options for polling a resource until it reaches a target state
+ */
+export interface WaitOptions {
+  /** Give up after this many milliseconds (default 10 minutes) */
+  timeoutMs?: number;
+  /** Delay before the second poll; grows by 1.5x up to maxIntervalMs */
+  intervalMs?: number;
+  maxIntervalMs?: number;
+  /** Called after every poll with the observed state */
+  onPoll?: (state: string, elapsedMs: number) => void | Promise<void>;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_WAIT_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_WAIT_INTERVAL_MS = 2000;
+const DEFAULT_WAIT_MAX_INTERVAL_MS = 15000;
+
+/**
+ * How long a branch may still report ACTIVE after a reset request before
+ * the reset is assumed to have finished already
+ */
+const RESET_START_GRACE_MS = 30 * 1000;
+
+/**
+ * Cluster states that will never transition to another target state
+ */
+const TERMINAL_CLUSTER_STATES: ClusterState[] = [ClusterState.DELETING];
+
+/**
+ * Branch states that will never transition to another target state
+ */
+const TERMINAL_BRANCH_STATES: BranchState[] = [BranchState.DELETED];
+
+/**
+ * Size of each part when uploading a local file for import
+ */
+const UPLOAD_PART_SIZE = 16 * 1024 * 1024;
+
+/**
+ * Time allowed for uploading a single part before giving up
+ */
+const UPLOAD_PART_TIMEOUT_MS = 5 * 60 * 1000;
+
 /**
  * TiDB Cloud API client for making authenticated requests
  * Uses Digest Authentication with API keys
  */
 export class TiDBCloudClient {
   private readonly baseUrl: string;
+  private readonly iamBaseUrl: string;
   private readonly environment: Environment;
   private readonly timeout: number;
+  private readonly retry: RetryConfig;
 
   // Digest auth credentials
   private readonly publicKey: string;
   private readonly privateKey: string;
 
+  // Last digest challenge per API host
+  private readonly challenges = new Map<string, DigestChallenge>();
+
   constructor(config: Config, timeout = 30000) {
     this.baseUrl = config.apiBaseUrl;
+    this.iamBaseUrl =
+      config.iamApiBaseUrl ?? IAM_API_BASE_URLS[config.environment];
     this.environment = config.environment;
     this.timeout = timeout;
+    this.retry = { ...DEFAULT_RETRY_CONFIG, ...config.retry };
 
     if (!config.digest) {
       throw new TiDBCloudApiError(
@@ -88,18 +253,20 @@ export class TiDBCloudClient {
   }
 
   /**
-   * Creates the Digest Authorization header
+   * Creates the Digest Authorization header from the cached challenge,
+   * incrementing the nonce count on every use
    */
   private createDigestHeader(
     method: string,
     uri: string,
-    challenge: Record<string, string>,
+    challenge: DigestChallenge,
   ): string {
     const realm = challenge.realm;
     const nonce = challenge.nonce;
     const qop = challenge.qop;
     const cnonce = generateCnonce();
-    const nc = "00000001";
+    challenge.nonceCount += 1;
+    const nc = challenge.nonceCount.toString(16).padStart(8, "0");
 
     // Calculate HA1 = MD5(username:realm:password)
     const ha1 = md5(`${this.publicKey}:${realm}:${this.privateKey}`);
@@ -132,31 +299,103 @@ export class TiDBCloudClient {
   }
 
   /**
-   * Makes an authenticated request to the TiDB Cloud API
-   * Uses Digest Authentication
+   * Makes an authenticated request to the TiDB Cloud API, retrying transient
+   * failures with jittered exponential backoff. Aborting the signal stops
+   * further retries and the wait before them.
    */
   private async request<T>(
-    method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE",
+    method: HttpMethod,
     path: string,
     body?: unknown,
+    baseUrl = this.baseUrl,
+    signal?: AbortSignal,
   ): Promise<T> {
-    const url = `${this.baseUrl}${path}`;
+    const canRetry =
+      IDEMPOTENT_METHODS.has(method) || this.retry.retryNonIdempotent;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.send<T>(method, path, body, baseUrl);
+      } catch (error) {
+        if (
+          !canRetry ||
+          attempt >= this.retry.maxAttempts ||
+          !(error instanceof TiDBCloudApiError) ||
+          !RETRYABLE_STATUS_CODES.has(error.statusCode)
+        ) {
+          throw error;
+        }
+
+        const delay = this.getRetryDelay(attempt, error.retryAfterMs);
+        if (delay === undefined) {
+          throw error;
+        }
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Computes the delay before the next attempt
+   * @returns undefined if the server asked us to wait longer than maxDelayMs
+   */
+  private getRetryDelay(
+    attempt: number,
+    retryAfterMs?: number,
+  ): number | undefined {
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs <= this.retry.maxDelayMs ? retryAfterMs : undefined;
+    }
+    // Full jitter: random delay between 0 and the exponential ceiling
+    const ceiling = Math.min(
+      this.retry.maxDelayMs,
+      this.retry.baseDelayMs * 2 ** (attempt - 1),
+    );
+    return Math.random() * ceiling;
+  }
+
+  /**
+   * Sends a single request to the TiDB Cloud API
+   * Uses Digest Authentication
+   */
+  private async send<T>(
+    method: HttpMethod,
+    path: string,
+    body: unknown,
+    baseUrl: string,
+  ): Promise<T> {
+    const url = `${baseUrl}${path}`;
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
-    try {
-      // First request without auth to get the challenge
-      const initialResponse = await fetch(url, {
+    const dispatch = (challenge?: DigestChallenge): Promise<Response> => {
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      };
+      if (challenge) {
+        headers.Authorization = this.createDigestHeader(
+          method,
+          path,
+          challenge,
+        );
+      }
+      return fetch(url, {
         method,
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-        },
+        headers,
         body: body ? JSON.stringify(body) : undefined,
         signal: controller.signal,
       });
+    };
+
+    try {
+      // Reuse the cached nonce if we have one; otherwise go unauthenticated
+      // to obtain a challenge
+      const usedChallenge = this.challenges.get(baseUrl);
+      const initialResponse = await dispatch(usedChallenge);
 
-      // If we get 401, extract the digest challenge and retry
+      // If we get 401, extract the digest challenge and retry once, unless
+      // the server rejected a nonce that is still current
       if (initialResponse.status === 401) {
         const wwwAuth = initialResponse.headers.get("www-authenticate");
         if (!wwwAuth || !wwwAuth.toLowerCase().startsWith("digest")) {
@@ -166,23 +405,19 @@ export class TiDBCloudClient {
           );
         }
 
-        const challenge = parseDigestChallenge(wwwAuth);
-        const authHeader = this.createDigestHeader(method, path, challenge);
+        const params = parseDigestChallenge(wwwAuth);
+        const stale =
+          params.stale?.toLowerCase() === "true" ||
+          params.nonce !== usedChallenge?.nonce;
 
-        // Retry with digest auth
-        const authResponse = await fetch(url, {
-          method,
-          headers: {
-            "Content-Type": "application/json",
-            Accept: "application/json",
-            Authorization: authHeader,
-          },
-          body: body ? JSON.stringify(body) : undefined,
-          signal: controller.signal,
-        });
+        if (!usedChallenge || stale) {
+          await initialResponse.body?.cancel();
+          const challenge = this.cacheChallenge(baseUrl, params);
+          const authResponse = await dispatch(challenge);
 
-        clearTimeout(timeoutId);
-        return this.handleResponse<T>(authResponse);
+          clearTimeout(timeoutId);
+          return this.handleResponse<T>(authResponse);
+        }
       }
 
       clearTimeout(timeoutId);
@@ -208,6 +443,28 @@ export class TiDBCloudClient {
     }
   }
 
+  /**
+   * Stores a fresh digest challenge for an API host
+   */
+  private cacheChallenge(
+    baseUrl: string,
+    params: Record<string, string>,
+  ): DigestChallenge {
+    // Prefer plain "auth" when the server offers several qop values
+    const qopOptions = params.qop?.split(",").map((q) => q.trim());
+    const qop = qopOptions?.includes("auth") ? "auth" : qopOptions?.[0];
+
+    const challenge: DigestChallenge = {
+      realm: params.realm,
+      nonce: params.nonce,
+      qop,
+      opaque: params.opaque,
+      nonceCount: 0,
+    };
+    this.challenges.set(baseUrl, challenge);
+    return challenge;
+  }
+
   /**
    * Handles the API response
    */
@@ -230,6 +487,7 @@ export class TiDBCloudClient {
         apiError.message || `API request failed with status ${response.status}`,
         response.status,
         apiError,
+        parseRetryAfter(response.headers.get("retry-after")),
       );
     }
 
@@ -254,27 +512,92 @@ export class TiDBCloudClient {
   }
 
   /**
-   * Lists all branches for a cluster
+   * Lists branches for a cluster
    * @param clusterId - The ID of the cluster
-   * @returns List of branches
+   * @param pageSize - Number of branches per page
+   * @param pageToken - Token for pagination
+   * @returns Paginated list of branches
    */
-  async listBranches(clusterId: string): Promise<{ branches: Branch[] }> {
-    return this.request<{ branches: Branch[] }>(
-      "GET",
-      `/v1beta1/clusters/${clusterId}/branches`,
+  async listBranches(
+    clusterId: string,
+    pageSize?: number,
+    pageToken?: string,
+  ): Promise<ListBranchesResponse> {
+    const params = new URLSearchParams();
+    if (pageSize) params.set("pageSize", pageSize.toString());
+    if (pageToken) params.set("pageToken", pageToken);
+    const query = params.toString();
+    const path = `/v1beta1/clusters/${clusterId}/branches${query ? `?${query}` : ""}`;
+    return this.request<ListBranchesResponse>("GET", path);
+  }
+
+  /**
+   * Iterates over every branch of a cluster, following nextPageToken
+   * @param clusterId - The ID of the cluster
+   * @param pageSize - Number of branches fetched per request
+   */
+  async *iterateBranches(
+    clusterId: string,
+    pageSize = LIST_ALL_PAGE_SIZE,
+  ): AsyncGenerator<Branch> {
+    let pageToken: string | undefined;
+    do {
+      const response = await this.listBranches(clusterId, pageSize, pageToken);
+      yield* response.branches || [];
+      pageToken = response.nextPageToken || undefined;
+    } while (pageToken);
+  }
+
+  /**
+   * Collects all branches of a cluster across pages
+   * @param clusterId - The ID of the cluster
+   * @param limit - Maximum number of branches to collect
+   * @returns The collected branches and whether the limit cut the list short
+   */
+  async listAllBranches(
+    clusterId: string,
+    limit = DEFAULT_LIST_ALL_LIMIT,
+  ): Promise<{ branches: Branch[]; truncated: boolean }> {
+    const { items, truncated } = await collect(
+      this.iterateBranches(clusterId),
+      limit,
     );
+    return { branches: items, truncated };
   }
 
   /**
    * Gets details of a specific branch
    * @param clusterId - The ID of the cluster
    * @param branchId - The ID of the branch
+   * @param signal - Stops retrying when aborted
    * @returns Branch details
    */
-  async getBranch(clusterId: string, branchId: string): Promise<Branch> {
+  async getBranch(
+    clusterId: string,
+    branchId: string,
+    signal?: AbortSignal,
+  ): Promise<Branch> {
     return this.request<Branch>(
       "GET",
       `/v1beta1/clusters/${clusterId}/branches/${branchId}`,
+      undefined,
+      undefined,
+      signal,
+    );
+  }
+
+  /**
+   * Resets a branch to the latest data of its parent. The branch keeps its
+   * ID and endpoint; its own changes are discarded.
+   * @param clusterId - The ID of the cluster
+   * @param branchId - The ID of the branch to reset
+   * @returns The branch, which may still report ACTIVE before the reset
+   *   starts; use waitForBranchReset to wait for it to finish
+   */
+  async resetBranch(clusterId: string, branchId: string): Promise<Branch> {
+    return this.request<Branch>(
+      "POST",
+      `/v1beta1/clusters/${clusterId}/branches/${branchId}:reset`,
     );
   }
 
@@ -312,13 +635,47 @@ export class TiDBCloudClient {
     return this.request<ListClustersResponse>("GET", path);
   }
 
+  /**
+   * Iterates over every cluster in the organization, following nextPageToken
+   * @param pageSize - Number of clusters fetched per request
+   */
+  async *iterateClusters(
+    pageSize = LIST_ALL_PAGE_SIZE,
+  ): AsyncGenerator<Cluster> {
+    let pageToken: string | undefined;
+    do {
+      const response = await this.listClusters(pageSize, pageToken);
+      yield* response.clusters || [];
+      pageToken = response.nextPageToken || undefined;
+    } while (pageToken);
+  }
+
+  /**
+   * Collects all clusters in the organization across pages
+   * @param limit - Maximum number of clusters to collect
+   * @returns The collected clusters and whether the limit cut the list short
+   */
+  async listAllClusters(
+    limit = DEFAULT_LIST_ALL_LIMIT,
+  ): Promise<{ clusters: Cluster[]; truncated: boolean }> {
+    const { items, truncated } = await collect(this.iterateClusters(), limit);
+    return { clusters: items, truncated };
+  }
+
   /**
    * Gets details of a specific cluster
    * @param clusterId - The ID of the cluster
+   * @param signal - Stops retrying when aborted
    * @returns Cluster details
    */
-  async getCluster(clusterId: string): Promise<Cluster> {
-    return this.request<Cluster>("GET", `/v1beta1/clusters/${clusterId}`);
+  async getCluster(clusterId: string, signal?: AbortSignal): Promise<Cluster> {
+    return this.request<Cluster>(
+      "GET",
+      `/v1beta1/clusters/${clusterId}`,
+      undefined,
+      undefined,
+      signal,
+    );
   }
 
   /**
@@ -355,6 +712,561 @@ export class TiDBCloudClient {
     await this.request<void>("DELETE", `/v1beta1/clusters/${clusterId}`);
   }
 
+  // ========================================================================
+  // Backup Operations
+  // ========================================================================
+
+  /**
+   * Lists automated backups
+   * @param clusterId - Only return backups of this cluster
+   * @param pageSize - Number of backups per page
+   * @param pageToken - Token for pagination
+   * @returns Paginated list of backups
+   */
+  async listBackups(
+    clusterId?: string,
+    pageSize?: number,
+    pageToken?: string,
+  ): Promise<ListBackupsResponse> {
+    const params = new URLSearchParams();
+    if (clusterId) params.set("clusterId", clusterId);
+    if (pageSize) params.set("pageSize", pageSize.toString());
+    if (pageToken) params.set("pageToken", pageToken);
+    const query = params.toString();
+    const path = `/v1beta1/backups${query ? `?${query}` : ""}`;
+    return this.request<ListBackupsResponse>("GET", path);
+  }
+
+  /**
+   * Gets details of a specific backup
+   * @param backupId - The ID of the backup
+   * @returns Backup details
+   */
+  async getBackup(backupId: string): Promise<Backup> {
+    return this.request<Backup>("GET", `/v1beta1/backups/${backupId}`);
+  }
+
+  /**
+   * Deletes a backup
+   * @param backupId - The ID of the backup to delete
+   */
+  async deleteBackup(backupId: string): Promise<void> {
+    await this.request<void>("DELETE", `/v1beta1/backups/${backupId}`);
+  }
+
+  /**
+   * Restores a cluster to a point in time or from a backup
+   * @param request - Either a snapshot (cluster + time) or a backup ID
+   * @returns The ID of the cluster the data is restored into
+   */
+  async restore(request: RestoreRequest): Promise<RestoreResponse> {
+    return this.request<RestoreResponse>(
+      "POST",
+      "/v1beta1/clusters:restore",
+      request,
+    );
+  }
+
+  // ========================================================================
+  // Import Operations
+  // ========================================================================
+
+  /**
+   * Creates an import task that loads files into a cluster
+   * @param clusterId - The ID of the cluster to import into
+   * @param request - Import source and file format
+   * @returns The created import task
+   */
+  async createImport(
+    clusterId: string,
+    request: CreateImportRequest,
+  ): Promise<Import> {
+    return this.request<Import>(
+      "POST",
+      `/v1beta1/clusters/${clusterId}/imports`,
+      request,
+    );
+  }
+
+  /**
+   * Lists import tasks of a cluster
+   * @param clusterId - The ID of the cluster
+   * @param pageSize - Number of import tasks per page
+   * @param pageToken - Token for pagination
+   * @returns Paginated list of import tasks
+   */
+  async listImports(
+    clusterId: string,
+    pageSize?: number,
+    pageToken?: string,
+  ): Promise<ListImportsResponse> {
+    const params = new URLSearchParams();
+    if (pageSize) params.set("pageSize", pageSize.toString());
+    if (pageToken) params.set("pageToken", pageToken);
+    const query = params.toString();
+    const path = `/v1beta1/clusters/${clusterId}/imports${query ? `?${query}` : ""}`;
+    return this.request<ListImportsResponse>("GET", path);
+  }
+
+  /**
+   * Gets details of a specific import task
+   * @param clusterId - The ID of the cluster
+   * @param importId - The ID of the import task
+   * @returns Import task details
+   */
+  async getImport(clusterId: string, importId: string): Promise<Import> {
+    return this.request<Import>(
+      "GET",
+      `/v1beta1/clusters/${clusterId}/imports/${importId}`,
+    );
+  }
+
+  /**
+   * Cancels a running import task
+   * @param clusterId - The ID of the cluster
+   * @param importId - The ID of the import task to cancel
+   */
+  async cancelImport(clusterId: string, importId: string): Promise<void> {
+    await this.request<void>(
+      "POST",
+      `/v1beta1/clusters/${clusterId}/imports/${importId}:cancel`,
+    );
+  }
+
+  /**
+   * Uploads file contents for a LOCAL import source using a multipart upload
+   * @param clusterId - The ID of the cluster
+   * @param fileName - Name of the file, used to detect the target table for SQL files
+   * @param source - The file contents, read one part at a time
+   * @param targetDatabase - Database to import into
+   * @param targetTable - Table to import into
+   * @returns The upload ID to reference from CreateImportRequest
+   */
+  async uploadImportFile(
+    clusterId: string,
+    fileName: string,
+    source: UploadSource,
+    targetDatabase: string,
+    targetTable?: string,
+  ): Promise<string> {
+    const partCount = Math.max(1, Math.ceil(source.size / UPLOAD_PART_SIZE));
+    const params = new URLSearchParams({
+      fileName,
+      partCount: partCount.toString(),
+      targetDatabase,
+    });
+    if (targetTable) params.set("targetTable", targetTable);
+
+    const upload = await this.request<StartUploadResponse>(
+      "POST",
+      `/v1beta1/clusters/${clusterId}/imports:startUpload?${params}`,
+    );
+
+    try {
+      const parts: CompletePart[] = [];
+      for (let i = 0; i < partCount; i++) {
+        const offset = i * UPLOAD_PART_SIZE;
+        const chunk = await source.read(
+          offset,
+          Math.min(UPLOAD_PART_SIZE, source.size - offset),
+        );
+        const response = await this.uploadPart(
+          upload.uploadUrl[i],
+          chunk,
+          `part ${i + 1} of ${partCount}`,
+        );
+        if (!response.ok) {
+          throw new TiDBCloudApiError(
+            `Failed to upload part ${i + 1} of ${partCount}: ${response.statusText}`,
+            response.status,
+          );
+        }
+        parts.push({
+          partNumber: i + 1,
+          etag: response.headers.get("etag") ?? "",
+        });
+      }
+
+      await this.request<void>(
+        "POST",
+        `/v1beta1/clusters/${clusterId}/imports:completeUpload?uploadId=${encodeURIComponent(upload.uploadId)}`,
+        parts,
+      );
+    } catch (error) {
+      await this.request<void>(
+        "POST",
+        `/v1beta1/clusters/${clusterId}/imports:cancelUpload?uploadId=${encodeURIComponent(upload.uploadId)}`,
+      ).catch(() => undefined);
+      throw error;
+    }
+
+    return upload.uploadId;
+  }
+
+  /**
+   * Uploads one part to its presigned URL, giving up after
+   * UPLOAD_PART_TIMEOUT_MS so a stalled connection can't hang the upload
+   */
+  private async uploadPart(
+    url: string,
+    chunk: Uint8Array,
+    label: string,
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(
+      () => controller.abort(),
+      UPLOAD_PART_TIMEOUT_MS,
+    );
+    try {
+      // Presigned URLs carry their own credentials; no digest auth here
+      return await fetch(url, {
+        method: "PUT",
+        body: chunk,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new TiDBCloudApiError(`Upload of ${label} timed out.`, 408);
+      }
+      throw new TiDBCloudApiError(
+        `Failed to upload ${label}: ${error instanceof Error ? error.message : String(error)}`,
+        0,
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  // ========================================================================
+  // Export Operations
+  // ========================================================================
+
+  /**
+   * Creates an export task that writes cluster data to files
+   * @param clusterId - The ID of the cluster to export from
+   * @param request - What to export, file format and target
+   * @returns The created export task
+   */
+  async createExport(
+    clusterId: string,
+    request: CreateExportRequest,
+  ): Promise<Export> {
+    return this.request<Export>(
+      "POST",
+      `/v1beta1/clusters/${clusterId}/exports`,
+      request,
+    );
+  }
+
+  /**
+   * Lists export tasks of a cluster
+   * @param clusterId - The ID of the cluster
+   * @param pageSize - Number of export tasks per page
+   * @param pageToken - Token for pagination
+   * @returns Paginated list of export tasks
+   */
+  async listExports(
+    clusterId: string,
+    pageSize?: number,
+    pageToken?: string,
+  ): Promise<ListExportsResponse> {
+    const params = new URLSearchParams();
+    if (pageSize) params.set("pageSize", pageSize.toString());
+    if (pageToken) params.set("pageToken", pageToken);
+    const query = params.toString();
+    const path = `/v1beta1/clusters/${clusterId}/exports${query ? `?${query}` : ""}`;
+    return this.request<ListExportsResponse>("GET", path);
+  }
+
+  /**
+   * Gets details of a specific export task
+   * @param clusterId - The ID of the cluster
+   * @param exportId - The ID of the export task
+   * @returns Export task details
+   */
+  async getExport(clusterId: string, exportId: string): Promise<Export> {
+    return this.request<Export>(
+      "GET",
+      `/v1beta1/clusters/${clusterId}/exports/${exportId}`,
+    );
+  }
+
+  /**
+   * Cancels a running export task
+   * @param clusterId - The ID of the cluster
+   * @param exportId - The ID of the export task to cancel
+   * @returns The canceled export task
+   */
+  async cancelExport(clusterId: string, exportId: string): Promise<Export> {
+    return this.request<Export>(
+      "POST",
+      `/v1beta1/clusters/${clusterId}/exports/${exportId}:cancel`,
+    );
+  }
+
+  /**
+   * Generates download URLs for the files of a finished LOCAL export
+   * @param clusterId - The ID of the cluster
+   * @param exportId - The ID of the export task
+   * @returns Presigned download URLs, one per exported file
+   */
+  async downloadExport(
+    clusterId: string,
+    exportId: string,
+  ): Promise<DownloadExportResponse> {
+    return this.request<DownloadExportResponse>(
+      "POST",
+      `/v1beta1/clusters/${clusterId}/exports/${exportId}:download`,
+    );
+  }
+
+  // ========================================================================
+  // SQL User Operations (IAM API)
+  // ========================================================================
+
+  /**
+   * Lists SQL users of a cluster
+   * @param clusterId - The ID of the cluster
+   * @param pageSize - Number of users per page
+   * @param pageToken - Token for pagination
+   * @returns Paginated list of SQL users
+   */
+  async listSqlUsers(
+    clusterId: string,
+    pageSize?: number,
+    pageToken?: string,
+  ): Promise<ListSqlUsersResponse> {
+    const params = new URLSearchParams();
+    if (pageSize) params.set("pageSize", pageSize.toString());
+    if (pageToken) params.set("pageToken", pageToken);
+    const query = params.toString();
+    const path = `/v1beta1/clusters/${clusterId}/sqlUsers${query ? `?${query}` : ""}`;
+    return this.request<ListSqlUsersResponse>(
+      "GET",
+      path,
+      undefined,
+      this.iamBaseUrl,
+    );
+  }
+
+  /**
+   * Gets a SQL user of a cluster
+   * @param clusterId - The ID of the cluster
+   * @param userName - The full user name, including the user prefix
+   * @returns SQL user details
+   */
+  async getSqlUser(clusterId: string, userName: string): Promise<SqlUser> {
+    return this.request<SqlUser>(
+      "GET",
+      `/v1beta1/clusters/${clusterId}/sqlUsers/${encodeURIComponent(userName)}`,
+      undefined,
+      this.iamBaseUrl,
+    );
+  }
+
+  /**
+   * Creates a SQL user in a cluster
+   * @param clusterId - The ID of the cluster
+   * @param request - User name, password and role
+   * @returns The created SQL user
+   */
+  async createSqlUser(
+    clusterId: string,
+    request: CreateSqlUserRequest,
+  ): Promise<SqlUser> {
+    return this.request<SqlUser>(
+      "POST",
+      `/v1beta1/clusters/${clusterId}/sqlUsers`,
+      request,
+      this.iamBaseUrl,
+    );
+  }
+
+  /**
+   * Updates the password or roles of a SQL user
+   * @param clusterId - The ID of the cluster
+   * @param userName - The full user name, including the user prefix
+   * @param request - Fields to change
+   * @returns The updated SQL user
+   */
+  async updateSqlUser(
+    clusterId: string,
+    userName: string,
+    request: UpdateSqlUserRequest,
+  ): Promise<SqlUser> {
+    return this.request<SqlUser>(
+      "PATCH",
+      `/v1beta1/clusters/${clusterId}/sqlUsers/${encodeURIComponent(userName)}`,
+      request,
+      this.iamBaseUrl,
+    );
+  }
+
+  /**
+   * Deletes a SQL user from a cluster
+   * @param clusterId - The ID of the cluster
+   * @param userName - The full user name, including the user prefix
+   */
+  async deleteSqlUser(clusterId: string, userName: string): Promise<void> {
+    await this.request<void>(
+      "DELETE",
+      `/v1beta1/clusters/${clusterId}/sqlUsers/${encodeURIComponent(userName)}`,
+      undefined,
+      this.iamBaseUrl,
+    );
+  }
+
+  // ========================================================================
+  // Wait Helpers
+  // ========================================================================
+
+  /**
+   * Polls a cluster until it reaches the target state
+   * @param clusterId - The ID of the cluster
+   * @param targetState - The state to wait for
+   * @param options - Polling options
+   * @returns The cluster once it is in the target state
+   * @throws WaitTimeoutError if the timeout elapses first
+   * @throws UnexpectedStateError if the cluster enters a terminal state
+   */
+  async waitForClusterState(
+    clusterId: string,
+    targetState: ClusterState = ClusterState.ACTIVE,
+    options: WaitOptions = {},
+  ): Promise<Cluster> {
+    return this.pollUntilState(
+      "cluster",
+      clusterId,
+      () => this.getCluster(clusterId, options.signal),
+      targetState,
+      TERMINAL_CLUSTER_STATES,
+      options,
+    );
+  }
+
+  /**
+   * Polls a branch until it reaches the target state
+   * @param clusterId - The ID of the cluster
+   * @param branchId - The ID of the branch
+   * @param targetState - The state to wait for
+   * @param options - Polling options
+   * @returns The branch once it is in the target state
+   * @throws WaitTimeoutError if the timeout elapses first
+   * @throws UnexpectedStateError if the branch enters a terminal state
+   */
+  async waitForBranchState(
+    clusterId: string,
+    branchId: string,
+    targetState: BranchState = BranchState.ACTIVE,
+    options: WaitOptions = {},
+  ): Promise<Branch> {
+    return this.pollUntilState(
+      "branch",
+      branchId,
+      () => this.getBranch(clusterId, branchId, options.signal),
+      targetState,
+      TERMINAL_BRANCH_STATES,
+      options,
+    );
+  }
+
+  /**
+   * Polls a branch until a requested reset has finished. The branch can
+   * still report ACTIVE right after the request, so this first waits for it
+   * to leave ACTIVE and then for it to become ACTIVE again.
+   * @param clusterId - The ID of the cluster
+   * @param branchId - The ID of the branch being reset
+   * @param options - Polling options
+   * @returns The branch once the reset is complete
+   * @throws WaitTimeoutError if the timeout elapses first
+   * @throws UnexpectedStateError if the branch enters a terminal state
+   */
+  async waitForBranchReset(
+    clusterId: string,
+    branchId: string,
+    options: WaitOptions = {},
+  ): Promise<Branch> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+    const graceMs = Math.min(RESET_START_GRACE_MS, timeoutMs);
+    const intervalMs = options.intervalMs ?? DEFAULT_WAIT_INTERVAL_MS;
+    const startedAt = Date.now();
+
+    for (;;) {
+      options.signal?.throwIfAborted();
+      const branch = await this.getBranch(clusterId, branchId, options.signal);
+      const elapsedMs = Date.now() - startedAt;
+      await options.onPoll?.(branch.state, elapsedMs);
+
+      if (branch.state !== BranchState.ACTIVE) {
+        break;
+      }
+      // Never seen leaving ACTIVE: the reset finished between two polls
+      if (elapsedMs >= graceMs) {
+        return branch;
+      }
+      await sleep(Math.min(intervalMs, graceMs - elapsedMs), options.signal);
+    }
+
+    const offsetMs = Date.now() - startedAt;
+    return this.waitForBranchState(clusterId, branchId, BranchState.ACTIVE, {
+      ...options,
+      timeoutMs: Math.max(timeoutMs - offsetMs, 0),
+      onPoll: (state, elapsedMs) =>
+        options.onPoll?.(state, offsetMs + elapsedMs),
+    });
+  }
+
+  /**
+   * Polls a resource with backoff until its state matches the target
+   */
+  private async pollUntilState<T extends { state: string }>(
+    resourceType: "cluster" | "branch",
+    id: string,
+    fetchResource: () => Promise<T>,
+    targetState: string,
+    terminalStates: string[],
+    options: WaitOptions,
+  ): Promise<T> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+    const maxIntervalMs =
+      options.maxIntervalMs ?? DEFAULT_WAIT_MAX_INTERVAL_MS;
+    let intervalMs = options.intervalMs ?? DEFAULT_WAIT_INTERVAL_MS;
+    const startedAt = Date.now();
+
+    for (;;) {
+      options.signal?.throwIfAborted();
+      const resource = await fetchResource();
+      const elapsedMs = Date.now() - startedAt;
+      await options.onPoll?.(resource.state, elapsedMs);
+
+      if (resource.state === targetState) {
+        return resource;
+      }
+      if (terminalStates.includes(resource.state)) {
+        throw new UnexpectedStateError(
+          resourceType,
+          id,
+          targetState,
+          resource.state,
+        );
+      }
+
+      const remainingMs = timeoutMs - elapsedMs;
+      if (remainingMs <= 0) {
+        throw new WaitTimeoutError(
+          resourceType,
+          id,
+          targetState,
+          resource.state,
+          elapsedMs,
+        );
+      }
+
+      await sleep(Math.min(intervalMs, remainingMs), options.signal);
+      intervalMs = Math.min(intervalMs * 1.5, maxIntervalMs);
+    }
+  }
+
   // ========================================================================
   // Region Operations
   // ========================================================================
@@ -393,8 +1305,7 @@ export class TiDBCloudClient {
     }
 
     // Fetch all clusters and search by name
-    const response = await this.listClusters(100);
-    const clusters = response.clusters || [];
+    const { clusters } = await this.listAllClusters(Infinity);
 
     // Case-insensitive matching
     const matches = clusters.filter(
@@ -455,8 +1366,7 @@ export class TiDBCloudClient {
     }
 
     // Fetch all branches and search by name
-    const response = await this.listBranches(clusterId);
-    const branches = response.branches || [];
+    const { branches } = await this.listAllBranches(clusterId, Infinity);
 
     // Case-insensitive matching
     const matches = branches.filter(
@@ -486,12 +1396,29 @@ export class TiDBCloudClient {
   }
 }
 
+/**
+ * Drains an async iterator into an array, stopping once `limit` items are held
+ */
+async function collect<T>(
+  iterator: AsyncGenerator<T>,
+  limit: number,
+): Promise<{ items: T[]; truncated: boolean }> {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    if (items.length >= limit) {
+      return { items, truncated: true };
+    }
+    items.push(item);
+  }
+  return { items, truncated: false };
+}
+
 /**
  * Error thrown when a resource cannot be resolved by name
  */
 export class ResourceNotFoundError extends Error {
   constructor(
-    public readonly resourceType: "cluster" | "branch",
+    public readonly resourceType: "cluster" | "branch" | "region",
     public readonly name: string,
     public readonly suggestions?: string[],
   ) {
@@ -511,7 +1438,7 @@ export class ResourceNotFoundError extends Error {
  */
 export class AmbiguousResourceError extends Error {
   constructor(
-    public readonly resourceType: "cluster" | "branch",
+    public readonly resourceType: "cluster" | "branch" | "region",
     public readonly name: string,
     public readonly matches: Array<{ id: string; displayName: string }>,
   ) {
@@ -525,6 +1452,41 @@ export class AmbiguousResourceError extends Error {
   }
 }
 
+/**
+ * Error thrown when a resource does not reach the target state in time
+ */
+export class WaitTimeoutError extends Error {
+  constructor(
+    public readonly resourceType: "cluster" | "branch",
+    public readonly id: string,
+    public readonly targetState: string,
+    public readonly lastState: string,
+    public readonly elapsedMs: number,
+  ) {
+    super(
+      `Timed out after ${Math.round(elapsedMs / 1000)}s waiting for ${resourceType} ${id} to become ${targetState} (current state: ${lastState}).`,
+    );
+    this.name = "WaitTimeoutError";
+  }
+}
+
+/**
+ * Error thrown when a resource enters a state it cannot leave while waiting
+ */
+export class UnexpectedStateError extends Error {
+  constructor(
+    public readonly resourceType: "cluster" | "branch",
+    public readonly id: string,
+    public readonly targetState: string,
+    public readonly state: string,
+  ) {
+    super(
+      `${resourceType.charAt(0).toUpperCase() + resourceType.slice(1)} ${id} entered state ${state} and will not become ${targetState}.`,
+    );
+    this.name = "UnexpectedStateError";
+  }
+}
+
 /**
  * Formats an API error into a user-friendly message
  */
@@ -542,6 +1504,9 @@ export function formatApiError(error: unknown): string {
       case 409:
         return `Error: Conflict. ${error.message}`;
       case 429:
+        if (error.retryAfterMs !== undefined) {
+          return `Error: Rate limit exceeded. Please wait ${Math.ceil(error.retryAfterMs / 1000)} second(s) before making more requests.`;
+        }
         return "Error: Rate limit exceeded. Please wait before making more requests.";
       case 408:
         return "Error: Request timed out. Please try again.";
@@ -135,6 +135,7 @@ export enum BranchState {
     DELETED = "DELETED",
     MAINTENANCE = "MAINTENANCE",
     RESTORING = "RESTORING",
+    RESETTING = "RESETTING",
 }
 
 /**
@@ -158,6 +159,8 @@ export interface Branch {
     parentId: string;
     createdBy?: string;
     endpoints?: BranchEndpoint;
+    /** Prefix of the SQL user names on the branch, which differs from the parent's */
+    userPrefix?: string;
 }
 
 /**
@@ -187,6 +190,337 @@ export interface ListBranchesResponse {
     totalSize?: number;
 }
 
+// ============================================================================
+// Backup Types
+// ============================================================================
+
+/**
+ * Automated backup of a cluster
+ */
+export interface Backup {
+    name: string;
+    backupId: string;
+    clusterId: string;
+    createTime: string;
+    expireTime?: string;
+}
+
+/**
+ * Paginated list response for backups
+ */
+export interface ListBackupsResponse {
+    backups: Backup[];
+    nextPageToken?: string;
+    totalSize?: number;
+}
+
+/**
+ * Request body for restoring a cluster. Exactly one of `snapshot`
+ * (point-in-time) or `backup` must be set.
+ */
+export interface RestoreRequest {
+    snapshot?: {
+        clusterId: string;
+        restoreTime?: string;
+    };
+    backup?: {
+        backupId: string;
+    };
+}
+
+/**
+ * Restore response identifying the cluster the data is restored into
+ */
+export interface RestoreResponse {
+    clusterId: string;
+}
+
+// ============================================================================
+// Import Types
+// ============================================================================
+
+/**
+ * Import task state enum
+ */
+export enum ImportState {
+    PREPARING = "PREPARING",
+    IMPORTING = "IMPORTING",
+    COMPLETED = "COMPLETED",
+    FAILED = "FAILED",
+    CANCELING = "CANCELING",
+    CANCELED = "CANCELED",
+}
+
+/**
+ * Supported import file formats
+ */
+export type ImportFileType = "CSV" | "PARQUET" | "SQL";
+
+/**
+ * CSV parsing options for an import
+ */
+export interface CsvFormat {
+    separator?: string;
+    delimiter?: string;
+    header?: boolean;
+    notNull?: boolean;
+    null?: string;
+    backslashEscape?: boolean;
+    trimLastSeparator?: boolean;
+}
+
+/**
+ * Source of the files to import. Set the field matching `type`.
+ */
+export interface ImportSource {
+    type: "LOCAL" | "S3";
+    local?: {
+        uploadId: string;
+        targetDatabase: string;
+        targetTable?: string;
+    };
+    s3?: {
+        uri: string;
+        authType: "ROLE_ARN" | "ACCESS_KEY";
+        roleArn?: string;
+        accessKey?: {
+            id: string;
+            secret: string;
+        };
+    };
+}
+
+/**
+ * Request body for creating an import task
+ */
+export interface CreateImportRequest {
+    importOptions: {
+        fileType: ImportFileType;
+        csvFormat?: CsvFormat;
+    };
+    source: ImportSource;
+}
+
+/**
+ * Import task resource returned by the API
+ */
+export interface Import {
+    importId: string;
+    name?: string;
+    clusterId: string;
+    state: ImportState;
+    createTime: string;
+    completeTime?: string;
+    createdBy?: string;
+    totalSize?: string;
+    completePercent?: number;
+    message?: string;
+}
+
+/**
+ * Paginated list response for import tasks
+ */
+export interface ListImportsResponse {
+    imports: Import[];
+    nextPageToken?: string;
+    totalSize?: number;
+}
+
+/**
+ * Response from starting a multipart upload for a local import
+ */
+export interface StartUploadResponse {
+    uploadId: string;
+    uploadUrl: string[];
+}
+
+/**
+ * Contents of a file to upload, read one part at a time so large files never
+ * have to fit in memory
+ */
+export interface UploadSource {
+    /** Size of the file in bytes */
+    size: number;
+    /**
+     * Reads `length` bytes starting at `offset`. The returned bytes are only
+     * used until the next call, so a buffer may be reused.
+     */
+    read(offset: number, length: number): Promise<Uint8Array>;
+}
+
+/**
+ * A finished part of a multipart upload
+ */
+export interface CompletePart {
+    partNumber: number;
+    etag: string;
+}
+
+// ============================================================================
+// Export Types
+// ============================================================================
+
+/**
+ * Export task state enum
+ */
+export enum ExportState {
+    RUNNING = "RUNNING",
+    SUCCEEDED = "SUCCEEDED",
+    FAILED = "FAILED",
+    CANCELED = "CANCELED",
+    DELETED = "DELETED",
+    EXPIRED = "EXPIRED",
+}
+
+/**
+ * Supported export file formats
+ */
+export type ExportFileType = "CSV" | "PARQUET" | "SQL";
+
+/**
+ * Compression applied to exported files
+ */
+export type ExportCompression = "GZIP" | "SNAPPY" | "ZSTD" | "NONE";
+
+/**
+ * What to export: either a SQL query or a set of table patterns
+ */
+export interface ExportFilter {
+    sql?: string;
+    table?: {
+        patterns: string[];
+        where?: string;
+    };
+}
+
+/**
+ * Where exported files are written. LOCAL keeps them in TiDB Cloud for
+ * download; S3 writes them to the given bucket.
+ */
+export interface ExportTarget {
+    type: "LOCAL" | "S3";
+    s3?: {
+        uri: string;
+        authType: "ROLE_ARN" | "ACCESS_KEY";
+        roleArn?: string;
+        accessKey?: {
+            id: string;
+            secret: string;
+        };
+    };
+}
+
+/**
+ * Request body for creating an export task
+ */
+export interface CreateExportRequest {
+    displayName?: string;
+    exportOptions: {
+        fileType: ExportFileType;
+        compression?: ExportCompression;
+        filter?: ExportFilter;
+        csvFormat?: CsvFormat;
+    };
+    target?: ExportTarget;
+}
+
+/**
+ * Export task resource returned by the API
+ */
+export interface Export {
+    exportId: string;
+    name?: string;
+    clusterId: string;
+    displayName?: string;
+    state: ExportState;
+    exportOptions?: CreateExportRequest["exportOptions"];
+    target?: ExportTarget;
+    reason?: string;
+    createdBy?: string;
+    createTime: string;
+    updateTime?: string;
+    completeTime?: string;
+    snapshotTime?: string;
+    expireTime?: string;
+}
+
+/**
+ * Paginated list response for export tasks
+ */
+export interface ListExportsResponse {
+    exports: Export[];
+    nextPageToken?: string;
+    totalSize?: number;
+}
+
+/**
+ * A downloadable file produced by an export
+ */
+export interface ExportDownload {
+    name: string;
+    url: string;
+    size?: number;
+}
+
+/**
+ * Download URLs for a finished LOCAL export
+ */
+export interface DownloadExportResponse {
+    downloads: ExportDownload[];
+}
+
+// ============================================================================
+// SQL User Types
+// ============================================================================
+
+/**
+ * Built-in SQL roles managed by TiDB Cloud
+ */
+export type SqlUserBuiltinRole =
+    | "role_admin"
+    | "role_readwrite"
+    | "role_readonly";
+
+/**
+ * SQL user of a cluster, as returned by the IAM API
+ */
+export interface SqlUser {
+    userName: string;
+    builtinRole?: SqlUserBuiltinRole;
+    customRoles?: string[];
+    authMethod?: string;
+}
+
+/**
+ * Request body for creating a SQL user
+ */
+export interface CreateSqlUserRequest {
+    userName: string;
+    password: string;
+    builtinRole: SqlUserBuiltinRole;
+    customRoles?: string[];
+    authMethod?: "mysql_native_password";
+    /** Prepend the cluster's user prefix to userName (default true) */
+    autoPrefix?: boolean;
+}
+
+/**
+ * Request body for updating a SQL user
+ */
+export interface UpdateSqlUserRequest {
+    password?: string;
+    builtinRole?: SqlUserBuiltinRole;
+    customRoles?: string[];
+}
+
+/**
+ * Paginated list response for SQL users
+ */
+export interface ListSqlUsersResponse {
+    sqlUsers: SqlUser[];
+    nextPageToken?: string;
+}
+
 // ============================================================================
 // Common Types
 // ============================================================================
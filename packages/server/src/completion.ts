@@ -0,0 +1,153 @@
+/**
+ * Argument completion for prompts and resource templates
+ *
+ * Suggests cluster, branch, region, database and table names so users don't
+ * have to guess identifiers. Lookups are cached briefly because clients ask
+ * for completions on every keystroke.
+ */
+
+import { TiDBCloudClient } from "./api/client.js";
+import { TiDBDatabase, quoteIdentifier } from "./db/client.js";
+import type { DatabaseConfig } from "./db/types.js";
+
+/**
+ * Maximum number of suggestions returned by a completion
+ */
+const MAX_COMPLETIONS = 20;
+
+/**
+ * How long looked-up candidates are reused
+ */
+const CACHE_TTL_MS = 30_000;
+
+/**
+ * Completers for TiDB Cloud resources. Each returns up to MAX_COMPLETIONS
+ * names starting with `value` (case-insensitive), or an empty list if the
+ * lookup fails.
+ */
+export interface CloudCompleters {
+  cluster(value: string): Promise<string[]>;
+  branch(cluster: string | undefined, value: string): Promise<string[]>;
+  region(value: string): Promise<string[]>;
+  sqlUser(cluster: string | undefined, value: string): Promise<string[]>;
+}
+
+/**
+ * Completers for database objects, with the same contract as CloudCompleters
+ */
+export interface DatabaseCompleters {
+  database(value: string): Promise<string[]>;
+  table(database: string | undefined, value: string): Promise<string[]>;
+}
+
+/**
+ * Keeps the candidates starting with the typed value (case-insensitive)
+ */
+function filterCandidates(candidates: string[], value: string): string[] {
+  const prefix = value.toLowerCase();
+  return candidates
+    .filter((candidate) => candidate.toLowerCase().startsWith(prefix))
+    .slice(0, MAX_COMPLETIONS);
+}
+
+/**
+ * Creates a completion function that caches candidates per key.
+ * Completions are best effort: a failed lookup just yields no suggestions.
+ */
+function createCachedCompletion(): (
+  key: string,
+  value: string,
+  load: () => Promise<string[]>,
+) => Promise<string[]> {
+  const cache = new Map<string, { expiresAt: number; values: string[] }>();
+
+  return async (key, value, load) => {
+    let entry = cache.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      try {
+        entry = { expiresAt: Date.now() + CACHE_TTL_MS, values: await load() };
+      } catch {
+        return [];
+      }
+      cache.set(key, entry);
+    }
+    return filterCandidates(entry.values, value);
+  };
+}
+
+/**
+ * Creates completers backed by the TiDB Cloud API
+ */
+export function createCloudCompleters(
+  client: TiDBCloudClient,
+): CloudCompleters {
+  const complete = createCachedCompletion();
+
+  return {
+    cluster: (value) =>
+      complete("clusters", value, async () => {
+        const { clusters } = await client.listAllClusters();
+        return clusters.map((cluster) => cluster.displayName);
+      }),
+
+    branch: async (cluster, value) => {
+      if (!cluster) {
+        return [];
+      }
+      return complete(`branches:${cluster}`, value, async () => {
+        const clusterId = await client.resolveClusterId(cluster);
+        const { branches } = await client.listAllBranches(clusterId);
+        return branches.map((branch) => branch.displayName);
+      });
+    },
+
+    region: (value) =>
+      complete("regions", value, async () => {
+        const response = await client.listRegions();
+        return (response.regions || []).map((region) => region.name);
+      }),
+
+    sqlUser: async (cluster, value) => {
+      if (!cluster) {
+        return [];
+      }
+      return complete(`sqlUsers:${cluster}`, value, async () => {
+        const clusterId = await client.resolveClusterId(cluster);
+        const response = await client.listSqlUsers(clusterId, 100);
+        return (response.sqlUsers || []).map((user) => user.userName);
+      });
+    },
+  };
+}
+
+/**
+ * Creates completers backed by the database. Without a connection
+ * configuration they never suggest anything.
+ */
+export function createDatabaseCompleters(
+  config: DatabaseConfig | undefined,
+): DatabaseCompleters {
+  const complete = createCachedCompletion();
+
+  const queryNames = async (sql: string): Promise<string[]> => {
+    if (!config) {
+      return [];
+    }
+    const result = await new TiDBDatabase(config).query(sql);
+    return result.rows.map((row) => String(Object.values(row)[0]));
+  };
+
+  return {
+    database: (value) =>
+      complete("databases", value, () => queryNames("SHOW DATABASES")),
+
+    table: async (database, value) => {
+      if (!database) {
+        return [];
+      }
+      return complete(`tables:${database}`, value, () =>
+        queryNames(`SHOW TABLES FROM ${quoteIdentifier(database)}`),
+      );
+    },
+  };
+}
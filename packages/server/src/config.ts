@@ -2,7 +2,7 @@
  * Configuration module for TiDB Cloud MCP Server
  */
 
-import type { DatabaseConfig } from "./db/types.js";
+import type { DatabaseConfig, QueryLimits } from "./db/types.js";
 
 /**
  * Environment for TiDB Cloud API endpoints
@@ -24,6 +24,30 @@ export interface DigestAuthConfig {
   privateKey: string;
 }
 
+/**
+ * Retry policy for TiDB Cloud API requests
+ */
+export interface RetryConfig {
+  /** Total attempts per request, including the first one */
+  maxAttempts: number;
+  /** Base delay for exponential backoff in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound on a single backoff delay in milliseconds */
+  maxDelayMs: number;
+  /** Also retry POST and PATCH requests, which may not be idempotent */
+  retryNonIdempotent: boolean;
+}
+
+/**
+ * Default retry policy used when none is configured
+ */
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  retryNonIdempotent: false,
+};
+
 /**
  * Server configuration
  */
@@ -32,7 +56,11 @@ export interface Config {
   authMode: AuthMode;
   digest: DigestAuthConfig;
   apiBaseUrl: string;
+  /** Base URL of the IAM API (SQL users); derived from environment if unset */
+  iamApiBaseUrl?: string;
   database?: DatabaseConfig;
+  retry?: Partial<RetryConfig>;
+  queryLimits?: Partial<QueryLimits>;
 }
 
 /**
@@ -43,6 +71,14 @@ const API_BASE_URLS: Record<Environment, string> = {
   dev: "https://serverless.dev.tidbapi.com",
 };
 
+/**
+ * API base URLs for the TiDB Cloud IAM API, which manages SQL users
+ */
+export const IAM_API_BASE_URLS: Record<Environment, string> = {
+  prod: "https://iam.tidbapi.com",
+  dev: "https://iam.dev.tidbapi.com",
+};
+
 /**
  * Loads configuration from environment variables
  * Uses API Key (Digest) authentication.
@@ -84,6 +120,29 @@ export function loadConfig(): Config {
   // API base URL based on environment, can be overridden with TIDB_CLOUD_API_URL
   const apiBaseUrl =
     process.env.TIDB_CLOUD_API_URL || API_BASE_URLS[environment];
+  const iamApiBaseUrl =
+    process.env.TIDB_CLOUD_IAM_API_URL || IAM_API_BASE_URLS[environment];
+
+  // Optional retry policy overrides
+  const retry: Partial<RetryConfig> = {};
+  const maxAttempts = parseIntEnv("TIDB_CLOUD_API_MAX_ATTEMPTS");
+  const baseDelayMs = parseIntEnv("TIDB_CLOUD_API_RETRY_BASE_DELAY_MS");
+  const maxDelayMs = parseIntEnv("TIDB_CLOUD_API_RETRY_MAX_DELAY_MS");
+  if (maxAttempts !== undefined) retry.maxAttempts = maxAttempts;
+  if (baseDelayMs !== undefined) retry.baseDelayMs = baseDelayMs;
+  if (maxDelayMs !== undefined) retry.maxDelayMs = maxDelayMs;
+  if (process.env.TIDB_CLOUD_API_RETRY_NON_IDEMPOTENT === "true") {
+    retry.retryNonIdempotent = true;
+  }
+
+  // Optional limits on db_query results
+  const queryLimits: Partial<QueryLimits> = {};
+  const maxRows = parseIntEnv("TIDB_CLOUD_DB_MAX_ROWS");
+  const maxBytes = parseIntEnv("TIDB_CLOUD_DB_MAX_BYTES");
+  const maxCellLength = parseIntEnv("TIDB_CLOUD_DB_MAX_CELL_LENGTH");
+  if (maxRows !== undefined) queryLimits.maxRows = maxRows;
+  if (maxBytes !== undefined) queryLimits.maxBytes = maxBytes;
+  if (maxCellLength !== undefined) queryLimits.maxCellLength = maxCellLength;
 
   return {
     environment,
@@ -93,10 +152,28 @@ export function loadConfig(): Config {
       privateKey,
     },
     apiBaseUrl,
+    iamApiBaseUrl,
     database,
+    retry,
+    queryLimits,
   };
 }
 
+/**
+ * Reads an integer environment variable
+ * @throws Error if the variable is set but not a non-negative integer
+ */
+function parseIntEnv(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parseInt(value, 10);
+}
+
 /**
  * Validates that the configuration is complete and valid
  */
@@ -113,4 +190,26 @@ export function validateConfig(config: Config): void {
   } catch {
     throw new Error(`Invalid API base URL: ${config.apiBaseUrl}`);
   }
+
+  if (config.iamApiBaseUrl) {
+    try {
+      new URL(config.iamApiBaseUrl);
+    } catch {
+      throw new Error(`Invalid IAM API base URL: ${config.iamApiBaseUrl}`);
+    }
+  }
+
+  if (
+    config.retry?.maxAttempts !== undefined &&
+    config.retry.maxAttempts < 1
+  ) {
+    throw new Error("Retry max attempts must be at least 1");
+  }
+
+  if (
+    config.queryLimits?.maxRows !== undefined &&
+    config.queryLimits.maxRows < 1
+  ) {
+    throw new Error("Query max rows must be at least 1");
+  }
 }
@@ -0,0 +1,485 @@
+/**
+ * Index advisor for TiDB
+ *
+ * Plans each query of a workload with EXPLAIN, derives candidate indexes
+ * from the filters, join keys and orderings above full table scans, and
+ * estimates their benefit by planning the queries again with each candidate
+ * as a hypothetical index (the HYPO_INDEX hint), which TiDB only considers
+ * for planning and never builds.
+ */
+
+import { TiDBDatabase, TiDBDatabaseError, quoteIdentifier } from "./client.js";
+import { parsePlan, walkPlan } from "./plan.js";
+import { describeSchema } from "./schema.js";
+import { addOptimizerHint, classifySql } from "./sql.js";
+import type {
+  IndexCandidate,
+  IndexSchema,
+  PlanNode,
+  WorkloadQuery,
+} from "./types.js";
+
+/**
+ * At most this many columns go into a candidate index
+ */
+const MAX_INDEX_COLUMNS = 4;
+
+/**
+ * MySQL limit on identifier length
+ */
+const MAX_IDENTIFIER_LENGTH = 64;
+
+/**
+ * Operators that combine two inputs; filters above them don't belong to a
+ * single scan
+ */
+const JOIN_OPERATORS = new Set([
+  "HashJoin",
+  "MergeJoin",
+  "IndexJoin",
+  "IndexHashJoin",
+  "IndexMergeJoin",
+  "Apply",
+]);
+
+/**
+ * Functions whose column can be looked up with an equality on an index
+ */
+const EQUALITY_FUNCTIONS = new Set(["eq", "in", "isnull", "nulleq"]);
+
+/**
+ * Functions whose column can be looked up with a range on an index
+ */
+const RANGE_FUNCTIONS = new Set(["gt", "ge", "lt", "le", "like"]);
+
+/**
+ * Column as printed in plans: database.table.column
+ */
+const COLUMN_PATTERN = /^([\w$]+)\.([\w$]+)\.([\w$]+)$/;
+
+/**
+ * Result of advising indexes for a workload
+ */
+export interface IndexAdvice {
+  candidates: IndexCandidate[];
+  /** Queries that could not be analyzed, with the reason */
+  skipped: { query: number; reason: string }[];
+  /** Estimated cost of each query without the candidate indexes */
+  baselineCosts: (number | undefined)[];
+}
+
+interface ColumnRef {
+  database: string;
+  table: string;
+  column: string;
+}
+
+/**
+ * A candidate before its benefit is estimated
+ */
+interface Proposal {
+  database: string;
+  table: string;
+  columns: string[];
+  reasons: Set<string>;
+  queries: Set<number>;
+}
+
+/**
+ * A query of the workload with its baseline plan
+ */
+interface PlannedQuery {
+  index: number;
+  sql: string;
+  database?: string;
+  weight: number;
+  cost: number;
+  /** Names of the tables the plan reads */
+  tables: Set<string>;
+}
+
+/**
+ * Splits an argument list at top-level commas, leaving nested calls, lists
+ * and quoted strings intact
+ */
+function splitArguments(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "(" || char === "[") {
+      depth++;
+    } else if (char === ")" || char === "]") {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts.filter(Boolean);
+}
+
+/**
+ * Reads a column printed as database.table.column
+ */
+function readColumn(text: string): ColumnRef | undefined {
+  const match = text.trim().match(COLUMN_PATTERN);
+  return match
+    ? { database: match[1], table: match[2], column: match[3] }
+    : undefined;
+}
+
+/**
+ * Reads the conditions of a Selection or join, e.g.
+ * "eq(test.t.a, 1), gt(test.t.b, 10)", into the columns compared by
+ * equality and by range. Disjunctions and other functions can't use a
+ * single index lookup and are left out.
+ */
+function readConditions(text: string): {
+  equality: ColumnRef[];
+  range: ColumnRef[];
+} {
+  const equality: ColumnRef[] = [];
+  const range: ColumnRef[] = [];
+  for (const condition of splitArguments(text)) {
+    const call = condition.match(/^(\w+)\((.*)\)$/s);
+    if (!call) continue;
+    const [, name, inner] = call;
+    const args = splitArguments(inner);
+    if (EQUALITY_FUNCTIONS.has(name)) {
+      // eq() may compare two columns, as join keys do
+      const columns = (name === "eq" ? args : args.slice(0, 1))
+        .map(readColumn)
+        .filter((column): column is ColumnRef => column !== undefined);
+      equality.push(...columns);
+    } else if (RANGE_FUNCTIONS.has(name)) {
+      const column = readColumn(args[0] ?? "");
+      if (column) range.push(column);
+    }
+  }
+  return { equality, range };
+}
+
+/**
+ * Reads the sort keys of a Sort or TopN, e.g. "test.t.c:desc, offset:0"
+ */
+function readOrdering(text: string): ColumnRef[] {
+  return splitArguments(text)
+    .map((part) => readColumn(part.replace(/:desc$/, "")))
+    .filter((column): column is ColumnRef => column !== undefined);
+}
+
+/**
+ * Name of the table in an access object such as "table:t, partition:p0"
+ */
+function accessedTable(node: PlanNode): string | undefined {
+  return node.accessObject.match(/(?:^|[\s,])table:([^,\s]+)/)?.[1];
+}
+
+/**
+ * Proposes an index for each full table scan on TiKV in a plan, built from
+ * the equality columns, then one range column or the sort keys of the
+ * operators between the scan and the nearest join
+ */
+function proposeIndexes(
+  root: PlanNode,
+): { database: string; table: string; columns: string[]; reason: string }[] {
+  const proposals: ReturnType<typeof proposeIndexes> = [];
+
+  const visit = (node: PlanNode, ancestors: PlanNode[]): void => {
+    const table = accessedTable(node);
+    if (
+      node.operator === "TableFullScan" &&
+      node.task.includes("tikv") &&
+      table
+    ) {
+      const sameTable = (column: ColumnRef) =>
+        column.table.toLowerCase() === table.toLowerCase();
+      const equality: ColumnRef[] = [];
+      const range: ColumnRef[] = [];
+      const ordering: ColumnRef[] = [];
+      let joinKeys: ColumnRef[] = [];
+
+      // Nearest ancestors first
+      for (const ancestor of [...ancestors].reverse()) {
+        if (JOIN_OPERATORS.has(ancestor.operator)) {
+          const keys = ancestor.operatorInfo.match(/equal:\[([^\]]*)\]/);
+          if (keys) {
+            joinKeys = readConditions(keys[1]).equality.filter(sameTable);
+          }
+          break;
+        }
+        if (ancestor.operator === "Selection") {
+          const conditions = readConditions(ancestor.operatorInfo);
+          equality.push(...conditions.equality.filter(sameTable));
+          range.push(...conditions.range.filter(sameTable));
+        } else if (
+          ancestor.operator === "TopN" ||
+          ancestor.operator === "Sort"
+        ) {
+          ordering.push(
+            ...readOrdering(ancestor.operatorInfo).filter(sameTable),
+          );
+        }
+      }
+
+      const lead = [...equality, ...joinKeys];
+      const tail = range.length > 0 ? range.slice(0, 1) : ordering;
+      const columns = [
+        ...new Set([...lead, ...tail].map((column) => column.column)),
+      ].slice(0, MAX_INDEX_COLUMNS);
+      const database = [...lead, ...tail][0]?.database;
+
+      if (columns.length > 0 && database) {
+        const reasons = [
+          equality.length > 0 ? "equality filter" : "",
+          joinKeys.length > 0 ? "join key" : "",
+          range.length > 0 ? "range filter" : "",
+          range.length === 0 && ordering.length > 0 ? "sort order" : "",
+        ].filter(Boolean);
+        proposals.push({
+          database,
+          table,
+          columns,
+          reason: `${reasons.join(", ")} on a full scan of ${table}`,
+        });
+      }
+    }
+
+    for (const child of node.children) {
+      visit(child, [...ancestors, node]);
+    }
+  };
+  visit(root, []);
+
+  return proposals;
+}
+
+/**
+ * Whether an existing index can already serve lookups on `columns`, that is
+ * whether its leading columns are `columns`. Secondary indexes end with the
+ * clustered primary key, which TiDB stores in every index entry.
+ */
+function isCovered(columns: string[], indexes: IndexSchema[]): boolean {
+  const primary = indexes.find(
+    (index) => index.kind === "primary" && index.clustered,
+  );
+  return indexes.some((index) => {
+    const indexColumns =
+      primary && index !== primary
+        ? [...index.columns, ...primary.columns]
+        : index.columns;
+    return (
+      indexColumns.length >= columns.length &&
+      columns.every(
+        (column, i) => indexColumns[i].toLowerCase() === column.toLowerCase(),
+      )
+    );
+  });
+}
+
+/**
+ * Builds an index name from the table and columns, within MySQL's
+ * identifier length limit
+ */
+function indexName(table: string, columns: string[]): string {
+  return `idx_${table}_${columns.join("_")}`
+    .replace(/[^\w$]/g, "_")
+    .slice(0, MAX_IDENTIFIER_LENGTH);
+}
+
+/**
+ * Plans a query with EXPLAIN FORMAT = 'verbose', which adds the estimated
+ * cost of each operator
+ */
+async function explainWithCost(
+  db: TiDBDatabase,
+  sql: string,
+  database?: string,
+): Promise<PlanNode> {
+  const result = await db.query(
+    `EXPLAIN FORMAT = 'verbose' ${sql}`,
+    undefined,
+    database,
+  );
+  const plan = parsePlan(result.rows);
+  if (!plan) {
+    throw new TiDBDatabaseError("EXPLAIN returned no plan");
+  }
+  return plan;
+}
+
+/**
+ * Proposes indexes for a workload and estimates how much each one lowers
+ * the optimizer's cost of the queries it applies to. Only SELECT, UPDATE
+ * and DELETE statements are analyzed; none of them is executed.
+ * @param db - Database to plan the queries in
+ * @param workload - The queries to optimize for
+ * @param maxCandidates - Estimate the benefit of at most this many
+ *   candidates, those proposed by the most queries first
+ */
+export async function adviseIndexes(
+  db: TiDBDatabase,
+  workload: WorkloadQuery[],
+  maxCandidates: number,
+): Promise<IndexAdvice> {
+  const skipped: IndexAdvice["skipped"] = [];
+  const baselineCosts: IndexAdvice["baselineCosts"] = [];
+  const planned: PlannedQuery[] = [];
+  const proposals = new Map<string, Proposal>();
+
+  for (const [index, query] of workload.entries()) {
+    baselineCosts.push(undefined);
+    const statements = classifySql(query.sql);
+    if (
+      statements.length !== 1 ||
+      !["SELECT", "UPDATE", "DELETE"].includes(statements[0].keyword)
+    ) {
+      skipped.push({
+        query: index,
+        reason: "not a single SELECT, UPDATE or DELETE statement",
+      });
+      continue;
+    }
+
+    let plan: PlanNode;
+    try {
+      plan = await explainWithCost(db, statements[0].sql, query.database);
+    } catch (error) {
+      skipped.push({
+        query: index,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+
+    const tables = new Set<string>();
+    walkPlan(plan, (node) => {
+      const table = accessedTable(node);
+      if (table) tables.add(table.toLowerCase());
+    });
+    baselineCosts[index] = plan.estCost;
+    planned.push({
+      index,
+      sql: statements[0].sql,
+      database: query.database,
+      weight: query.weight ?? 1,
+      cost: plan.estCost ?? 0,
+      tables,
+    });
+
+    for (const proposal of proposeIndexes(plan)) {
+      const key =
+        `${proposal.database}.${proposal.table}(${proposal.columns.join(",")})`.toLowerCase();
+      const existing = proposals.get(key) ?? {
+        ...proposal,
+        reasons: new Set<string>(),
+        queries: new Set<number>(),
+      };
+      existing.reasons.add(proposal.reason);
+      existing.queries.add(index);
+      proposals.set(key, existing);
+    }
+  }
+
+  // An index on (a, b) also serves lookups on (a), so keep the longer one
+  const merged = [...proposals.values()].filter((proposal) => {
+    const longer = [...proposals.values()].find(
+      (other) =>
+        other !== proposal &&
+        other.database === proposal.database &&
+        other.table === proposal.table &&
+        other.columns.length > proposal.columns.length &&
+        proposal.columns.every((column, i) => other.columns[i] === column),
+    );
+    if (longer) {
+      proposal.reasons.forEach((reason) => longer.reasons.add(reason));
+      proposal.queries.forEach((query) => longer.queries.add(query));
+    }
+    return !longer;
+  });
+
+  // Leave out what existing indexes already cover
+  const schemas = new Map<string, IndexSchema[] | undefined>();
+  const remaining: Proposal[] = [];
+  for (const proposal of merged) {
+    const key = `${proposal.database}.${proposal.table}`;
+    if (!schemas.has(key)) {
+      const schema = await describeSchema(db, proposal.database, {
+        table: proposal.table,
+      });
+      schemas.set(key, schema.tables[0]?.indexes);
+    }
+    const indexes = schemas.get(key);
+    // Tables not found are aliases or views the plan names differently
+    if (indexes && !isCovered(proposal.columns, indexes)) {
+      remaining.push(proposal);
+    }
+  }
+  remaining.sort((a, b) => b.queries.size - a.queries.size);
+
+  const totalCost = planned.reduce(
+    (total, query) => total + query.weight * query.cost,
+    0,
+  );
+  const candidates: IndexCandidate[] = [];
+  for (const proposal of remaining.slice(0, maxCandidates)) {
+    const name = indexName(proposal.table, proposal.columns);
+    const hint = `HYPO_INDEX(${proposal.database}.${proposal.table}, ${name}, ${proposal.columns.join(", ")})`;
+
+    // Try the index on every query reading the table, not only those that
+    // proposed it
+    const benefits: IndexCandidate["benefits"] = [];
+    for (const query of planned) {
+      if (!query.tables.has(proposal.table.toLowerCase())) continue;
+      const hinted = addOptimizerHint(query.sql, hint);
+      if (!hinted) continue;
+      try {
+        const plan = await explainWithCost(db, hinted, query.database);
+        let used = false;
+        walkPlan(plan, (node) => {
+          used ||= new RegExp(`(?:^|[\\s,])index:${name}\\(`).test(
+            node.accessObject,
+          );
+        });
+        benefits.push({
+          query: query.index,
+          costBefore: query.cost,
+          costAfter: plan.estCost ?? query.cost,
+          used,
+        });
+      } catch {
+        // Leave the query out of the estimate
+      }
+    }
+
+    const saved = benefits.reduce((total, benefit) => {
+      const weight = workload[benefit.query].weight ?? 1;
+      return benefit.used
+        ? total + weight * Math.max(benefit.costBefore - benefit.costAfter, 0)
+        : total;
+    }, 0);
+
+    candidates.push({
+      database: proposal.database,
+      table: proposal.table,
+      name,
+      columns: proposal.columns,
+      reason: [...proposal.reasons].join("; "),
+      ddl: `CREATE INDEX ${quoteIdentifier(name)} ON ${quoteIdentifier(proposal.database)}.${quoteIdentifier(proposal.table)} (${proposal.columns.map(quoteIdentifier).join(", ")});`,
+      benefits,
+      improvement: totalCost > 0 ? saved / totalCost : 0,
+    });
+  }
+
+  candidates.sort((a, b) => b.improvement - a.improvement);
+  return { candidates, skipped, baselineCosts };
+}
@@ -0,0 +1,198 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { describe, it } from "node:test";
+import { diffTableData } from "./checksum.js";
+import type { TiDBDatabase } from "./client.js";
+import type { QueryResult } from "./types.js";
+
+type Row = Record<string, string | number | null>;
+
+/**
+ * A database holding table `t` in memory that answers the queries of
+ * diffTableData. Rows are keyed by `id` (primary key) or `_tidb_rowid`.
+ */
+function fakeDatabase(
+  rows: Row[],
+  options: { primaryKey?: string[] } = {},
+): TiDBDatabase & { hashedRows: number } {
+  const keyColumn = options.primaryKey ? "id" : "_tidb_rowid";
+  const sorted = [...rows].sort(
+    (a, b) => Number(a[keyColumn]) - Number(b[keyColumn]),
+  );
+  const hash = (row: Row) =>
+    createHash("md5")
+      .update(JSON.stringify([row.id, row.v]))
+      .digest("hex");
+  const result = (rows: Row[]) => ({ rows }) as unknown as QueryResult;
+
+  const db = {
+    hashedRows: 0,
+    async query(sql: string, params: unknown[] = []): Promise<QueryResult> {
+      if (sql.includes("INFORMATION_SCHEMA.TABLES")) {
+        return result([{ tbl: "t", type: "BASE TABLE" }]);
+      }
+      if (sql.includes("INFORMATION_SCHEMA.COLUMNS")) {
+        return result([
+          { tbl: "t", name: "id", type: "int", nullable: "NO" },
+          { tbl: "t", name: "v", type: "varchar(20)", nullable: "YES" },
+        ]);
+      }
+      if (sql.includes("INFORMATION_SCHEMA.TIDB_INDEXES")) {
+        return result(
+          (options.primaryKey ?? []).map((column) => ({
+            tbl: "t",
+            name: "PRIMARY",
+            non_unique: 0,
+            column_name: column,
+            visible: "YES",
+            clustered: "YES",
+          })),
+        );
+      }
+      if (sql.includes("INFORMATION_SCHEMA")) {
+        return result([]);
+      }
+
+      // Key range conditions come first, in the order lower, upper
+      const rest = [...params];
+      let selected = sorted;
+      if (sql.includes(") > (")) {
+        const lower = Number(rest.shift());
+        selected = selected.filter((row) => Number(row[keyColumn]) > lower);
+      }
+      if (sql.includes(") <= (")) {
+        const upper = Number(rest.shift());
+        selected = selected.filter((row) => Number(row[keyColumn]) <= upper);
+      }
+
+      if (sql.startsWith("SELECT COUNT(*)")) {
+        let checksum = 0n;
+        for (const row of selected) {
+          checksum ^= BigInt(`0x${hash(row).slice(0, 16)}`);
+        }
+        return result([
+          { row_count: selected.length, checksum: String(checksum) },
+        ]);
+      }
+      if (sql.includes("LIMIT 1 OFFSET ?")) {
+        const row = selected[Number(rest.shift())];
+        return result(row ? [{ [keyColumn]: row[keyColumn] }] : []);
+      }
+      if (sql.includes("AS row_hash")) {
+        db.hashedRows += selected.length;
+        return result(
+          selected.map((row) => ({
+            [keyColumn]: row[keyColumn],
+            row_hash: hash(row),
+          })),
+        );
+      }
+      if (sql.includes(" IN (")) {
+        const keys = new Set(params.map(Number));
+        return result(sorted.filter((row) => keys.has(Number(row[keyColumn]))));
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+  };
+  return db as unknown as TiDBDatabase & { hashedRows: number };
+}
+
+const OPTIONS = {
+  sourceDatabase: "app",
+  targetDatabase: "app",
+  chunkSize: 1000,
+  sampleSize: 5,
+};
+
+const parent = Array.from({ length: 3000 }, (_, i) => ({
+  id: i + 1,
+  v: `value ${i + 1}`,
+}));
+
+describe("diffTableData", () => {
+  it("finds no differences between identical tables without reading rows", async () => {
+    const source = fakeDatabase(parent, { primaryKey: ["id"] });
+    const target = fakeDatabase(parent, { primaryKey: ["id"] });
+    const diff = await diffTableData(source, target, "t", OPTIONS);
+
+    assert.deepEqual(diff.key, ["id"]);
+    // The open-ended last chunk follows the last full one
+    assert.equal(diff.chunks, 4);
+    assert.equal(diff.mismatchedChunks, 0);
+    assert.equal(diff.sourceRows, 3000);
+    assert.deepEqual([diff.inserted, diff.updated, diff.deleted], [0, 0, 0]);
+    assert.equal(source.hashedRows + target.hashedRows, 0);
+  });
+
+  it("narrows differing chunks down to the changed rows", async () => {
+    const branch = [
+      { id: 0, v: "new" },
+      ...parent
+        .filter((row) => ![10, 2999, 3000].includes(row.id))
+        .map((row) =>
+          row.id === 1500
+            ? { ...row, v: "changed" }
+            : row.id === 2000
+              ? { ...row, v: null }
+              : row,
+        ),
+    ];
+    const source = fakeDatabase(branch, { primaryKey: ["id"] });
+    const target = fakeDatabase(parent, { primaryKey: ["id"] });
+    const diff = await diffTableData(source, target, "t", OPTIONS);
+
+    assert.equal(diff.sourceRows, 2998);
+    assert.equal(diff.targetRows, 3000);
+    assert.equal(diff.chunks, 3);
+    assert.equal(diff.mismatchedChunks, 3);
+    assert.deepEqual([diff.inserted, diff.updated, diff.deleted], [1, 2, 3]);
+    // Target rows beyond the last source key are covered by the last chunk
+    assert.deepEqual(
+      diff.samples.deleted.map((row) => row.key.id),
+      [10, 2999, 3000],
+    );
+    assert.deepEqual(
+      diff.samples.updated.map((row) => [row.key.id, row.changedColumns]),
+      [
+        [1500, ["v"]],
+        [2000, ["v"]],
+      ],
+    );
+    assert.deepEqual(diff.samples.inserted[0].source, { id: 0, v: "new" });
+    // Chunks of 1000 rows are split before rows are compared one by one
+    assert.ok(source.hashedRows < 2998, `hashed ${source.hashedRows} rows`);
+  });
+
+  it("matches rows by row ID when neither table has a primary key", async () => {
+    const withRowId = parent.map((row) => ({ ...row, _tidb_rowid: row.id }));
+    const diff = await diffTableData(
+      fakeDatabase(withRowId.slice(1)),
+      fakeDatabase(withRowId),
+      "t",
+      OPTIONS,
+    );
+    assert.deepEqual(diff.key, ["_tidb_rowid"]);
+    assert.equal(diff.deleted, 1);
+  });
+
+  it("refuses tables whose primary keys differ", async () => {
+    await assert.rejects(
+      diffTableData(
+        fakeDatabase(parent, { primaryKey: ["id"] }),
+        fakeDatabase(parent, { primaryKey: ["id", "v"] }),
+        "t",
+        OPTIONS,
+      ),
+      /primary key of t differs between the source \(id\) and the target \(id, v\)/,
+    );
+    await assert.rejects(
+      diffTableData(
+        fakeDatabase(parent, { primaryKey: ["id"] }),
+        fakeDatabase(parent),
+        "t",
+        OPTIONS,
+      ),
+      /target \(none\)/,
+    );
+  });
+});
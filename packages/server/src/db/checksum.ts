@@ -0,0 +1,432 @@
+/**
+ * Row-level table comparison for TiDB
+ *
+ * Compares a table on two connections, such as a branch and its parent
+ * cluster, without reading whole tables: the key space is split into chunks
+ * whose row counts and checksums are computed on each side. Chunks that
+ * differ are split in halves until they are small enough to compare the
+ * hashes of their rows, and only sampled rows are read in full.
+ */
+
+import { TiDBDatabase, TiDBDatabaseError, quoteIdentifier } from "./client.js";
+import { describeSchema } from "./schema.js";
+import type {
+  RowDifference,
+  SqlValue,
+  TableDataDiff,
+  TableSchema,
+} from "./types.js";
+
+/**
+ * Chunks with at most this many rows on each side are compared row by row
+ */
+const ROW_COMPARE_LIMIT = 500;
+
+/**
+ * Key of tables without a primary key. Branches keep the row IDs of their
+ * parent, so it identifies the same rows on both up to the fork. Rows
+ * inserted afterwards get row IDs allocated separately on each side, so
+ * inserts on both sides may share a row ID and show up as updates.
+ */
+const ROW_ID = "_tidb_rowid";
+
+type Key = SqlValue[];
+
+/**
+ * A key range, exclusive of `lower` and inclusive of `upper`; a missing
+ * bound is open
+ */
+interface KeyRange {
+  lower?: Key;
+  upper?: Key;
+}
+
+/**
+ * The table being compared and the SQL fragments shared by the queries
+ */
+interface Comparison {
+  sourceTable: string;
+  targetTable: string;
+  key: string[];
+  /** Key columns, quoted and comma-separated */
+  keyList: string;
+  /** Key columns as a row constructor, for range comparisons */
+  keyTuple: string;
+  /** Expression that turns the compared columns of a row into one string */
+  rowText: string;
+}
+
+/**
+ * Builds the WHERE clause selecting a key range
+ */
+function rangeFilter(
+  comparison: Comparison,
+  range: KeyRange,
+): { sql: string; params: SqlValue[] } {
+  const placeholders = `(${comparison.key.map(() => "?").join(", ")})`;
+  const conditions: string[] = [];
+  const params: SqlValue[] = [];
+  if (range.lower) {
+    conditions.push(`${comparison.keyTuple} > ${placeholders}`);
+    params.push(...range.lower);
+  }
+  if (range.upper) {
+    conditions.push(`${comparison.keyTuple} <= ${placeholders}`);
+    params.push(...range.upper);
+  }
+  return {
+    sql: conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "",
+    params,
+  };
+}
+
+/**
+ * Counts the rows of a key range and combines their hashes into a checksum
+ * that doesn't depend on row order
+ */
+async function checksumRange(
+  db: TiDBDatabase,
+  table: string,
+  comparison: Comparison,
+  range: KeyRange,
+): Promise<{ count: number; checksum: string }> {
+  const filter = rangeFilter(comparison, range);
+  const result = await db.query(
+    `SELECT COUNT(*) AS row_count,
+  BIT_XOR(CAST(CONV(SUBSTRING(MD5(${comparison.rowText}), 1, 16), 16, 10) AS UNSIGNED)) AS checksum
+FROM ${table}${filter.sql}`,
+    filter.params,
+  );
+  const row = result.rows[0] ?? {};
+  return {
+    count: Number(row.row_count ?? 0),
+    checksum: String(row.checksum ?? ""),
+  };
+}
+
+/**
+ * Returns the key of the row at `offset` within a key range, in key order
+ */
+async function keyAt(
+  db: TiDBDatabase,
+  table: string,
+  comparison: Comparison,
+  range: KeyRange,
+  offset: number,
+): Promise<Key | undefined> {
+  const filter = rangeFilter(comparison, range);
+  const result = await db.query(
+    `SELECT ${comparison.keyList} FROM ${table}${filter.sql}
+ORDER BY ${comparison.keyList}
+LIMIT 1 OFFSET ?`,
+    [...filter.params, offset],
+  );
+  const row = result.rows[0];
+  return row
+    ? comparison.key.map((column) => row[column] as SqlValue)
+    : undefined;
+}
+
+/**
+ * Reads the key and hash of every row in a key range
+ * @returns Hashes by serialized key
+ */
+async function hashRows(
+  db: TiDBDatabase,
+  table: string,
+  comparison: Comparison,
+  range: KeyRange,
+): Promise<Map<string, { key: Key; hash: string }>> {
+  const filter = rangeFilter(comparison, range);
+  const result = await db.query(
+    `SELECT ${comparison.keyList}, MD5(${comparison.rowText}) AS row_hash
+FROM ${table}${filter.sql}`,
+    filter.params,
+  );
+  const hashes = new Map<string, { key: Key; hash: string }>();
+  for (const row of result.rows) {
+    const key = comparison.key.map((column) => row[column] as SqlValue);
+    hashes.set(JSON.stringify(key), { key, hash: String(row.row_hash) });
+  }
+  return hashes;
+}
+
+/**
+ * Reads the full rows with the given keys
+ * @returns Rows by serialized key
+ */
+async function readRows(
+  db: TiDBDatabase,
+  table: string,
+  comparison: Comparison,
+  columns: string[],
+  keys: Key[],
+): Promise<Map<string, Record<string, unknown>>> {
+  const rows = new Map<string, Record<string, unknown>>();
+  if (keys.length === 0) {
+    return rows;
+  }
+  const placeholders = keys
+    .map(() => `(${comparison.key.map(() => "?").join(", ")})`)
+    .join(", ");
+  const selected = [...new Set([...comparison.key, ...columns])];
+  const result = await db.query(
+    `SELECT ${selected.map(quoteIdentifier).join(", ")}
+FROM ${table}
+WHERE ${comparison.keyTuple} IN (${placeholders})`,
+    keys.flat(),
+  );
+  for (const row of result.rows) {
+    const key = comparison.key.map((column) => row[column] as SqlValue);
+    rows.set(JSON.stringify(key), row);
+  }
+  return rows;
+}
+
+/**
+ * Picks the key columns shared by both tables: the primary key, or the
+ * row ID if neither table has one
+ */
+function chooseKey(source: TableSchema, target: TableSchema): string[] {
+  const primaryKey = (table: TableSchema) =>
+    table.indexes.find((index) => index.kind === "primary")?.columns;
+  const sourceKey = primaryKey(source);
+  const targetKey = primaryKey(target);
+
+  if (!sourceKey && !targetKey) {
+    return [ROW_ID];
+  }
+  if (
+    !sourceKey ||
+    !targetKey ||
+    sourceKey.join(",").toLowerCase() !== targetKey.join(",").toLowerCase()
+  ) {
+    throw new TiDBDatabaseError(
+      `The primary key of ${source.name} differs between the source (${sourceKey?.join(", ") ?? "none"}) and the target (${targetKey?.join(", ") ?? "none"}), so rows can't be matched. Compare the schemas with diff_schema first.`,
+    );
+  }
+  if (sourceKey.some((column) => column.startsWith("("))) {
+    throw new TiDBDatabaseError(
+      `The primary key of ${source.name} contains an expression, so rows can't be matched.`,
+    );
+  }
+  return sourceKey;
+}
+
+/**
+ * Compares a table on two connections row by row, using chunked checksums
+ * so that only differing key ranges are read in detail
+ * @param source - Connection with the changed data, e.g. a branch
+ * @param target - Connection with the data to compare with, e.g. the
+ *   parent cluster
+ * @param table - The table to compare
+ * @param options - Databases on each side, number of rows per checksum
+ *   chunk and number of sample rows per kind of change
+ */
+export async function diffTableData(
+  source: TiDBDatabase,
+  target: TiDBDatabase,
+  table: string,
+  options: {
+    sourceDatabase: string;
+    targetDatabase: string;
+    chunkSize: number;
+    sampleSize: number;
+  },
+): Promise<TableDataDiff> {
+  const [sourceSchema, targetSchema] = await Promise.all([
+    describeSchema(source, options.sourceDatabase, { table }),
+    describeSchema(target, options.targetDatabase, { table }),
+  ]);
+  const sourceTable = sourceSchema.tables[0];
+  const targetTable = targetSchema.tables[0];
+  if (!sourceTable || !targetTable) {
+    throw new TiDBDatabaseError(
+      `Table ${table} not found on the ${sourceTable ? "target" : "source"}.`,
+    );
+  }
+
+  const key = chooseKey(sourceTable, targetTable);
+  const targetColumns = new Set(
+    targetTable.columns.map((column) => column.name),
+  );
+  const sourceColumns = new Set(
+    sourceTable.columns.map((column) => column.name),
+  );
+  const columns = sourceTable.columns
+    .map((column) => column.name)
+    .filter((name) => targetColumns.has(name));
+  const skippedColumns = [
+    ...[...sourceColumns].filter((name) => !targetColumns.has(name)),
+    ...[...targetColumns].filter((name) => !sourceColumns.has(name)),
+  ];
+
+  // Each value is prefixed with its length and NULL becomes "N", so values
+  // can't run into each other: ('a|b', 'c') and ('a', 'b|c') differ
+  const quoted = columns.map(quoteIdentifier);
+  const comparison: Comparison = {
+    sourceTable: `${quoteIdentifier(options.sourceDatabase)}.${quoteIdentifier(table)}`,
+    targetTable: `${quoteIdentifier(options.targetDatabase)}.${quoteIdentifier(table)}`,
+    key,
+    keyList: key.map(quoteIdentifier).join(", "),
+    keyTuple: `(${key.map(quoteIdentifier).join(", ")})`,
+    rowText: `CONCAT(${quoted
+      .map((column) => `IFNULL(CONCAT(LENGTH(${column}), ':', ${column}), 'N')`)
+      .join(", ")})`,
+  };
+
+  // Chunk boundaries come from the source; the open-ended last chunk also
+  // covers target rows beyond the last source key
+  const boundaries: Key[] = [];
+  for (;;) {
+    const boundary = await keyAt(
+      source,
+      comparison.sourceTable,
+      comparison,
+      { lower: boundaries[boundaries.length - 1] },
+      options.chunkSize - 1,
+    );
+    if (!boundary) break;
+    boundaries.push(boundary);
+  }
+  const chunks: KeyRange[] = [...boundaries, undefined].map((upper, i) => ({
+    lower: boundaries[i - 1],
+    upper,
+  }));
+
+  const result: TableDataDiff = {
+    key,
+    columns,
+    sourceRows: 0,
+    targetRows: 0,
+    inserted: 0,
+    updated: 0,
+    deleted: 0,
+    samples: { inserted: [], updated: [], deleted: [] },
+    chunks: chunks.length,
+    mismatchedChunks: 0,
+    skippedColumns,
+  };
+  const sampleKeys: Record<"inserted" | "updated" | "deleted", Key[]> = {
+    inserted: [],
+    updated: [],
+    deleted: [],
+  };
+  const record = (kind: keyof typeof sampleKeys, rowKey: Key) => {
+    result[kind]++;
+    if (sampleKeys[kind].length < options.sampleSize) {
+      sampleKeys[kind].push(rowKey);
+    }
+  };
+
+  // Compares a range by checksum, narrowing down to the rows that differ
+  const compareRange = async (
+    range: KeyRange,
+    counts: { source: number; target: number },
+  ): Promise<void> => {
+    if (Math.max(counts.source, counts.target) <= ROW_COMPARE_LIMIT) {
+      const [sourceHashes, targetHashes] = await Promise.all([
+        hashRows(source, comparison.sourceTable, comparison, range),
+        hashRows(target, comparison.targetTable, comparison, range),
+      ]);
+      for (const [id, row] of sourceHashes) {
+        const other = targetHashes.get(id);
+        if (!other) record("inserted", row.key);
+        else if (other.hash !== row.hash) record("updated", row.key);
+      }
+      for (const [id, row] of targetHashes) {
+        if (!sourceHashes.has(id)) record("deleted", row.key);
+      }
+      return;
+    }
+
+    // Split at the middle row of the larger side; each half then has fewer
+    // rows on that side, so the narrowing ends
+    const larger = counts.source >= counts.target ? "source" : "target";
+    const middle = await keyAt(
+      larger === "source" ? source : target,
+      larger === "source" ? comparison.sourceTable : comparison.targetTable,
+      comparison,
+      range,
+      Math.floor(counts[larger] / 2) - 1,
+    );
+    if (!middle) {
+      throw new TiDBDatabaseError(
+        `Rows of ${table} changed during the comparison. Run it again once writes have stopped.`,
+      );
+    }
+    for (const half of [
+      { lower: range.lower, upper: middle },
+      { lower: middle, upper: range.upper },
+    ]) {
+      const [sourceSum, targetSum] = await Promise.all([
+        checksumRange(source, comparison.sourceTable, comparison, half),
+        checksumRange(target, comparison.targetTable, comparison, half),
+      ]);
+      if (
+        sourceSum.count !== targetSum.count ||
+        sourceSum.checksum !== targetSum.checksum
+      ) {
+        await compareRange(half, {
+          source: sourceSum.count,
+          target: targetSum.count,
+        });
+      }
+    }
+  };
+
+  for (const chunk of chunks) {
+    const [sourceSum, targetSum] = await Promise.all([
+      checksumRange(source, comparison.sourceTable, comparison, chunk),
+      checksumRange(target, comparison.targetTable, comparison, chunk),
+    ]);
+    result.sourceRows += sourceSum.count;
+    result.targetRows += targetSum.count;
+    if (
+      sourceSum.count !== targetSum.count ||
+      sourceSum.checksum !== targetSum.checksum
+    ) {
+      result.mismatchedChunks++;
+      await compareRange(chunk, {
+        source: sourceSum.count,
+        target: targetSum.count,
+      });
+    }
+  }
+
+  // Read the sampled rows in full
+  const sampled = [
+    ...sampleKeys.inserted,
+    ...sampleKeys.updated,
+    ...sampleKeys.deleted,
+  ];
+  const [sourceRows, targetRows] = await Promise.all([
+    readRows(source, comparison.sourceTable, comparison, columns, sampled),
+    readRows(target, comparison.targetTable, comparison, columns, sampled),
+  ]);
+  const toDifference = (rowKey: Key): RowDifference => {
+    const id = JSON.stringify(rowKey);
+    const sourceRow = sourceRows.get(id);
+    const targetRow = targetRows.get(id);
+    const difference: RowDifference = {
+      key: Object.fromEntries(key.map((column, i) => [column, rowKey[i]])),
+      source: sourceRow,
+      target: targetRow,
+    };
+    if (sourceRow && targetRow) {
+      difference.changedColumns = columns.filter(
+        (column) =>
+          JSON.stringify(sourceRow[column]) !==
+          JSON.stringify(targetRow[column]),
+      );
+    }
+    return difference;
+  };
+  result.samples = {
+    inserted: sampleKeys.inserted.map(toDifference),
+    updated: sampleKeys.updated.map(toDifference),
+    deleted: sampleKeys.deleted.map(toDifference),
+  };
+
+  return result;
+}
@@ -6,8 +6,26 @@ import {
   connect,
   type Connection,
   type FullResult,
+  type Tx,
 } from "@tidbcloud/serverless";
-import type { DatabaseConfig, QueryResult, ExecuteResult } from "./types.js";
+import type {
+  BatchResult,
+  DatabaseConfig,
+  QueryResult,
+  ExecuteResult,
+  QueryLimits,
+  SqlParameters,
+} from "./types.js";
+import { bindParameters, classifySql } from "./sql.js";
+
+/**
+ * Default limits for query results returned to the client
+ */
+export const DEFAULT_QUERY_LIMITS: QueryLimits = {
+  maxRows: 100,
+  maxBytes: 50_000,
+  maxCellLength: 500,
+};
 
 /**
  * Custom error class for database errors
@@ -47,17 +65,17 @@ export class TiDBDatabase {
   /**
    * Executes a read-only query and returns the results
    * @param sql - The SQL query to execute
-   * @param params - Optional query parameters
+   * @param params - Optional values for `?` or `:name` placeholders
    * @param database - Optional database to use (overrides default)
    */
   async query(
     sql: string,
-    params?: unknown[],
+    params?: SqlParameters,
     database?: string,
   ): Promise<QueryResult> {
     try {
       const conn = this.createConnection(database);
-      const result = (await conn.execute(sql, params, {
+      const result = (await conn.execute(this.bind(sql, params), null, {
         fullResult: true,
       })) as FullResult;
 
@@ -78,46 +96,129 @@ export class TiDBDatabase {
   /**
    * Executes a DML/DDL statement and returns the affected row count
    * @param sql - The SQL statement to execute
-   * @param params - Optional query parameters
+   * @param params - Optional values for `?` or `:name` placeholders
    * @param database - Optional database to use (overrides default)
    */
   async execute(
     sql: string,
-    params?: unknown[],
+    params?: SqlParameters,
     database?: string,
   ): Promise<ExecuteResult> {
     try {
       const conn = this.createConnection(database);
-      const result = (await conn.execute(sql, params, {
+      const result = (await conn.execute(this.bind(sql, params), null, {
         fullResult: true,
       })) as FullResult;
 
-      return {
-        rowsAffected: result.rowsAffected ?? 0,
-        lastInsertId: result.lastInsertId
-          ? Number(result.lastInsertId)
-          : undefined,
-      };
+      return this.toExecuteResult(result);
     } catch (error) {
       throw this.handleError(error);
     }
   }
 
   /**
-   * Executes multiple SQL statements in sequence
+   * Inlines parameter values. The driver's own formatter also replaces
+   * placeholder characters inside string literals and comments, so binding
+   * is done here with the tokenizer instead.
+   */
+  private bind(sql: string, params?: SqlParameters): string {
+    return params ? bindParameters(sql, params) : sql;
+  }
+
+  /**
+   * Executes multiple SQL statements in sequence, stopping at the first
+   * failure. Without `atomic` every statement commits on its own; with it
+   * the batch runs in a single transaction that is rolled back on failure.
    * @param statements - Array of SQL statements to execute
    * @param database - Optional database to use
+   * @param atomic - Run all statements in one transaction
    */
   async executeMultiple(
     statements: string[],
     database?: string,
-  ): Promise<ExecuteResult[]> {
+    atomic = false,
+  ): Promise<BatchResult> {
+    if (atomic) {
+      return this.executeInTransaction(statements, database);
+    }
+
     const results: ExecuteResult[] = [];
-    for (const sql of statements) {
-      const result = await this.execute(sql, undefined, database);
-      results.push(result);
+    for (let i = 0; i < statements.length; i++) {
+      try {
+        const conn = this.createConnection(database);
+        const result = (await conn.execute(statements[i], null, {
+          fullResult: true,
+        })) as FullResult;
+        results.push(this.toExecuteResult(result));
+      } catch (error) {
+        return {
+          results,
+          failure: { index: i, message: this.handleError(error).message },
+          atomic,
+          rolledBack: false,
+        };
+      }
     }
-    return results;
+    return { results, atomic, rolledBack: false };
+  }
+
+  /**
+   * Runs statements in one transaction on a single session. On failure the
+   * transaction is rolled back, so no statement of the batch takes effect.
+   */
+  private async executeInTransaction(
+    statements: string[],
+    database?: string,
+  ): Promise<BatchResult> {
+    let tx: Tx;
+    try {
+      tx = await this.createConnection(database).begin();
+    } catch (error) {
+      throw this.handleError(error);
+    }
+
+    const results: ExecuteResult[] = [];
+    for (let i = 0; i < statements.length; i++) {
+      try {
+        const result = (await tx.execute(statements[i], null, {
+          fullResult: true,
+        })) as FullResult;
+        results.push(this.toExecuteResult(result));
+      } catch (error) {
+        const failure = { index: i, message: this.handleError(error).message };
+        try {
+          await tx.rollback();
+        } catch {
+          // The server discards the transaction when the session ends
+        }
+        return { results, failure, atomic: true, rolledBack: true };
+      }
+    }
+
+    try {
+      await tx.commit();
+    } catch (error) {
+      // A failed commit leaves nothing applied
+      return {
+        results,
+        atomic: true,
+        rolledBack: true,
+        commitError: this.handleError(error).message,
+      };
+    }
+    return { results, atomic: true, rolledBack: false };
+  }
+
+  /**
+   * Converts a driver result into an ExecuteResult
+   */
+  private toExecuteResult(result: FullResult): ExecuteResult {
+    return {
+      rowsAffected: result.rowsAffected ?? 0,
+      lastInsertId: result.lastInsertId
+        ? Number(result.lastInsertId)
+        : undefined,
+    };
   }
 
   /**
@@ -188,51 +289,13 @@ export class TiDBDatabase {
 }
 
 /**
- * Dangerous SQL patterns that should be blocked even in seemingly read-only queries
- */
-const DANGEROUS_PATTERNS: RegExp[] = [
-  /INTO\s+OUTFILE/i,
-  /INTO\s+DUMPFILE/i,
-  /LOAD_FILE\s*\(/i,
-  /LOAD\s+DATA/i,
-  /BENCHMARK\s*\(/i,
-  /SLEEP\s*\(/i,
-  /GET_LOCK\s*\(/i,
-  /RELEASE_LOCK\s*\(/i,
-  /IS_FREE_LOCK\s*\(/i,
-  /IS_USED_LOCK\s*\(/i,
-  /master_pos_wait\s*\(/i,
-  /@@global\./i,
-  /@@session\./i,
-];
-
-/**
- * Validates that a SQL statement is read-only
+ * Validates that SQL text is a single read-only statement
  * @param sql - The SQL statement to validate
  * @returns true if the statement is read-only and safe
  */
 export function isReadOnlyQuery(sql: string): boolean {
-  const normalized = sql.trim().toUpperCase();
-  const readOnlyPrefixes = [
-    "SELECT",
-    "SHOW",
-    "DESCRIBE",
-    "DESC",
-    "EXPLAIN",
-    "WITH", // CTEs that start with WITH are typically SELECT
-  ];
-
-  // First check if it starts with a read-only prefix
-  if (!readOnlyPrefixes.some((prefix) => normalized.startsWith(prefix))) {
-    return false;
-  }
-
-  // Check for dangerous patterns even in seemingly read-only queries
-  if (DANGEROUS_PATTERNS.some((pattern) => pattern.test(sql))) {
-    return false;
-  }
-
-  return true;
+  const statements = classifySql(sql);
+  return statements.length === 1 && statements[0].readOnly;
 }
 
 /**
@@ -246,6 +309,15 @@ export function isValidResourceId(id: string): boolean {
   return validIdPattern.test(id) && id.length <= 64;
 }
 
+/**
+ * Quotes a database, table or column name for use in SQL
+ * @param name - The identifier to quote
+ * @returns The identifier wrapped in backticks, with backticks escaped
+ */
+export function quoteIdentifier(name: string): string {
+  return `\`${name.replace(/`/g, "``")}\``;
+}
+
 /**
  * Sanitizes a display name to prevent XSS in logs/UI
  * @param name - The display name to sanitize
@@ -0,0 +1,213 @@
+/**
+ * Statement summary and slow query diagnostics for TiDB
+ *
+ * Reads INFORMATION_SCHEMA.CLUSTER_STATEMENTS_SUMMARY_HISTORY and
+ * CLUSTER_SLOW_QUERY, which cover every TiDB instance of the cluster. The
+ * history table includes the current summary window.
+ */
+
+import { TiDBDatabase } from "./client.js";
+import type {
+  SlowQuery,
+  SqlValue,
+  StatementPlan,
+  StatementRanking,
+  StatementSummary,
+} from "./types.js";
+
+/**
+ * Latency columns of the statement summary are in nanoseconds
+ */
+const NS_PER_MS = 1_000_000;
+
+/**
+ * ORDER BY expression for each ranking, referring to the aliases of the
+ * top statements query
+ */
+const RANKING_ORDER: Record<StatementRanking, string> = {
+  total_latency: "total_latency",
+  avg_latency: "avg_latency",
+  ru: "total_ru",
+  executions: "executions",
+};
+
+/**
+ * Reads a nullable text column
+ */
+function text(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+/**
+ * Lists the statements that ran within the last `windowMinutes`, ranked by
+ * the given metric. Statistics are kept per summary window (30 minutes by
+ * default), so a window partially inside the range counts in full.
+ * @param db - Database to read the statement summary from
+ * @param options - Ranking, time window, maximum number of statements and an
+ *   optional database filter
+ */
+export async function listTopStatements(
+  db: TiDBDatabase,
+  options: {
+    rankBy: StatementRanking;
+    windowMinutes: number;
+    limit: number;
+    database?: string;
+  },
+): Promise<StatementSummary[]> {
+  const params: SqlValue[] = [options.windowMinutes];
+  let filter = "";
+  if (options.database) {
+    filter = " AND SCHEMA_NAME = ?";
+    params.push(options.database);
+  }
+  params.push(options.limit);
+
+  const result = await db.query(
+    `SELECT DIGEST AS digest, ANY_VALUE(DIGEST_TEXT) AS digest_text,
+  ANY_VALUE(SCHEMA_NAME) AS schema_name, ANY_VALUE(STMT_TYPE) AS stmt_type,
+  SUM(EXEC_COUNT) AS executions, SUM(SUM_LATENCY) AS total_latency,
+  SUM(SUM_LATENCY) / SUM(EXEC_COUNT) AS avg_latency,
+  MAX(MAX_LATENCY) AS max_latency,
+  SUM((AVG_REQUEST_UNIT_READ + AVG_REQUEST_UNIT_WRITE) * EXEC_COUNT) AS total_ru,
+  SUM(AVG_PROCESSED_KEYS * EXEC_COUNT) / SUM(EXEC_COUNT) AS avg_processed_keys,
+  COUNT(DISTINCT PLAN_DIGEST) AS plan_count,
+  MIN(FIRST_SEEN) AS first_seen, MAX(LAST_SEEN) AS last_seen,
+  ANY_VALUE(QUERY_SAMPLE_TEXT) AS sample_text
+FROM INFORMATION_SCHEMA.CLUSTER_STATEMENTS_SUMMARY_HISTORY
+WHERE SUMMARY_END_TIME > NOW() - INTERVAL ? MINUTE
+  AND DIGEST IS NOT NULL${filter}
+GROUP BY DIGEST
+ORDER BY ${RANKING_ORDER[options.rankBy]} DESC
+LIMIT ?`,
+    params,
+  );
+
+  return result.rows.map((row) => ({
+    digest: text(row.digest),
+    digestText: text(row.digest_text),
+    database: text(row.schema_name),
+    statementType: text(row.stmt_type),
+    executions: Number(row.executions ?? 0),
+    totalLatencyMs: Number(row.total_latency ?? 0) / NS_PER_MS,
+    avgLatencyMs: Number(row.avg_latency ?? 0) / NS_PER_MS,
+    maxLatencyMs: Number(row.max_latency ?? 0) / NS_PER_MS,
+    totalRu: Number(row.total_ru ?? 0),
+    avgProcessedKeys: Number(row.avg_processed_keys ?? 0),
+    planCount: Number(row.plan_count ?? 0),
+    firstSeen: text(row.first_seen),
+    lastSeen: text(row.last_seen),
+    sampleText: text(row.sample_text),
+  }));
+}
+
+/**
+ * Lists the plans a statement has used, most executed first
+ * @param db - Database to read the statement summary from
+ * @param digest - Digest of the statement
+ * @param planDigest - Only return this plan
+ */
+export async function getStatementPlans(
+  db: TiDBDatabase,
+  digest: string,
+  planDigest?: string,
+): Promise<StatementPlan[]> {
+  const params: SqlValue[] = [digest];
+  let filter = "";
+  if (planDigest) {
+    filter = " AND PLAN_DIGEST = ?";
+    params.push(planDigest);
+  }
+
+  const result = await db.query(
+    `SELECT PLAN_DIGEST AS plan_digest, ANY_VALUE(PLAN) AS plan,
+  SUM(EXEC_COUNT) AS executions,
+  SUM(SUM_LATENCY) / SUM(EXEC_COUNT) AS avg_latency,
+  MAX(MAX_LATENCY) AS max_latency,
+  MIN(FIRST_SEEN) AS first_seen, MAX(LAST_SEEN) AS last_seen,
+  ANY_VALUE(QUERY_SAMPLE_TEXT) AS sample_text
+FROM INFORMATION_SCHEMA.CLUSTER_STATEMENTS_SUMMARY_HISTORY
+WHERE DIGEST = ?${filter}
+GROUP BY PLAN_DIGEST
+ORDER BY executions DESC`,
+    params,
+  );
+
+  return result.rows.map((row) => ({
+    planDigest: text(row.plan_digest),
+    plan: text(row.plan),
+    executions: Number(row.executions ?? 0),
+    avgLatencyMs: Number(row.avg_latency ?? 0) / NS_PER_MS,
+    maxLatencyMs: Number(row.max_latency ?? 0) / NS_PER_MS,
+    firstSeen: text(row.first_seen),
+    lastSeen: text(row.last_seen),
+    sampleText: text(row.sample_text),
+  }));
+}
+
+/**
+ * Lists the slowest queries of the last `windowMinutes` from the slow
+ * query log, leaving out TiDB's internal queries
+ * @param db - Database to read the slow query log from
+ * @param options - Time window, maximum number of queries and optional
+ *   filters on statement digest, database and minimum query time
+ */
+export async function listSlowQueries(
+  db: TiDBDatabase,
+  options: {
+    windowMinutes: number;
+    limit: number;
+    digest?: string;
+    database?: string;
+    minQueryTimeMs?: number;
+  },
+): Promise<SlowQuery[]> {
+  const params: SqlValue[] = [options.windowMinutes];
+  const filters: string[] = [];
+  if (options.digest) {
+    filters.push("Digest = ?");
+    params.push(options.digest);
+  }
+  if (options.database) {
+    filters.push("DB = ?");
+    params.push(options.database);
+  }
+  if (options.minQueryTimeMs !== undefined) {
+    filters.push("Query_time >= ?");
+    params.push(options.minQueryTimeMs / 1000);
+  }
+  params.push(options.limit);
+
+  const result = await db.query(
+    `SELECT Time AS time, Query_time AS query_time, DB AS db, User AS user,
+  Digest AS digest, Plan_digest AS plan_digest, Query AS query,
+  Process_keys AS processed_keys, Total_keys AS total_keys,
+  Mem_max AS mem_max, Result_rows AS result_rows,
+  Request_unit_read + Request_unit_write AS ru, Succ AS succ,
+  Index_names AS index_names
+FROM INFORMATION_SCHEMA.CLUSTER_SLOW_QUERY
+WHERE Time > NOW() - INTERVAL ? MINUTE
+  AND Is_internal = 0${filters.map((filter) => ` AND ${filter}`).join("")}
+ORDER BY Query_time DESC
+LIMIT ?`,
+    params,
+  );
+
+  return result.rows.map((row) => ({
+    time: text(row.time),
+    // Query_time is in seconds
+    queryTimeMs: Number(row.query_time ?? 0) * 1000,
+    database: text(row.db),
+    user: text(row.user),
+    digest: text(row.digest),
+    planDigest: text(row.plan_digest),
+    query: text(row.query),
+    processedKeys: Number(row.processed_keys ?? 0),
+    totalKeys: Number(row.total_keys ?? 0),
+    maxMemoryBytes: Number(row.mem_max ?? 0),
+    resultRows: Number(row.result_rows ?? 0),
+    ru: Number(row.ru ?? 0),
+    succeeded: Number(row.succ) === 1,
+    indexNames: text(row.index_names),
+  }));
+}
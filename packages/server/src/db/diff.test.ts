@@ -0,0 +1,280 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { TiDBDatabase } from "./client.js";
+import { diffSchemas } from "./diff.js";
+import type { QueryResult } from "./types.js";
+
+interface FakeTable {
+  /** Output of SHOW CREATE TABLE */
+  create: string;
+  /** Column names and types, in order */
+  columns: [string, string][];
+  /** Index names and their columns; PRIMARY is the primary key */
+  indexes?: [string, string[]][];
+}
+
+interface FakeView {
+  /** Output of SHOW CREATE TABLE for the view */
+  create: string;
+  /** VIEW_DEFINITION of INFORMATION_SCHEMA.VIEWS */
+  definition: string;
+}
+
+/**
+ * A database answering the INFORMATION_SCHEMA and SHOW CREATE queries of
+ * diffSchemas from the given tables and views
+ */
+function fakeDatabase(
+  tables: Record<string, FakeTable>,
+  views: Record<string, FakeView> = {},
+): TiDBDatabase {
+  const result = (rows: Record<string, unknown>[]) =>
+    ({ rows }) as unknown as QueryResult;
+  const entries = Object.entries(tables);
+
+  return {
+    async query(sql: string): Promise<QueryResult> {
+      if (sql.includes("INFORMATION_SCHEMA.TABLES")) {
+        return result([
+          ...entries.map(([tbl]) => ({ tbl, type: "BASE TABLE" })),
+          ...Object.keys(views).map((tbl) => ({ tbl, type: "VIEW" })),
+        ]);
+      }
+      if (sql.includes("INFORMATION_SCHEMA.COLUMNS")) {
+        return result(
+          entries.flatMap(([tbl, table]) =>
+            table.columns.map(([name, type]) => ({
+              tbl,
+              name,
+              type,
+              nullable: "NO",
+              default_value: null,
+              extra: "",
+              comment: "",
+            })),
+          ),
+        );
+      }
+      if (sql.includes("INFORMATION_SCHEMA.TIDB_INDEXES")) {
+        return result(
+          entries.flatMap(([tbl, table]) =>
+            (table.indexes ?? []).flatMap(([name, columns]) =>
+              columns.map((column_name) => ({
+                tbl,
+                name,
+                non_unique: name === "PRIMARY" ? 0 : 1,
+                column_name,
+                expr: null,
+                visible: "YES",
+                clustered: name === "PRIMARY" ? "YES" : "NO",
+              })),
+            ),
+          ),
+        );
+      }
+      if (sql.includes("INFORMATION_SCHEMA.VIEWS")) {
+        return result(
+          Object.entries(views).map(([tbl, view]) => ({
+            tbl,
+            definition: view.definition,
+          })),
+        );
+      }
+      if (sql.includes("INFORMATION_SCHEMA")) {
+        return result([]);
+      }
+      const show = sql.match(/^SHOW CREATE TABLE `[^`]+`\.`([^`]+)`$/);
+      if (show) {
+        const view = views[show[1]];
+        return result([
+          view
+            ? { View: show[1], "Create View": view.create }
+            : { Table: show[1], "Create Table": tables[show[1]].create },
+        ]);
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+  } as unknown as TiDBDatabase;
+}
+
+const USERS_COLUMNS: [string, string][] = [
+  ["id", "bigint(20)"],
+  ["email", "varchar(255)"],
+  ["name", "varchar(100)"],
+  ["created_at", "datetime"],
+];
+
+describe("diffSchemas", () => {
+  it("finds no changes between identical schemas", async () => {
+    const users = {
+      create: "",
+      columns: USERS_COLUMNS,
+      indexes: [["PRIMARY", ["id"]]] as [string, string[]][],
+    };
+    const diff = await diffSchemas(
+      fakeDatabase({ users }),
+      fakeDatabase({ users }),
+      "app",
+      "app",
+    );
+    assert.deepEqual(diff, { changes: [], ddl: [], warnings: [] });
+  });
+
+  it("copies column and index definitions from SHOW CREATE TABLE", async () => {
+    const source = fakeDatabase({
+      users: {
+        create: [
+          "CREATE TABLE `users` (",
+          "  `id` bigint(20) NOT NULL /*T![auto_rand] AUTO_RANDOM(5) */,",
+          "  `name` varchar(100) DEFAULT NULL COMMENT 'display, name',",
+          "  `email` varchar(255) NOT NULL,",
+          "  `created_at` datetime DEFAULT CURRENT_TIMESTAMP,",
+          "  `nick``name` varchar(50) DEFAULT NULL,",
+          "  PRIMARY KEY (`id`) /*T![clustered_index] CLUSTERED */,",
+          "  KEY `idx_name` (`name`)",
+          ") ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_bin /*T![auto_rand_base] AUTO_RANDOM_BASE=30001 */",
+        ].join("\n"),
+        columns: [
+          ["id", "bigint(20)"],
+          ["name", "varchar(100)"],
+          ["email", "varchar(255)"],
+          ["created_at", "datetime"],
+          ["nick`name", "varchar(50)"],
+        ],
+        indexes: [
+          ["PRIMARY", ["id"]],
+          ["idx_name", ["name"]],
+        ],
+      },
+    });
+    const target = fakeDatabase({
+      users: {
+        create: "",
+        columns: [...USERS_COLUMNS, ["legacy", "int(11)"]],
+        indexes: [["PRIMARY", ["id"]]],
+      },
+    });
+
+    const diff = await diffSchemas(source, target, "app", "app");
+    assert.deepEqual(
+      diff.changes.map((change) => [change.object, change.change, change.name]),
+      [
+        ["column", "modified", "name"],
+        ["column", "added", "nick`name"],
+        ["column", "removed", "legacy"],
+        ["index", "added", "idx_name"],
+      ],
+    );
+    assert.equal(diff.changes[0].details, "position: after email → after id");
+    assert.deepEqual(diff.ddl, [
+      "ALTER TABLE `app`.`users` MODIFY COLUMN `name` varchar(100) DEFAULT NULL COMMENT 'display, name' AFTER `id`;",
+      "ALTER TABLE `app`.`users` ADD COLUMN `nick``name` varchar(50) DEFAULT NULL AFTER `created_at`;",
+      "ALTER TABLE `app`.`users` DROP COLUMN `legacy`;",
+      "ALTER TABLE `app`.`users` ADD KEY `idx_name` (`name`);",
+    ]);
+  });
+
+  it("moves each column once when the order changes", async () => {
+    const columns: [string, string][] = [
+      ["a", "int"],
+      ["b", "int"],
+      ["c", "int"],
+      ["d", "int"],
+    ];
+    const source = fakeDatabase({
+      t: {
+        create: [
+          "CREATE TABLE `t` (",
+          "  `a` int(11) NOT NULL,",
+          "  `b` int(11) NOT NULL,",
+          "  `c` int(11) NOT NULL,",
+          "  `d` int(11) NOT NULL",
+          ") ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_bin",
+        ].join("\n"),
+        columns,
+      },
+    });
+    const target = fakeDatabase({
+      t: { create: "", columns: [...columns.slice(1), columns[0]] },
+    });
+
+    const diff = await diffSchemas(source, target, "app", "app");
+    assert.deepEqual(diff.ddl, [
+      "ALTER TABLE `app`.`t` MODIFY COLUMN `a` int(11) NOT NULL FIRST;",
+    ]);
+  });
+
+  it("rewrites CREATE statements of new tables and views for the target", async () => {
+    const source = fakeDatabase(
+      {
+        orders: {
+          create: [
+            "CREATE TABLE `orders` (",
+            "  `id` int(11) NOT NULL AUTO_INCREMENT,",
+            "  `user_id` bigint(20) NOT NULL,",
+            "  PRIMARY KEY (`id`) /*T![clustered_index] CLUSTERED */",
+            ") ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_bin AUTO_INCREMENT=30001",
+          ].join("\n"),
+          columns: [
+            ["id", "int(11)"],
+            ["user_id", "bigint(20)"],
+          ],
+        },
+      },
+      {
+        v_orders: {
+          create:
+            "CREATE ALGORITHM=UNDEFINED DEFINER=`root`@`%` SQL SECURITY DEFINER VIEW `v_orders` (`id`) AS SELECT `dev`.`orders`.`id` AS `id` FROM `dev`.`orders`",
+          definition: "SELECT `dev`.`orders`.`id` AS `id` FROM `dev`.`orders`",
+        },
+      },
+    );
+    const target = fakeDatabase(
+      { legacy: { create: "", columns: [["id", "int"]] } },
+      {
+        v_old: {
+          create: "",
+          definition: "SELECT 1 AS `one`",
+        },
+      },
+    );
+
+    const diff = await diffSchemas(source, target, "dev", "app");
+    assert.deepEqual(diff.ddl, [
+      "DROP VIEW `app`.`v_old`;",
+      [
+        "CREATE TABLE `app`.`orders` (",
+        "  `id` int(11) NOT NULL AUTO_INCREMENT,",
+        "  `user_id` bigint(20) NOT NULL,",
+        "  PRIMARY KEY (`id`) /*T![clustered_index] CLUSTERED */",
+        ") ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_bin;",
+      ].join("\n"),
+      "DROP TABLE `app`.`legacy`;",
+      "CREATE OR REPLACE ALGORITHM=UNDEFINED SQL SECURITY DEFINER VIEW `app`.`v_orders` (`id`) AS SELECT `app`.`orders`.`id` AS `id` FROM `app`.`orders`;",
+    ]);
+  });
+
+  it("leaves out the AUTO_RANDOM_BASE counter of new tables", async () => {
+    const source = fakeDatabase({
+      events: {
+        create: [
+          "CREATE TABLE `events` (",
+          "  `id` bigint(20) NOT NULL /*T![auto_rand] AUTO_RANDOM(5) */,",
+          "  PRIMARY KEY (`id`) /*T![clustered_index] CLUSTERED */",
+          ") ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_bin /*T![auto_rand_base] AUTO_RANDOM_BASE=30001 */",
+        ].join("\n"),
+        columns: [["id", "bigint(20)"]],
+      },
+    });
+    const diff = await diffSchemas(source, fakeDatabase({}), "app", "app");
+    assert.equal(
+      diff.ddl[0],
+      [
+        "CREATE TABLE `app`.`events` (",
+        "  `id` bigint(20) NOT NULL /*T![auto_rand] AUTO_RANDOM(5) */,",
+        "  PRIMARY KEY (`id`) /*T![clustered_index] CLUSTERED */",
+        ") ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_bin;",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,452 @@
+/**
+ * Schema comparison for TiDB
+ *
+ * Compares the tables, columns, indexes and views of a database on two
+ * connections, such as a branch and its parent cluster, and produces the DDL
+ * that brings the target in line with the source. Column and index
+ * definitions in the DDL are copied from SHOW CREATE TABLE on the source, so
+ * types, defaults and options carry over exactly.
+ */
+
+import { TiDBDatabase, TiDBDatabaseError, quoteIdentifier } from "./client.js";
+import { describeSchema, showCreateStatement } from "./schema.js";
+import type {
+  ColumnSchema,
+  IndexSchema,
+  SchemaChange,
+  SchemaDiff,
+  TableSchema,
+} from "./types.js";
+
+/**
+ * Tables and view definitions of a database
+ */
+interface SchemaSnapshot {
+  tables: Map<string, TableSchema>;
+  views: Map<string, string>;
+}
+
+/**
+ * Column and index definitions of a CREATE TABLE statement, by name
+ */
+interface TableDefinitions {
+  columns: Map<string, string>;
+  indexes: Map<string, string>;
+}
+
+/**
+ * Reads the tables and views of a database
+ */
+async function readSnapshot(
+  db: TiDBDatabase,
+  database: string,
+): Promise<SchemaSnapshot> {
+  const [schema, views] = await Promise.all([
+    describeSchema(db, database),
+    db.query(
+      `SELECT TABLE_NAME AS tbl, VIEW_DEFINITION AS definition
+FROM INFORMATION_SCHEMA.VIEWS
+WHERE TABLE_SCHEMA = ?`,
+      [database],
+    ),
+  ]);
+
+  return {
+    tables: new Map(
+      schema.tables
+        .filter((table) => table.type !== "VIEW")
+        .map((table) => [table.name, table]),
+    ),
+    views: new Map(
+      views.rows.map((row) => [String(row.tbl), String(row.definition ?? "")]),
+    ),
+  };
+}
+
+/**
+ * Reads a backtick-quoted identifier at the start of `text`
+ */
+function readQuotedName(text: string): string | undefined {
+  const match = text.match(/^`((?:[^`]|``)*)`/);
+  return match?.[1].replace(/``/g, "`");
+}
+
+/**
+ * Splits the body of a CREATE TABLE statement, as printed by SHOW CREATE
+ * TABLE with one definition per line, into column and index definitions
+ */
+function readDefinitions(createTable: string): TableDefinitions {
+  const definitions: TableDefinitions = {
+    columns: new Map(),
+    indexes: new Map(),
+  };
+  for (const line of createTable.split("\n").slice(1)) {
+    if (line.startsWith(")")) break;
+    const definition = line.trim().replace(/,$/, "");
+
+    const column = readQuotedName(definition);
+    if (column !== undefined) {
+      definitions.columns.set(column, definition);
+      continue;
+    }
+    if (definition.startsWith("PRIMARY KEY")) {
+      definitions.indexes.set("PRIMARY", definition);
+      continue;
+    }
+    const index = definition.match(
+      /^(?:UNIQUE |FULLTEXT |SPATIAL )?(?:KEY|INDEX) (`.*)$/,
+    );
+    const name = index ? readQuotedName(index[1]) : undefined;
+    if (name !== undefined) {
+      definitions.indexes.set(name, definition);
+    }
+  }
+  return definitions;
+}
+
+/**
+ * Lists the attributes of a column that differ, as "attribute: old → new"
+ */
+function compareColumns(source: ColumnSchema, target: ColumnSchema): string[] {
+  const attributes: [string, unknown, unknown][] = [
+    ["type", target.type, source.type],
+    ["nullable", target.nullable, source.nullable],
+    ["default", target.default, source.default],
+    ["extra", target.extra, source.extra],
+    ["comment", target.comment, source.comment],
+  ];
+  return attributes
+    .filter(([, before, after]) => before !== after)
+    .map(
+      ([name, before, after]) =>
+        `${name}: ${before === null ? "NULL" : String(before) || "(none)"} → ${after === null ? "NULL" : String(after) || "(none)"}`,
+    );
+}
+
+/**
+ * Lists the attributes of an index that differ, as "attribute: old → new"
+ */
+function compareIndexes(source: IndexSchema, target: IndexSchema): string[] {
+  const attributes: [string, string, string][] = [
+    ["kind", target.kind, source.kind],
+    ["columns", target.columns.join(", "), source.columns.join(", ")],
+    ["clustered", String(target.clustered), String(source.clustered)],
+    ["visible", String(target.visible), String(source.visible)],
+  ];
+  return attributes
+    .filter(([, before, after]) => before !== after)
+    .map(([name, before, after]) => `${name}: ${before} → ${after}`);
+}
+
+/**
+ * Describes the foreign keys of a table for comparison
+ */
+function foreignKeySignature(table: TableSchema): string {
+  return table.foreignKeys
+    .map(
+      (key) =>
+        `${key.name}(${key.columns.join(",")})->${key.referencedTable}(${key.referencedColumns.join(",")}) ${key.onDelete} ${key.onUpdate}`,
+    )
+    .sort()
+    .join(";");
+}
+
+/**
+ * Compares the columns and indexes of a table present on both sides
+ * @returns The changes and the ALTER TABLE statements applying them
+ */
+async function diffTable(
+  source: TiDBDatabase,
+  sourceDatabase: string,
+  sourceTable: TableSchema,
+  targetTable: TableSchema,
+  qualifiedName: string,
+  warnings: string[],
+): Promise<{ changes: SchemaChange[]; ddl: string[] }> {
+  const table = sourceTable.name;
+  const changes: SchemaChange[] = [];
+  const dropIndexes: string[] = [];
+  const alterColumns: string[] = [];
+  const addIndexes: string[] = [];
+  const targetColumns = new Map(
+    targetTable.columns.map((column) => [column.name, column]),
+  );
+  const sourceColumns = new Map(
+    sourceTable.columns.map((column) => [column.name, column]),
+  );
+  const targetIndexes = new Map(
+    targetTable.indexes.map((index) => [index.name, index]),
+  );
+  const sourceIndexes = new Map(
+    sourceTable.indexes.map((index) => [index.name, index]),
+  );
+
+  // Definitions are only needed for changes, which are the exception
+  let definitions: TableDefinitions | undefined;
+  const definitionOf = async (
+    kind: "columns" | "indexes",
+    name: string,
+  ): Promise<string> => {
+    definitions ??= readDefinitions(
+      await showCreateStatement(source, sourceDatabase, table),
+    );
+    const definition = definitions[kind].get(name);
+    if (definition === undefined) {
+      throw new TiDBDatabaseError(
+        `Could not find the definition of ${name} in SHOW CREATE TABLE ${table}`,
+      );
+    }
+    return definition;
+  };
+
+  // Column order of the target as the statements so far leave it. Columns
+  // only on the target are dropped last, so they don't count for positions.
+  const order = targetTable.columns.map((column) => column.name);
+  const previousIn = (name: string): string | undefined =>
+    order
+      .slice(0, order.indexOf(name))
+      .reverse()
+      .find((other) => sourceColumns.has(other));
+  const place = (name: string, previous: string | undefined) => {
+    if (order.includes(name)) order.splice(order.indexOf(name), 1);
+    order.splice(
+      previous === undefined ? 0 : order.indexOf(previous) + 1,
+      0,
+      name,
+    );
+  };
+  const position = (previous: string | undefined) =>
+    previous === undefined ? "FIRST" : `AFTER ${quoteIdentifier(previous)}`;
+
+  for (const [i, column] of sourceTable.columns.entries()) {
+    const previous = sourceTable.columns[i - 1]?.name;
+    const existing = targetColumns.get(column.name);
+    if (!existing) {
+      changes.push({
+        object: "column",
+        change: "added",
+        table,
+        name: column.name,
+        details: column.type,
+      });
+      alterColumns.push(
+        `ALTER TABLE ${qualifiedName} ADD COLUMN ${await definitionOf("columns", column.name)} ${position(previous)};`,
+      );
+      place(column.name, previous);
+      continue;
+    }
+    const differences = compareColumns(column, existing);
+    const current = previousIn(column.name);
+    const moved = current !== previous;
+    if (moved) {
+      differences.push(
+        `position: ${current === undefined ? "first" : `after ${current}`} → ${previous === undefined ? "first" : `after ${previous}`}`,
+      );
+      place(column.name, previous);
+    }
+    if (differences.length > 0) {
+      changes.push({
+        object: "column",
+        change: "modified",
+        table,
+        name: column.name,
+        details: differences.join("; "),
+      });
+      alterColumns.push(
+        `ALTER TABLE ${qualifiedName} MODIFY COLUMN ${await definitionOf("columns", column.name)}${moved ? ` ${position(previous)}` : ""};`,
+      );
+    }
+  }
+  for (const column of targetTable.columns) {
+    if (!sourceColumns.has(column.name)) {
+      changes.push({
+        object: "column",
+        change: "removed",
+        table,
+        name: column.name,
+        details: column.type,
+      });
+      alterColumns.push(
+        `ALTER TABLE ${qualifiedName} DROP COLUMN ${quoteIdentifier(column.name)};`,
+      );
+    }
+  }
+
+  for (const index of sourceTable.indexes) {
+    const existing = targetIndexes.get(index.name);
+    const differences = existing ? compareIndexes(index, existing) : [];
+    if (existing && differences.length === 0) continue;
+
+    changes.push({
+      object: "index",
+      change: existing ? "modified" : "added",
+      table,
+      name: index.name,
+      details: existing
+        ? differences.join("; ")
+        : `(${index.columns.join(", ")})`,
+    });
+    if (index.kind === "primary" || existing?.kind === "primary") {
+      warnings.push(
+        `The primary key of ${table} differs. Changing a primary key requires recreating the table, so no DDL was generated for it.`,
+      );
+      continue;
+    }
+    if (existing) {
+      dropIndexes.push(
+        `ALTER TABLE ${qualifiedName} DROP INDEX ${quoteIdentifier(index.name)};`,
+      );
+    }
+    addIndexes.push(
+      `ALTER TABLE ${qualifiedName} ADD ${await definitionOf("indexes", index.name)};`,
+    );
+  }
+  for (const index of targetTable.indexes) {
+    if (sourceIndexes.has(index.name)) continue;
+    changes.push({
+      object: "index",
+      change: "removed",
+      table,
+      name: index.name,
+      details: `(${index.columns.join(", ")})`,
+    });
+    if (index.kind === "primary") {
+      warnings.push(
+        `Only the target has a primary key on ${table}. Dropping a primary key requires recreating the table, so no DDL was generated for it.`,
+      );
+      continue;
+    }
+    dropIndexes.push(
+      `ALTER TABLE ${qualifiedName} DROP INDEX ${quoteIdentifier(index.name)};`,
+    );
+  }
+
+  if (foreignKeySignature(sourceTable) !== foreignKeySignature(targetTable)) {
+    warnings.push(
+      `The foreign keys of ${table} differ. Foreign keys are not included in the DDL; compare them with describe_schema.`,
+    );
+  }
+
+  // Indexes go first so that dropped columns are no longer indexed
+  return { changes, ddl: [...dropIndexes, ...alterColumns, ...addIndexes] };
+}
+
+/**
+ * Rewrites a CREATE TABLE or CREATE VIEW statement from SHOW CREATE for the
+ * target: qualifies the name with the target database, leaves out the
+ * AUTO_INCREMENT and AUTO_RANDOM_BASE counters and the view definer, and
+ * turns CREATE VIEW into CREATE OR REPLACE VIEW
+ */
+function rewriteCreateStatement(
+  statement: string,
+  qualifiedName: string,
+): string {
+  return statement
+    .replace(/^CREATE TABLE `(?:[^`]|``)*`/, `CREATE TABLE ${qualifiedName}`)
+    .replace(/ AUTO_INCREMENT=\d+/, "")
+    .replace(/ \/\*T!\[auto_rand_base\] AUTO_RANDOM_BASE=\d+ \*\//, "")
+    .replace(/^CREATE (.*?)DEFINER=`[^`]*`@`[^`]*` /, "CREATE $1")
+    .replace(
+      /^CREATE (.*?)VIEW `(?:[^`]|``)*`/,
+      `CREATE OR REPLACE $1VIEW ${qualifiedName}`,
+    );
+}
+
+/**
+ * Compares the tables, columns, indexes and views of a database on two
+ * connections
+ * @param source - Connection with the desired schema, e.g. a branch
+ * @param target - Connection with the schema to update
+ * @param sourceDatabase - Database to compare on the source
+ * @param targetDatabase - Database to compare on the target
+ * @returns The changes, seen from the target, and the DDL that applies them
+ *   to the target
+ */
+export async function diffSchemas(
+  source: TiDBDatabase,
+  target: TiDBDatabase,
+  sourceDatabase: string,
+  targetDatabase: string,
+): Promise<SchemaDiff> {
+  const [sourceSchema, targetSchema] = await Promise.all([
+    readSnapshot(source, sourceDatabase),
+    readSnapshot(target, targetDatabase),
+  ]);
+  const qualify = (name: string) =>
+    `${quoteIdentifier(targetDatabase)}.${quoteIdentifier(name)}`;
+
+  const changes: SchemaChange[] = [];
+  const warnings: string[] = [];
+  const dropViews: string[] = [];
+  const createTables: string[] = [];
+  const alterTables: string[] = [];
+  const dropTables: string[] = [];
+  const createViews: string[] = [];
+
+  for (const [name, table] of sourceSchema.tables) {
+    const existing = targetSchema.tables.get(name);
+    if (!existing) {
+      changes.push({ object: "table", change: "added", table: name });
+      createTables.push(
+        `${rewriteCreateStatement(await showCreateStatement(source, sourceDatabase, name), qualify(name))};`,
+      );
+      continue;
+    }
+    const diff = await diffTable(
+      source,
+      sourceDatabase,
+      table,
+      existing,
+      qualify(name),
+      warnings,
+    );
+    changes.push(...diff.changes);
+    alterTables.push(...diff.ddl);
+  }
+  for (const name of targetSchema.tables.keys()) {
+    if (!sourceSchema.tables.has(name)) {
+      changes.push({ object: "table", change: "removed", table: name });
+      dropTables.push(`DROP TABLE ${qualify(name)};`);
+    }
+  }
+
+  // View definitions name their tables with the database
+  const sourcePrefix = `${quoteIdentifier(sourceDatabase)}.`;
+  const targetPrefix = `${quoteIdentifier(targetDatabase)}.`;
+  for (const [name, definition] of sourceSchema.views) {
+    const existing = targetSchema.views.get(name);
+    const expected = definition.split(sourcePrefix).join(targetPrefix);
+    if (existing === expected) continue;
+
+    changes.push({
+      object: "view",
+      change: existing === undefined ? "added" : "modified",
+      table: name,
+    });
+    const statement = rewriteCreateStatement(
+      await showCreateStatement(source, sourceDatabase, name),
+      qualify(name),
+    );
+    createViews.push(`${statement.split(sourcePrefix).join(targetPrefix)};`);
+  }
+  for (const name of targetSchema.views.keys()) {
+    if (!sourceSchema.views.has(name)) {
+      changes.push({ object: "view", change: "removed", table: name });
+      dropViews.push(`DROP VIEW ${qualify(name)};`);
+    }
+  }
+
+  return {
+    changes,
+    // Views go last since they depend on tables, and a table may replace
+    // a view of the same name
+    ddl: [
+      ...dropViews,
+      ...createTables,
+      ...alterTables,
+      ...dropTables,
+      ...createViews,
+    ],
+    warnings,
+  };
+}
@@ -0,0 +1,523 @@
+/**
+ * Versioned schema migrations for TiDB
+ *
+ * Migrations are registered in the `_mcp_schema_migrations` table of the
+ * database they apply to, with their up and down SQL and a checksum, and
+ * stay pending until applied. Since the history lives in the database, a
+ * branch created from a cluster inherits it, so migrations registered on
+ * the cluster can be rehearsed on the branch first.
+ *
+ * Migrations made only of DML run in one transaction together with their
+ * history update. DDL statements commit on their own in TiDB, so migrations
+ * with DDL run statement by statement and stop at the first failure.
+ */
+
+import { createHash } from "crypto";
+import { TiDBDatabase, TiDBDatabaseError, quoteIdentifier } from "./client.js";
+import { describeSchema } from "./schema.js";
+import { bindParameters, classifySql, splitStatements } from "./sql.js";
+import type { Migration, MigrationRecord, MigrationRun } from "./types.js";
+
+/**
+ * Name of the migration history table
+ */
+export const MIGRATIONS_TABLE = "_mcp_schema_migrations";
+
+/**
+ * Statement categories that can't run inside a transaction
+ */
+const NON_TRANSACTIONAL = new Set(["ddl", "dcl", "transaction"]);
+
+/**
+ * Qualified name of the history table in a database
+ */
+function historyTable(database: string): string {
+  return `${quoteIdentifier(database)}.${quoteIdentifier(MIGRATIONS_TABLE)}`;
+}
+
+/**
+ * SHA-256 of a string, as hex
+ */
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Checksum of a migration's SQL
+ */
+function checksumOf(migration: Pick<Migration, "up" | "down">): string {
+  return sha256(`${migration.up}\n-- down --\n${migration.down ?? ""}`);
+}
+
+/**
+ * Orders versions with numeric parts compared as numbers, so "2" comes
+ * before "10"
+ */
+export function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, "en", { numeric: true });
+}
+
+/**
+ * Fingerprint of the tables, columns, indexes and foreign keys of a
+ * database, leaving out the history table and statistics
+ */
+async function fingerprintSchema(
+  db: TiDBDatabase,
+  database: string,
+): Promise<string> {
+  const schema = await describeSchema(db, database);
+  const tables = schema.tables
+    .filter((table) => table.name !== MIGRATIONS_TABLE)
+    .map((table) => ({
+      name: table.name,
+      type: table.type,
+      columns: table.columns,
+      indexes: table.indexes,
+      foreignKeys: table.foreignKeys,
+    }));
+  return sha256(JSON.stringify(tables));
+}
+
+/**
+ * Whether the database has a migration history table
+ */
+async function hasHistory(
+  db: TiDBDatabase,
+  database: string,
+): Promise<boolean> {
+  const result = await db.query(
+    `SELECT 1 FROM INFORMATION_SCHEMA.TABLES
+WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?`,
+    [database, MIGRATIONS_TABLE],
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Reads the migration history, ordered by version
+ */
+async function readHistory(
+  db: TiDBDatabase,
+  database: string,
+): Promise<(MigrationRecord & { schemaChecksum?: string })[]> {
+  const result = await db.query(
+    `SELECT version, name, up_sql, down_sql, checksum, schema_checksum,
+  CAST(registered_at AS CHAR) AS registered_at,
+  CAST(applied_at AS CHAR) AS applied_at
+FROM ${historyTable(database)}`,
+  );
+
+  return result.rows
+    .map((row) => {
+      const up = String(row.up_sql);
+      const down = row.down_sql === null ? undefined : String(row.down_sql);
+      const checksum = String(row.checksum);
+      return {
+        version: String(row.version),
+        name: String(row.name),
+        up,
+        down,
+        checksum,
+        checksumValid: checksumOf({ up, down }) === checksum,
+        registeredAt: String(row.registered_at),
+        appliedAt: row.applied_at === null ? undefined : String(row.applied_at),
+        schemaChecksum:
+          row.schema_checksum === null
+            ? undefined
+            : String(row.schema_checksum),
+      };
+    })
+    .sort((a, b) => compareVersions(a.version, b.version));
+}
+
+/**
+ * Reads the migration history, failing if there is none
+ */
+async function requireHistory(
+  db: TiDBDatabase,
+  database: string,
+): Promise<Awaited<ReturnType<typeof readHistory>>> {
+  if (!(await hasHistory(db, database))) {
+    throw new TiDBDatabaseError(
+      `No migrations registered in database \`${database}\`. Register them with register_migrations first.`,
+    );
+  }
+  return readHistory(db, database);
+}
+
+/**
+ * Stores a schema fingerprint on the latest applied migration, for drift
+ * detection
+ * @param fingerprint - The fingerprint to store (defaults to the current one)
+ */
+async function recordSchemaChecksum(
+  db: TiDBDatabase,
+  database: string,
+  latestApplied: string | undefined,
+  fingerprint?: string,
+): Promise<void> {
+  if (latestApplied === undefined) {
+    return;
+  }
+  await db.execute(
+    `UPDATE ${historyTable(database)} SET schema_checksum = ? WHERE version = ?`,
+    [fingerprint ?? (await fingerprintSchema(db, database)), latestApplied],
+  );
+}
+
+/**
+ * Whether SQL can run in one transaction
+ */
+function isTransactional(sql: string): boolean {
+  return !classifySql(sql).some((statement) =>
+    NON_TRANSACTIONAL.has(statement.category),
+  );
+}
+
+/**
+ * Runs the SQL of a migration followed by the statement updating its
+ * history row, in one transaction when the SQL allows it
+ * @returns The failure, if any
+ */
+async function runMigrationSql(
+  db: TiDBDatabase,
+  database: string,
+  version: string,
+  sql: string,
+  historyUpdate: string,
+): Promise<MigrationRun["failure"]> {
+  const statements = splitStatements(sql);
+  const atomic = isTransactional(sql);
+
+  const result = await db.executeMultiple(
+    atomic ? [...statements, historyUpdate] : statements,
+    database,
+    atomic,
+  );
+  if (result.failure || result.commitError) {
+    const index = result.failure?.index ?? statements.length;
+    return {
+      version,
+      statement: index,
+      message:
+        index >= statements.length
+          ? `Recording the migration failed: ${result.failure?.message ?? result.commitError}`
+          : (result.failure?.message ?? ""),
+      partial: !result.rolledBack && index > 0,
+    };
+  }
+
+  if (!atomic) {
+    try {
+      await db.execute(historyUpdate, undefined, database);
+    } catch (error) {
+      // The DDL is committed, so running the migration again would repeat it
+      return {
+        version,
+        statement: statements.length,
+        message: `The SQL ran, but recording it in the history failed: ${error instanceof Error ? error.message : String(error)}`,
+        partial: true,
+        unrecorded: true,
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Runs the SQL of migrations in order, stopping at the first failure
+ * @param sqlOf - The SQL to run for a migration
+ * @param historyUpdateOf - The statement recording that it ran
+ * @returns The outcome, and when a migration failed partway after others
+ *   completed, the schema fingerprint from before it
+ */
+async function runMigrations(
+  db: TiDBDatabase,
+  database: string,
+  records: MigrationRecord[],
+  sqlOf: (record: MigrationRecord) => string,
+  historyUpdateOf: (version: string) => string,
+): Promise<MigrationRun & { checkpoint?: string }> {
+  const completed: string[] = [];
+  for (const record of records) {
+    const sql = sqlOf(record);
+    // Only needed if this migration leaves DDL behind when it fails
+    const checkpoint =
+      completed.length > 0 && !isTransactional(sql)
+        ? await fingerprintSchema(db, database)
+        : undefined;
+    const failure = await runMigrationSql(
+      db,
+      database,
+      record.version,
+      sql,
+      historyUpdateOf(record.version),
+    );
+    if (failure) {
+      return {
+        completed,
+        failure,
+        checkpoint: failure.partial ? checkpoint : undefined,
+      };
+    }
+    completed.push(record.version);
+  }
+  return { completed };
+}
+
+/**
+ * Records the schema fingerprint after a run. After a partial failure the
+ * fingerprint from before the failed migration is kept, so what it left
+ * behind shows up as drift.
+ */
+async function recordRunChecksum(
+  db: TiDBDatabase,
+  database: string,
+  latestApplied: string | undefined,
+  run: MigrationRun & { checkpoint?: string },
+): Promise<void> {
+  if (!run.failure?.partial) {
+    await recordSchemaChecksum(db, database, latestApplied);
+  } else if (run.checkpoint !== undefined) {
+    await recordSchemaChecksum(db, database, latestApplied, run.checkpoint);
+  }
+}
+
+/**
+ * Registers migrations, creating the history table if needed. Migrations
+ * already registered with the same SQL are left alone; pending ones with
+ * different SQL are updated. Changing an applied migration is refused.
+ * @param db - Database connection
+ * @param database - The database the migrations apply to
+ * @param migrations - The migrations to register
+ */
+export async function registerMigrations(
+  db: TiDBDatabase,
+  database: string,
+  migrations: Migration[],
+): Promise<{ registered: string[]; updated: string[]; unchanged: string[] }> {
+  const versions = migrations.map((migration) => migration.version);
+  const duplicate = versions.find(
+    (version, i) => versions.indexOf(version) !== i,
+  );
+  if (duplicate !== undefined) {
+    throw new TiDBDatabaseError(
+      `Version ${duplicate} is given more than once.`,
+    );
+  }
+
+  await db.execute(
+    `CREATE TABLE IF NOT EXISTS ${historyTable(database)} (
+  version VARCHAR(128) NOT NULL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  up_sql LONGTEXT NOT NULL,
+  down_sql LONGTEXT NULL,
+  checksum CHAR(64) NOT NULL,
+  schema_checksum CHAR(64) NULL,
+  registered_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  applied_at TIMESTAMP(3) NULL
+)`,
+  );
+  const existing = new Map(
+    (await readHistory(db, database)).map((record) => [record.version, record]),
+  );
+
+  const changedApplied = migrations.filter((migration) => {
+    const record = existing.get(migration.version);
+    return record?.appliedAt && record.checksum !== checksumOf(migration);
+  });
+  if (changedApplied.length > 0) {
+    throw new TiDBDatabaseError(
+      `Migration(s) ${changedApplied.map((migration) => migration.version).join(", ")} differ from the applied version. Applied migrations can't be changed; add a new migration instead.`,
+    );
+  }
+
+  const registered: string[] = [];
+  const updated: string[] = [];
+  const unchanged: string[] = [];
+  const statements: string[] = [];
+  for (const migration of migrations) {
+    const checksum = checksumOf(migration);
+    const record = existing.get(migration.version);
+    const values = [
+      migration.name,
+      migration.up,
+      migration.down ?? null,
+      checksum,
+      migration.version,
+    ];
+    if (!record) {
+      registered.push(migration.version);
+      statements.push(
+        bindParameters(
+          `INSERT INTO ${historyTable(database)} (name, up_sql, down_sql, checksum, version) VALUES (?, ?, ?, ?, ?)`,
+          values,
+        ),
+      );
+    } else if (record.checksum !== checksum || record.name !== migration.name) {
+      updated.push(migration.version);
+      statements.push(
+        bindParameters(
+          `UPDATE ${historyTable(database)} SET name = ?, up_sql = ?, down_sql = ?, checksum = ? WHERE version = ?`,
+          values,
+        ),
+      );
+    } else {
+      unchanged.push(migration.version);
+    }
+  }
+
+  if (statements.length > 0) {
+    const result = await db.executeMultiple(statements, database, true);
+    if (result.failure || result.commitError) {
+      throw new TiDBDatabaseError(
+        `Registering the migrations failed, nothing was registered: ${result.failure?.message ?? result.commitError}`,
+      );
+    }
+  }
+  return { registered, updated, unchanged };
+}
+
+/**
+ * Reads the registered migrations and checks for drift: applied migrations
+ * whose stored SQL no longer matches its checksum, and schema changes made
+ * outside of migrations since the last one was applied or rolled back
+ * @param db - Database connection
+ * @param database - The database the migrations apply to
+ * @returns The migrations by version, and whether the schema drifted
+ *   (undefined when no migration is applied)
+ */
+export async function getMigrationStatus(
+  db: TiDBDatabase,
+  database: string,
+): Promise<{ migrations: MigrationRecord[]; schemaDrift?: boolean }> {
+  if (!(await hasHistory(db, database))) {
+    return { migrations: [] };
+  }
+
+  const history = await readHistory(db, database);
+  const latest = history.filter((record) => record.appliedAt).pop();
+  const schemaDrift = latest?.schemaChecksum
+    ? (await fingerprintSchema(db, database)) !== latest.schemaChecksum
+    : undefined;
+
+  return {
+    migrations: history.map(({ schemaChecksum: _, ...record }) => record),
+    schemaDrift,
+  };
+}
+
+/**
+ * Applies pending migrations in version order, stopping at the first
+ * failure
+ * @param db - Database connection
+ * @param database - The database the migrations apply to
+ * @param to - Apply migrations up to and including this version
+ */
+export async function applyMigrations(
+  db: TiDBDatabase,
+  database: string,
+  to?: string,
+): Promise<MigrationRun> {
+  const history = await requireHistory(db, database);
+  const applied = history.filter((record) => record.appliedAt);
+  const pending = history.filter(
+    (record) =>
+      !record.appliedAt &&
+      (to === undefined || compareVersions(record.version, to) <= 0),
+  );
+
+  const latest = applied[applied.length - 1];
+  const outOfOrder = pending.filter(
+    (record) => latest && compareVersions(record.version, latest.version) < 0,
+  );
+  if (outOfOrder.length > 0) {
+    throw new TiDBDatabaseError(
+      `Pending migration(s) ${outOfOrder.map((record) => record.version).join(", ")} are older than the applied ${latest.version}. Give them a later version.`,
+    );
+  }
+  const tampered = pending.filter((record) => !record.checksumValid);
+  if (tampered.length > 0) {
+    throw new TiDBDatabaseError(
+      `The stored SQL of migration(s) ${tampered.map((record) => record.version).join(", ")} no longer matches its checksum. Register them again.`,
+    );
+  }
+
+  const { checkpoint, ...run } = await runMigrations(
+    db,
+    database,
+    pending,
+    (record) => record.up,
+    (version) =>
+      bindParameters(
+        `UPDATE ${historyTable(database)} SET applied_at = NOW(3) WHERE version = ?`,
+        [version],
+      ),
+  );
+
+  if (run.completed.length > 0) {
+    await recordRunChecksum(
+      db,
+      database,
+      run.completed[run.completed.length - 1],
+      { ...run, checkpoint },
+    );
+  }
+  return run;
+}
+
+/**
+ * Rolls back the most recently applied migrations with their down SQL,
+ * newest first, stopping at the first failure
+ * @param db - Database connection
+ * @param database - The database the migrations apply to
+ * @param steps - Number of migrations to roll back
+ */
+export async function rollbackMigrations(
+  db: TiDBDatabase,
+  database: string,
+  steps: number,
+): Promise<MigrationRun> {
+  const history = await requireHistory(db, database);
+  const applied = history.filter((record) => record.appliedAt);
+  const targets = applied.slice(Math.max(applied.length - steps, 0)).reverse();
+  if (targets.length === 0) {
+    throw new TiDBDatabaseError("No applied migrations to roll back.");
+  }
+
+  const missingDown = targets.filter((record) => !record.down?.trim());
+  if (missingDown.length > 0) {
+    throw new TiDBDatabaseError(
+      `Migration(s) ${missingDown.map((record) => record.version).join(", ")} have no down SQL, so nothing was rolled back.`,
+    );
+  }
+  const tampered = targets.filter((record) => !record.checksumValid);
+  if (tampered.length > 0) {
+    throw new TiDBDatabaseError(
+      `The stored SQL of migration(s) ${tampered.map((record) => record.version).join(", ")} no longer matches its checksum, so nothing was rolled back.`,
+    );
+  }
+
+  const { checkpoint, ...run } = await runMigrations(
+    db,
+    database,
+    targets,
+    (record) => record.down ?? "",
+    (version) =>
+      bindParameters(
+        `UPDATE ${historyTable(database)} SET applied_at = NULL, schema_checksum = NULL WHERE version = ?`,
+        [version],
+      ),
+  );
+
+  if (run.completed.length > 0) {
+    const remaining = applied.slice(0, applied.length - run.completed.length);
+    await recordRunChecksum(
+      db,
+      database,
+      remaining[remaining.length - 1]?.version,
+      { ...run, checkpoint },
+    );
+  }
+  return run;
+}
@@ -0,0 +1,257 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { findPlanIssues, parsePlan, parsePlanText, walkPlan } from "./plan.js";
+import type { PlanNode } from "./types.js";
+
+/**
+ * Lists the operators of a plan, indented by depth
+ */
+function outline(root: PlanNode): string[] {
+  const lines: string[] = [];
+  walkPlan(root, (node, depth) => {
+    lines.push(
+      `${"  ".repeat(depth)}${node.id}${node.role ? ` (${node.role})` : ""}`,
+    );
+  });
+  return lines;
+}
+
+// EXPLAIN SELECT * FROM t1 JOIN t2 ON t1.id = t2.id, without statistics
+const EXPLAIN_JOIN = [
+  [
+    "HashJoin_8",
+    "12487.50",
+    "root",
+    "",
+    "inner join, equal:[eq(test.t1.id, test.t2.id)]",
+  ],
+  ["├─TableReader_15(Build)", "9990.00", "root", "", "data:Selection_14"],
+  ["│ └─Selection_14", "9990.00", "cop[tikv]", "", "not(isnull(test.t2.id))"],
+  [
+    "│   └─TableFullScan_13",
+    "10000.00",
+    "cop[tikv]",
+    "table:t2",
+    "keep order:false, stats:pseudo",
+  ],
+  ["└─TableReader_12(Probe)", "9990.00", "root", "", "data:Selection_11"],
+  ["  └─Selection_11", "9990.00", "cop[tikv]", "", "not(isnull(test.t1.id))"],
+  [
+    "    └─TableFullScan_10",
+    "10000.00",
+    "cop[tikv]",
+    "table:t1",
+    "keep order:false, stats:pseudo",
+  ],
+].map(([id, estRows, task, accessObject, operatorInfo]) => ({
+  id,
+  estRows,
+  task,
+  "access object": accessObject,
+  "operator info": operatorInfo,
+}));
+
+// EXPLAIN ANALYZE SELECT * FROM orders WHERE user_id = 42
+const EXPLAIN_ANALYZE_LOOKUP = [
+  {
+    id: "IndexLookUp_10",
+    estRows: "12.00",
+    actRows: "8",
+    task: "root",
+    "access object": "",
+    "execution info":
+      "time:1.52s, loops:2, index_task: {total_time: 1.2s, fetch_handle: 1.2s, build: 1.1µs, wait: 2.3µs}, table_task: {total_time: 2.5ms, num: 1, concurrency: 5}, next: {wait_index: 1.2s, wait_table_lookup_build: 120µs, wait_table_lookup_resp: 2.1ms}",
+    "operator info": "",
+    memory: "34.2 KB",
+    disk: "N/A",
+  },
+  {
+    id: "├─IndexRangeScan_8(Build)",
+    estRows: "12.00",
+    actRows: "120000",
+    task: "cop[tikv]",
+    "access object": "table:orders, index:idx_user(user_id)",
+    "execution info":
+      "time:1.2s, loops:120, cop_task: {num: 6, max: 1.1s, min: 8.2ms, avg: 190.5ms, p95: 1.1s, max_proc_keys: 118000, p95_proc_keys: 118000, tot_proc: 1.05s, tot_wait: 2ms, rpc_num: 6, rpc_time: 1.14s, copr_cache_hit_ratio: 0.00, build_task_duration: 22.1µs, max_distsql_concurrency: 6}, tikv_task:{proc max:1.04s, min:6ms, avg: 180ms, p80:1.04s, p95:1.04s, iters:130, tasks:6}",
+    "operator info": "range:[42,42], keep order:false",
+    memory: "N/A",
+    disk: "N/A",
+  },
+  {
+    id: "└─TableRowIDScan_9(Probe)",
+    estRows: "12.00",
+    actRows: "8",
+    task: "cop[tikv]",
+    "access object": "table:orders",
+    "execution info":
+      "time:2.1ms, loops:2, cop_task: {num: 1, max: 1.9ms, proc_keys: 8, tot_proc: 1ms, rpc_num: 1, rpc_time: 1.8ms, copr_cache_hit_ratio: 0.00, build_task_duration: 5.3µs, max_distsql_concurrency: 1}",
+    "operator info": "keep order:false",
+    memory: "N/A",
+    disk: "N/A",
+  },
+];
+
+// PLAN column of INFORMATION_SCHEMA.STATEMENTS_SUMMARY
+const SUMMARY_PLAN = [
+  "\tid                  \ttask     \testRows\toperator info                         \tactRows\texecution info                          \tmemory \tdisk",
+  "\tStreamAgg_20        \troot     \t1      \tfuncs:count(Column#8)->Column#6       \t1      \ttime:80.2ms, loops:2                    \t8.5 KB \tN/A",
+  "\t└─TableReader_21    \troot     \t1      \tdata:StreamAgg_8                      \t1      \ttime:80.1ms, loops:2, cop_task: {num: 2, max: 79.8ms, min: 40.1ms, avg: 60ms, p95: 79.8ms}\t1.2 KB \tN/A",
+  "\t  └─StreamAgg_8     \tcop[tikv]\t1      \tfuncs:count(1)->Column#8               \t2      \ttikv_task:{proc max:78ms, min:39ms}      \tN/A    \tN/A",
+  "\t    └─TableFullScan_18\tcop[tikv]\t10     \ttable:orders, keep order:false       \t50000  \ttikv_task:{proc max:78ms, min:39ms}      \tN/A    \tN/A",
+  "",
+].join("\n");
+
+describe("parsePlan", () => {
+  it("nests operators by the tree prefix of their ID", () => {
+    const root = parsePlan(EXPLAIN_JOIN);
+    assert.ok(root);
+    assert.deepEqual(outline(root), [
+      "HashJoin_8",
+      "  TableReader_15 (Build)",
+      "    Selection_14",
+      "      TableFullScan_13",
+      "  TableReader_12 (Probe)",
+      "    Selection_11",
+      "      TableFullScan_10",
+    ]);
+    const scan = root.children[0].children[0].children[0];
+    assert.equal(scan.operator, "TableFullScan");
+    assert.equal(scan.estRows, 10000);
+    assert.equal(scan.actRows, undefined);
+    assert.equal(scan.accessObject, "table:t2");
+  });
+
+  it("reads actual rows, time and memory of EXPLAIN ANALYZE", () => {
+    const root = parsePlan(EXPLAIN_ANALYZE_LOOKUP);
+    assert.ok(root);
+    assert.equal(root.actRows, 8);
+    assert.equal(root.timeMs, 1520);
+    assert.equal(root.memory, "34.2 KB");
+    assert.equal(root.disk, undefined);
+    assert.equal(root.children[0].timeMs, 1200);
+    assert.equal(root.children[1].timeMs, 2.1);
+  });
+
+  it("returns undefined without rows", () => {
+    assert.equal(parsePlan([]), undefined);
+  });
+});
+
+describe("parsePlanText", () => {
+  it("splits a statement summary plan into rows", () => {
+    const rows = parsePlanText(SUMMARY_PLAN);
+    assert.equal(rows.length, 4);
+    assert.equal(rows[3].id, "    └─TableFullScan_18");
+    assert.equal(rows[3]["operator info"], "table:orders, keep order:false");
+    assert.equal(rows[3].actRows, "50000");
+
+    const root = parsePlan(rows);
+    assert.ok(root);
+    assert.deepEqual(outline(root), [
+      "StreamAgg_20",
+      "  TableReader_21",
+      "    StreamAgg_8",
+      "      TableFullScan_18",
+    ]);
+  });
+});
+
+describe("findPlanIssues", () => {
+  it("reports full scans and missing statistics once per table", () => {
+    const root = parsePlan(EXPLAIN_JOIN);
+    assert.ok(root);
+    assert.deepEqual(
+      findPlanIssues(root).map((issue) => [
+        issue.kind,
+        issue.severity,
+        issue.operator,
+      ]),
+      [
+        ["full_table_scan", "warning", "TableFullScan_13"],
+        ["pseudo_stats", "warning", "TableFullScan_13"],
+        ["full_table_scan", "warning", "TableFullScan_10"],
+        ["pseudo_stats", "warning", "TableFullScan_10"],
+      ],
+    );
+  });
+
+  it("reports estimate skew and coprocessor hotspots", () => {
+    const root = parsePlan(EXPLAIN_ANALYZE_LOOKUP);
+    assert.ok(root);
+    const issues = findPlanIssues(root);
+    assert.deepEqual(
+      issues.map((issue) => [issue.kind, issue.operator]),
+      [
+        ["estimate_skew", "IndexRangeScan_8"],
+        ["cop_task_hotspot", "IndexRangeScan_8"],
+      ],
+    );
+    assert.match(issues[0].message, /Estimated 12 rows but got 120000/);
+    assert.match(
+      issues[1].message,
+      /took 1\.1s against an average of 190\.5ms/,
+    );
+  });
+
+  it("reads issues from statement summary plans", () => {
+    const root = parsePlan(parsePlanText(SUMMARY_PLAN));
+    assert.ok(root);
+    assert.deepEqual(
+      findPlanIssues(root).map((issue) => [
+        issue.kind,
+        issue.severity,
+        issue.operator,
+      ]),
+      [
+        ["full_table_scan", "warning", "TableFullScan_18"],
+        ["estimate_skew", "warning", "TableFullScan_18"],
+      ],
+    );
+  });
+
+  it("reports estimate skew only where it starts", () => {
+    const root = parsePlan([
+      {
+        id: "Selection_6",
+        estRows: "10.00",
+        actRows: "50000",
+        task: "cop[tikv]",
+        "operator info": "gt(test.t.a, 1)",
+      },
+      {
+        id: "└─TableRangeScan_5",
+        estRows: "10.00",
+        actRows: "50000",
+        task: "cop[tikv]",
+        "access object": "table:t",
+        "operator info": "range:[1,+inf], keep order:false",
+      },
+    ]);
+    assert.ok(root);
+    assert.deepEqual(
+      findPlanIssues(root).map((issue) => [issue.kind, issue.operator]),
+      [["estimate_skew", "TableRangeScan_5"]],
+    );
+  });
+
+  it("treats small scans as info and ignores TiFlash scans", () => {
+    const scan = (task: string, estRows: string) =>
+      parsePlan([
+        {
+          id: "TableFullScan_5",
+          estRows,
+          task,
+          "access object": "table:t",
+          "operator info": "keep order:false",
+        },
+      ]);
+    const small = scan("cop[tikv]", "100.00");
+    const columnar = scan("mpp[tiflash]", "1000000.00");
+    assert.ok(small && columnar);
+    assert.deepEqual(
+      findPlanIssues(small).map((issue) => issue.severity),
+      ["info"],
+    );
+    assert.deepEqual(findPlanIssues(columnar), []);
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Execution plan parsing and interpretation
+ *
+ * Turns the rows of TiDB's EXPLAIN / EXPLAIN ANALYZE output into an operator
+ * tree and looks for common performance problems in it.
+ */
+
+import type { PlanIssue, PlanNode } from "./types.js";
+
+/**
+ * Full table scans reading at least this many rows are warnings
+ */
+const FULL_SCAN_WARNING_ROWS = 10_000;
+
+/**
+ * Estimated and actual rows differing by this factor count as skewed...
+ */
+const ESTIMATE_SKEW_RATIO = 10;
+
+/**
+ * ...as long as either of them reaches this many rows
+ */
+const ESTIMATE_SKEW_MIN_ROWS = 1_000;
+
+/**
+ * A coprocessor task taking this many times the average is a hotspot...
+ */
+const HOTSPOT_RATIO = 4;
+
+/**
+ * ...as long as it takes at least this long
+ */
+const HOTSPOT_MIN_MS = 100;
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: 3_600_000,
+  m: 60_000,
+  s: 1_000,
+  ms: 1,
+  µs: 0.001,
+  us: 0.001,
+  ns: 0.000001,
+};
+
+/**
+ * Parses a Go duration such as "1.2s", "350.5ms" or "1m2.5s"
+ * @returns The duration in milliseconds, or undefined if it isn't one
+ */
+function parseDuration(text: string): number | undefined {
+  const parts = text.trim().match(/(\d+(?:\.\d+)?)(h|ms|m|s|µs|us|ns)/g);
+  if (!parts || parts.join("") !== text.trim()) {
+    return undefined;
+  }
+  return parts.reduce((total, part) => {
+    const [, value, unit] = part.match(/^(\d+(?:\.\d+)?)(\D+)$/) ?? [];
+    return total + Number(value) * DURATION_UNITS_MS[unit];
+  }, 0);
+}
+
+/**
+ * Reads a numeric plan column, which TiDB prints as text like "10000.00"
+ */
+function readNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === "") {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+/**
+ * Reads a text plan column; absent and "N/A" values become undefined
+ */
+function readText(value: unknown): string | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  const text = String(value);
+  return text === "N/A" ? undefined : text;
+}
+
+/**
+ * Parses the rows returned by EXPLAIN or EXPLAIN ANALYZE into an operator
+ * tree. The nesting is encoded in the ID column, which is indented by two
+ * characters per level using tree-drawing characters.
+ * @param rows - Rows of the EXPLAIN result, keyed by column name
+ * @returns The root operator, or undefined if there are no rows
+ */
+export function parsePlan(
+  rows: Record<string, unknown>[],
+): PlanNode | undefined {
+  let root: PlanNode | undefined;
+  const stack: { depth: number; node: PlanNode }[] = [];
+
+  for (const row of rows) {
+    const rawId = String(row.id ?? "");
+    const prefix = rawId.match(/^[\s│├└─]*/)?.[0] ?? "";
+    const depth = Math.floor(prefix.length / 2);
+    const label = rawId.slice(prefix.length).trim();
+
+    // "TableReader_9(Build)": operator, numeric suffix, optional role
+    const [, id, role] = label.match(/^([^()]+)(?:\((\w+)\))?$/) ?? ["", label];
+    const executionInfo = readText(row["execution info"]);
+    const time = executionInfo?.match(/(?:^|[\s,{])time:\s*([0-9.]+[a-zµ]+)/);
+
+    const node: PlanNode = {
+      id,
+      operator: id.replace(/_\d+$/, ""),
+      ...(role ? { role } : {}),
+      estRows: readNumber(row.estRows) ?? 0,
+      estCost: readNumber(row.estCost),
+      actRows: readNumber(row.actRows),
+      task: String(row.task ?? ""),
+      accessObject: String(row["access object"] ?? ""),
+      operatorInfo: String(row["operator info"] ?? ""),
+      executionInfo,
+      timeMs: time ? parseDuration(time[1]) : undefined,
+      memory: readText(row.memory),
+      disk: readText(row.disk),
+      children: [],
+    };
+
+    while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.node.children.push(node);
+    } else if (!root) {
+      root = node;
+    }
+    stack.push({ depth, node });
+  }
+
+  return root;
+}
+
+/**
+ * Splits a plan printed as text, as stored in the statement summary, into
+ * rows for parsePlan. Each line holds tab-separated columns and the first
+ * line names them.
+ * @param text - The plan text
+ */
+export function parsePlanText(text: string): Record<string, unknown>[] {
+  const lines = text.split("\n").filter((line) => line.trim() !== "");
+  const split = (line: string): string[] => {
+    const cells = line.split("\t");
+    return cells[0] === "" ? cells.slice(1) : cells;
+  };
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const header = split(lines[0]).map((name) => name.trim());
+  return lines.slice(1).map((line) => {
+    const row: Record<string, unknown> = {};
+    split(line).forEach((cell, i) => {
+      // Keep the indentation of the ID, which encodes the nesting
+      row[header[i] ?? `column${i}`] =
+        header[i] === "id" ? cell.trimEnd() : cell.trim();
+    });
+    return row;
+  });
+}
+
+/**
+ * Visits every operator of a plan, parents before children
+ */
+export function walkPlan(
+  node: PlanNode,
+  visit: (node: PlanNode, depth: number) => void,
+  depth = 0,
+): void {
+  visit(node, depth);
+  for (const child of node.children) {
+    walkPlan(child, visit, depth + 1);
+  }
+}
+
+/**
+ * Name of the table an operator reads, taken from the access object of the
+ * operator or, for readers, of the scan below it. Plans stored in the
+ * statement summary have no access object column and print the table in the
+ * operator info instead.
+ */
+function tableOf(node: PlanNode): string {
+  let table: string | undefined;
+  walkPlan(node, (child) => {
+    table ??= (child.accessObject || child.operatorInfo).match(
+      /(?:^|[\s,])table:([^,\s]+)/,
+    )?.[1];
+  });
+  return table ?? "a table";
+}
+
+/**
+ * Whether the estimated and actual rows of an operator differ widely
+ */
+function hasEstimateSkew(node: PlanNode): boolean {
+  if (node.actRows === undefined) {
+    return false;
+  }
+  const high = Math.max(node.estRows, node.actRows);
+  const low = Math.max(Math.min(node.estRows, node.actRows), 1);
+  return high >= ESTIMATE_SKEW_MIN_ROWS && high / low >= ESTIMATE_SKEW_RATIO;
+}
+
+/**
+ * Looks for full scans, coprocessor hotspots, estimate skew and missing
+ * statistics in a plan
+ * @param root - The root operator returned by parsePlan
+ */
+export function findPlanIssues(root: PlanNode): PlanIssue[] {
+  const issues: PlanIssue[] = [];
+  const pseudoStatsTables = new Set<string>();
+
+  walkPlan(root, (node) => {
+    const rows = node.actRows ?? node.estRows;
+    const onTiKV = node.task.includes("tikv");
+
+    // Scanning a TiFlash replica in full is what columnar storage is for
+    if (node.operator === "TableFullScan" && onTiKV) {
+      issues.push({
+        kind: "full_table_scan",
+        severity: rows >= FULL_SCAN_WARNING_ROWS ? "warning" : "info",
+        operator: node.id,
+        message: `Full table scan of ${tableOf(node)} reading ~${Math.round(rows)} rows. An index on the filtered or joined columns could avoid it.`,
+      });
+    } else if (node.operator === "IndexFullScan" && onTiKV) {
+      issues.push({
+        kind: "full_index_scan",
+        severity: "info",
+        operator: node.id,
+        message: `Full index scan on ${tableOf(node)} reading ~${Math.round(rows)} rows.`,
+      });
+    }
+
+    // Every operator on the table carries the marker; report it once
+    if (
+      node.operatorInfo.includes("stats:pseudo") &&
+      !pseudoStatsTables.has(tableOf(node))
+    ) {
+      pseudoStatsTables.add(tableOf(node));
+      issues.push({
+        kind: "pseudo_stats",
+        severity: "warning",
+        operator: node.id,
+        message: `No statistics for ${tableOf(node)}, so row estimates are guesses. Run ANALYZE TABLE.`,
+      });
+    }
+
+    // A misestimate carries over to the operators above it, so only report
+    // where it starts
+    if (hasEstimateSkew(node) && !node.children.some(hasEstimateSkew)) {
+      issues.push({
+        kind: "estimate_skew",
+        severity: "warning",
+        operator: node.id,
+        message: `Estimated ${Math.round(node.estRows)} rows but got ${node.actRows}. Statistics may be stale; run ANALYZE TABLE on ${tableOf(node)} if the plan looks wrong.`,
+      });
+    }
+
+    const copTask = node.executionInfo?.match(
+      /cop_task:\s*\{num:\s*(\d+),\s*max:\s*([^,}]+),(?:\s*min:\s*[^,}]+,)?\s*avg:\s*([^,}]+)/,
+    );
+    if (copTask) {
+      const tasks = Number(copTask[1]);
+      const max = parseDuration(copTask[2]);
+      const avg = parseDuration(copTask[3]);
+      if (
+        tasks > 1 &&
+        max !== undefined &&
+        avg !== undefined &&
+        avg > 0 &&
+        max >= HOTSPOT_MIN_MS &&
+        max / avg >= HOTSPOT_RATIO
+      ) {
+        issues.push({
+          kind: "cop_task_hotspot",
+          severity: "warning",
+          operator: node.id,
+          message: `The slowest of ${tasks} coprocessor tasks took ${copTask[2].trim()} against an average of ${copTask[3].trim()}. Data or load may be concentrated on one region; check for hotspots on ${tableOf(node)}.`,
+        });
+      }
+    }
+  });
+
+  return issues;
+}
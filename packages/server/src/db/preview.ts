@@ -0,0 +1,128 @@
+/**
+ * Impact previews for write statements
+ *
+ * Runs read-only queries that show what an UPDATE, DELETE or DDL statement
+ * would touch, so the user can confirm it before it is executed.
+ */
+
+import { TiDBDatabase } from "./client.js";
+import { showCreateStatement } from "./schema.js";
+import { planImpactPreview } from "./sql.js";
+import type {
+  ClassifiedStatement,
+  ImpactPreview,
+  TableImpact,
+  TableName,
+} from "./types.js";
+
+/**
+ * Number of matching rows sampled for UPDATE and DELETE
+ */
+export const PREVIEW_SAMPLE_ROWS = 5;
+
+/**
+ * Looks up the definition and size of a table. The name is resolved against
+ * the connection's default database when it has no database qualifier.
+ */
+async function describeTable(
+  db: TiDBDatabase,
+  name: TableName,
+  database?: string,
+): Promise<TableImpact> {
+  const result = await db.query(
+    `SELECT TABLE_SCHEMA AS db, TABLE_ROWS AS row_count,
+  DATA_LENGTH AS data_bytes, INDEX_LENGTH AS index_bytes
+FROM INFORMATION_SCHEMA.TABLES
+WHERE TABLE_SCHEMA = COALESCE(?, DATABASE()) AND TABLE_NAME = ?`,
+    [name.database ?? null, name.table],
+    database,
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return { ...name, exists: false };
+  }
+
+  const schema = String(row.db);
+  return {
+    database: schema,
+    table: name.table,
+    exists: true,
+    createStatement: await showCreateStatement(db, schema, name.table),
+    estimatedRows: Number(row.row_count ?? 0),
+    dataBytes: Number(row.data_bytes ?? 0),
+    indexBytes: Number(row.index_bytes ?? 0),
+  };
+}
+
+/**
+ * Previews what a statement would change without executing it
+ * @param db - Database to run the preview queries on
+ * @param statement - The classified statement to preview
+ * @param database - Optional database to use (overrides default)
+ */
+export async function previewImpact(
+  db: TiDBDatabase,
+  statement: ClassifiedStatement,
+  database?: string,
+): Promise<ImpactPreview> {
+  if (statement.readOnly) {
+    return {
+      kind: "none",
+      reason: "Read-only statement, nothing would change.",
+    };
+  }
+
+  const plan = planImpactPreview(statement.sql, PREVIEW_SAMPLE_ROWS);
+  if (!plan) {
+    return {
+      kind: "none",
+      reason: `No preview is available for ${statement.keyword || "this"} statements.`,
+    };
+  }
+
+  switch (plan.kind) {
+    case "rows": {
+      const count = await db.query(plan.countSql, undefined, database);
+      const sample = await db.query(plan.sampleSql, undefined, database);
+      return {
+        kind: "rows",
+        matchedRows: Number(count.rows[0]?.row_count ?? 0),
+        sample,
+      };
+    }
+
+    case "tables": {
+      const tables: TableImpact[] = [];
+      for (const name of plan.tables) {
+        tables.push(await describeTable(db, name, database));
+      }
+      return { kind: "tables", tables };
+    }
+
+    case "database": {
+      const schemata = await db.query(
+        "SELECT COUNT(*) AS n FROM INFORMATION_SCHEMA.SCHEMATA WHERE SCHEMA_NAME = ?",
+        [plan.database],
+        database,
+      );
+      const size = await db.query(
+        `SELECT COUNT(*) AS table_count, SUM(TABLE_ROWS) AS row_count,
+  SUM(DATA_LENGTH + INDEX_LENGTH) AS total_bytes
+FROM INFORMATION_SCHEMA.TABLES
+WHERE TABLE_SCHEMA = ?`,
+        [plan.database],
+        database,
+      );
+      const row = size.rows[0] ?? {};
+      return {
+        kind: "database",
+        database: plan.database,
+        exists: Number(schemata.rows[0]?.n ?? 0) > 0,
+        tableCount: Number(row.table_count ?? 0),
+        estimatedRows: Number(row.row_count ?? 0),
+        totalBytes: Number(row.total_bytes ?? 0),
+      };
+    }
+  }
+}
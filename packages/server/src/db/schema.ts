@@ -0,0 +1,252 @@
+/**
+ * Schema introspection for TiDB
+ *
+ * Reads tables, columns, indexes, foreign keys and TiFlash replicas from
+ * INFORMATION_SCHEMA in one query per kind of object, so describing a whole
+ * database costs the same number of round trips as describing one table.
+ */
+
+import { TiDBDatabase, quoteIdentifier } from "./client.js";
+import type {
+  ForeignKeySchema,
+  IndexSchema,
+  TableSchema,
+  TiFlashReplica,
+} from "./types.js";
+
+/**
+ * Result of describing the tables of a database
+ */
+export interface SchemaDescription {
+  database: string;
+  tables: TableSchema[];
+  /** Number of tables in the database, including those left out by the limit */
+  totalTables: number;
+}
+
+/**
+ * Groups rows by their `tbl` column
+ */
+function groupByTable(
+  rows: Record<string, unknown>[],
+): Map<string, Record<string, unknown>[]> {
+  const groups = new Map<string, Record<string, unknown>[]>();
+  for (const row of rows) {
+    const table = String(row.tbl);
+    const group = groups.get(table) ?? [];
+    group.push(row);
+    groups.set(table, group);
+  }
+  return groups;
+}
+
+/**
+ * Builds indexes from TIDB_INDEXES rows, which list one row per index part
+ */
+function toIndexes(rows: Record<string, unknown>[]): IndexSchema[] {
+  const indexes = new Map<string, IndexSchema>();
+  for (const row of rows) {
+    const name = String(row.name);
+    let index = indexes.get(name);
+    if (!index) {
+      index = {
+        name,
+        kind:
+          name === "PRIMARY"
+            ? "primary"
+            : Number(row.non_unique) === 0
+              ? "unique"
+              : "secondary",
+        columns: [],
+        clustered: row.clustered === "YES",
+        visible: row.visible !== "NO",
+      };
+      indexes.set(name, index);
+    }
+    index.columns.push(
+      row.column_name !== null ? String(row.column_name) : `(${row.expr})`,
+    );
+  }
+  return [...indexes.values()];
+}
+
+/**
+ * Builds foreign keys from KEY_COLUMN_USAGE rows, one row per column
+ */
+function toForeignKeys(rows: Record<string, unknown>[]): ForeignKeySchema[] {
+  const keys = new Map<string, ForeignKeySchema>();
+  for (const row of rows) {
+    const name = String(row.name);
+    let key = keys.get(name);
+    if (!key) {
+      key = {
+        name,
+        columns: [],
+        referencedDatabase: String(row.ref_db),
+        referencedTable: String(row.ref_table),
+        referencedColumns: [],
+        onUpdate: String(row.on_update),
+        onDelete: String(row.on_delete),
+      };
+      keys.set(name, key);
+    }
+    key.columns.push(String(row.column_name));
+    key.referencedColumns.push(String(row.ref_column));
+  }
+  return [...keys.values()];
+}
+
+/**
+ * Reads TiFlash replica settings. Clusters without TiFlash support may not
+ * have the TIFLASH_REPLICA table, which just means there are no replicas.
+ */
+async function readTiFlashReplicas(
+  db: TiDBDatabase,
+  filter: string,
+  params: string[],
+): Promise<Map<string, TiFlashReplica>> {
+  const replicas = new Map<string, TiFlashReplica>();
+  try {
+    const result = await db.query(
+      `SELECT TABLE_NAME AS tbl, REPLICA_COUNT AS replica_count,
+  AVAILABLE AS available, PROGRESS AS progress
+FROM INFORMATION_SCHEMA.TIFLASH_REPLICA
+WHERE ${filter}`,
+      params,
+    );
+    for (const row of result.rows) {
+      replicas.set(String(row.tbl), {
+        count: Number(row.replica_count),
+        available: Number(row.available) === 1,
+        progress: Number(row.progress),
+      });
+    }
+  } catch {
+    // No TiFlash support
+  }
+  return replicas;
+}
+
+/**
+ * Describes the tables of a database: columns, indexes, foreign keys,
+ * TiFlash replicas and size estimates
+ * @param db - Database to read INFORMATION_SCHEMA from
+ * @param database - The database to describe
+ * @param options - `table` to describe a single table, `limit` to cap the
+ *   number of tables described
+ */
+export async function describeSchema(
+  db: TiDBDatabase,
+  database: string,
+  options: { table?: string; limit?: number } = {},
+): Promise<SchemaDescription> {
+  const tableFilter = options.table ? " AND TABLE_NAME = ?" : "";
+  const tableParams = options.table ? [database, options.table] : [database];
+
+  const tablesResult = await db.query(
+    `SELECT TABLE_NAME AS tbl, TABLE_TYPE AS type, TABLE_COMMENT AS comment,
+  TABLE_ROWS AS row_count, DATA_LENGTH AS data_bytes, INDEX_LENGTH AS index_bytes
+FROM INFORMATION_SCHEMA.TABLES
+WHERE TABLE_SCHEMA = ?${tableFilter}
+ORDER BY TABLE_NAME`,
+    tableParams,
+  );
+  const totalTables = tablesResult.rows.length;
+  const tableRows = tablesResult.rows.slice(0, options.limit ?? totalTables);
+  if (tableRows.length === 0) {
+    return { database, tables: [], totalTables };
+  }
+
+  // Only look up the tables that made it past the limit
+  const names = tableRows.map((row) => String(row.tbl));
+  const placeholders = names.map(() => "?").join(", ");
+  const filter = `TABLE_SCHEMA = ? AND TABLE_NAME IN (${placeholders})`;
+  const params = [database, ...names];
+
+  const [columns, indexes, foreignKeys, replicas] = await Promise.all([
+    db.query(
+      `SELECT TABLE_NAME AS tbl, COLUMN_NAME AS name, COLUMN_TYPE AS type,
+  IS_NULLABLE AS nullable, COLUMN_DEFAULT AS default_value, EXTRA AS extra,
+  COLUMN_COMMENT AS comment
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE ${filter}
+ORDER BY TABLE_NAME, ORDINAL_POSITION`,
+      params,
+    ),
+    db.query(
+      `SELECT TABLE_NAME AS tbl, KEY_NAME AS name, NON_UNIQUE AS non_unique,
+  COLUMN_NAME AS column_name, EXPRESSION AS expr, IS_VISIBLE AS visible,
+  CLUSTERED AS clustered
+FROM INFORMATION_SCHEMA.TIDB_INDEXES
+WHERE ${filter}
+ORDER BY TABLE_NAME, INDEX_ID, SEQ_IN_INDEX`,
+      params,
+    ),
+    db.query(
+      `SELECT k.TABLE_NAME AS tbl, k.CONSTRAINT_NAME AS name,
+  k.COLUMN_NAME AS column_name, k.REFERENCED_TABLE_SCHEMA AS ref_db,
+  k.REFERENCED_TABLE_NAME AS ref_table, k.REFERENCED_COLUMN_NAME AS ref_column,
+  r.UPDATE_RULE AS on_update, r.DELETE_RULE AS on_delete
+FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE k
+JOIN INFORMATION_SCHEMA.REFERENTIAL_CONSTRAINTS r
+  ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA
+  AND r.TABLE_NAME = k.TABLE_NAME
+  AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+WHERE k.TABLE_SCHEMA = ? AND k.TABLE_NAME IN (${placeholders})
+  AND k.REFERENCED_TABLE_NAME IS NOT NULL
+ORDER BY k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION`,
+      params,
+    ),
+    readTiFlashReplicas(db, filter, params),
+  ]);
+
+  const columnsByTable = groupByTable(columns.rows);
+  const indexesByTable = groupByTable(indexes.rows);
+  const foreignKeysByTable = groupByTable(foreignKeys.rows);
+
+  const tables = tableRows.map((row): TableSchema => {
+    const name = String(row.tbl);
+    return {
+      database,
+      name,
+      type: String(row.type),
+      comment: String(row.comment ?? ""),
+      estimatedRows: Number(row.row_count ?? 0),
+      dataBytes: Number(row.data_bytes ?? 0),
+      indexBytes: Number(row.index_bytes ?? 0),
+      columns: (columnsByTable.get(name) ?? []).map((column) => ({
+        name: String(column.name),
+        type: String(column.type),
+        nullable: column.nullable === "YES",
+        default:
+          column.default_value === null ? null : String(column.default_value),
+        extra: String(column.extra ?? ""),
+        comment: String(column.comment ?? ""),
+      })),
+      indexes: toIndexes(indexesByTable.get(name) ?? []),
+      foreignKeys: toForeignKeys(foreignKeysByTable.get(name) ?? []),
+      tiflashReplica: replicas.get(name),
+    };
+  });
+
+  return { database, tables, totalTables };
+}
+
+/**
+ * Returns the CREATE statement of a table or view
+ * @param db - Database connection
+ * @param database - Database of the table or view
+ * @param name - Name of the table or view
+ */
+export async function showCreateStatement(
+  db: TiDBDatabase,
+  database: string,
+  name: string,
+): Promise<string> {
+  const result = await db.query(
+    `SHOW CREATE TABLE ${quoteIdentifier(database)}.${quoteIdentifier(name)}`,
+  );
+  const row = result.rows[0] ?? {};
+  // Views return "Create View" instead of "Create Table"
+  return String(row["Create Table"] ?? row["Create View"] ?? "");
+}
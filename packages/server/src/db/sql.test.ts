@@ -0,0 +1,368 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isReadOnlyQuery } from "./client.js";
+import {
+  applyRowLimit,
+  bindParameters,
+  classifySql,
+  planImpactPreview,
+} from "./sql.js";
+
+describe("isReadOnlyQuery", () => {
+  it("accepts plain reads", () => {
+    for (const sql of [
+      "SELECT * FROM users",
+      "SHOW TABLES",
+      "DESCRIBE users",
+      "DESC app.`users` email",
+      "EXPLAIN SELECT * FROM users",
+      "EXPLAIN ANALYZE SELECT * FROM users",
+      "EXPLAIN FOR CONNECTION 42",
+      "WITH t AS (SELECT 1) SELECT * FROM t",
+      "SELECT * FROM users;",
+    ]) {
+      assert.equal(isReadOnlyQuery(sql), true, sql);
+    }
+  });
+
+  it("ignores blocked words inside strings, identifiers and comments", () => {
+    for (const sql of [
+      "SELECT 'DELETE FROM users; DROP TABLE users'",
+      'SELECT "; UPDATE users SET a = 1"',
+      "SELECT `delete` FROM users",
+      "SELECT 1 -- ; DELETE FROM users",
+      "SELECT 1 /* ; DROP TABLE users */",
+    ]) {
+      assert.equal(isReadOnlyQuery(sql), true, sql);
+    }
+  });
+
+  it("rejects writes hidden behind comments", () => {
+    for (const sql of [
+      "/* SELECT */ DELETE FROM users",
+      "-- SELECT\nDELETE FROM users",
+      "/*!DELETE FROM users*/",
+    ]) {
+      assert.equal(isReadOnlyQuery(sql), false, sql);
+    }
+  });
+
+  it("rejects multiple statements", () => {
+    assert.equal(isReadOnlyQuery("SELECT 1; DELETE FROM users"), false);
+    assert.equal(isReadOnlyQuery("SELECT 1; SELECT 2"), false);
+  });
+
+  it("rejects WITH clauses that end in a write", () => {
+    for (const sql of [
+      "WITH t AS (SELECT id FROM users) DELETE FROM users WHERE id IN (SELECT id FROM t)",
+      "WITH t AS (SELECT 1) UPDATE users SET a = 1",
+    ]) {
+      assert.equal(isReadOnlyQuery(sql), false, sql);
+    }
+  });
+
+  it("rejects reads with side effects", () => {
+    for (const sql of [
+      "SELECT * FROM users FOR UPDATE",
+      "SELECT * FROM users LOCK IN SHARE MODE",
+      "SELECT * FROM users INTO OUTFILE '/tmp/users'",
+      "SELECT SLEEP(10)",
+      "SELECT NEXTVAL(seq)",
+      "SELECT SETVAL(seq, 100)",
+      "SELECT NEXT VALUE FOR seq",
+      "WITH t AS (SELECT * FROM users FOR UPDATE) SELECT * FROM t",
+    ]) {
+      assert.equal(isReadOnlyQuery(sql), false, sql);
+    }
+  });
+
+  it("rejects EXPLAIN ANALYZE of statements that are not read-only", () => {
+    for (const sql of [
+      "EXPLAIN ANALYZE DELETE FROM users",
+      "EXPLAIN ANALYZE FORMAT = 'brief' UPDATE users SET a = 1",
+      "EXPLAIN ANALYZE LOAD DATA LOCAL INFILE 'x' INTO TABLE users",
+      "EXPLAIN ANALYZE IMPORT INTO users FROM 's3://bucket/file.csv'",
+      "EXPLAIN ANALYZE SELECT * FROM users FOR UPDATE",
+      "EXPLAIN ANALYZE",
+    ]) {
+      assert.equal(isReadOnlyQuery(sql), false, sql);
+    }
+  });
+
+  it("rejects EXPLAIN and DESCRIBE of anything but a query or table", () => {
+    for (const sql of [
+      "EXPLAIN LOAD DATA LOCAL INFILE 'x' INTO TABLE users",
+      "DESCRIBE users; DELETE FROM users",
+      "DESCRIBE users WHERE 1",
+    ]) {
+      assert.equal(isReadOnlyQuery(sql), false, sql);
+    }
+  });
+});
+
+describe("classifySql", () => {
+  it("splits statements and categorizes each", () => {
+    const statements = classifySql(
+      "CREATE TABLE t (a INT); INSERT INTO t VALUES (';'); GRANT SELECT ON t TO u; BEGIN",
+    );
+    assert.deepEqual(
+      statements.map((statement) => statement.category),
+      ["ddl", "dml", "dcl", "transaction"],
+    );
+  });
+});
+
+describe("bindParameters", () => {
+  it("binds ? placeholders outside strings, identifiers and comments", () => {
+    assert.equal(
+      bindParameters(
+        "SELECT ?, '?', `?`, \"?\" -- ?\n/* ? */ FROM t WHERE a = ?",
+        [1, 2],
+      ),
+      "SELECT 1, '?', `?`, \"?\" -- ?\n/* ? */ FROM t WHERE a = 2",
+    );
+  });
+
+  it("binds :name placeholders but not := or quoted names", () => {
+    assert.equal(
+      bindParameters("SELECT :a, ':a', `:a` -- :a\nFROM t WHERE b = :b", {
+        a: 1,
+        b: "x",
+      }),
+      "SELECT 1, ':a', `:a` -- :a\nFROM t WHERE b = 'x'",
+    );
+    assert.equal(
+      bindParameters("SET @x := 1, @y = :v", { v: 2 }),
+      "SET @x := 1, @y = 2",
+    );
+  });
+
+  it("rejects too many or too few values", () => {
+    assert.throws(() => bindParameters("SELECT ?, ?", [1]), /more \?/);
+    assert.throws(() => bindParameters("SELECT ?", [1, 2]), /2 parameter/);
+    assert.throws(() => bindParameters("SELECT :a", {}), /:a/);
+  });
+
+  it("escapes strings", () => {
+    assert.equal(
+      bindParameters("SELECT ?", ['it\'s a \\ "q" \0 end\n']),
+      "SELECT 'it\\'s a \\\\ \\\"q\\\" \\0 end\\n'",
+    );
+  });
+
+  it("formats other values as literals", () => {
+    assert.equal(
+      bindParameters("SELECT ?, ?, ?, ?, ?, ?", [
+        null,
+        true,
+        12n,
+        1.5,
+        new Uint8Array([0, 15, 255]),
+        new Date("2024-01-15T10:30:00Z"),
+      ]),
+      "SELECT NULL, TRUE, 12, 1.5, X'000fff', '2024-01-15 10:30:00.000'",
+    );
+  });
+
+  it("rejects values without a literal", () => {
+    assert.throws(() => bindParameters("SELECT ?", [NaN]), /non-finite/);
+    assert.throws(() => bindParameters("SELECT ?", [Infinity]), /non-finite/);
+    assert.throws(
+      () => bindParameters("SELECT ?", [new Date("invalid")]),
+      /invalid date/,
+    );
+  });
+});
+
+describe("applyRowLimit", () => {
+  it("adds a LIMIT to reads without one", () => {
+    const cases: [string, string][] = [
+      ["SELECT * FROM users", "SELECT * FROM users LIMIT 20, 11"],
+      [
+        "SELECT a FROM t UNION SELECT a FROM u",
+        "SELECT a FROM t UNION SELECT a FROM u LIMIT 20, 11",
+      ],
+      [
+        "WITH t AS (SELECT 1 AS a LIMIT 1) SELECT * FROM t",
+        "WITH t AS (SELECT 1 AS a LIMIT 1) SELECT * FROM t LIMIT 20, 11",
+      ],
+      [
+        "SELECT * FROM users WHERE id IN (SELECT id FROM t LIMIT 3)",
+        "SELECT * FROM users WHERE id IN (SELECT id FROM t LIMIT 3) LIMIT 20, 11",
+      ],
+      [
+        "(SELECT a FROM t LIMIT 1) UNION (SELECT a FROM u LIMIT 1)",
+        "(SELECT a FROM t LIMIT 1) UNION (SELECT a FROM u LIMIT 1) LIMIT 20, 11",
+      ],
+    ];
+    for (const [sql, limited] of cases) {
+      assert.equal(applyRowLimit(sql, 20, 11), limited, sql);
+    }
+  });
+
+  it("inserts the LIMIT before a trailing comment or semicolon", () => {
+    assert.equal(
+      applyRowLimit("SELECT * FROM users -- newest first", 0, 11),
+      "SELECT * FROM users LIMIT 0, 11 -- newest first",
+    );
+    assert.equal(
+      applyRowLimit("SELECT * FROM users /* all */ ;", 0, 11),
+      "SELECT * FROM users LIMIT 0, 11 /* all */ ;",
+    );
+  });
+
+  it("leaves statements it can't limit safely alone", () => {
+    for (const sql of [
+      "SELECT * FROM users LIMIT 5",
+      "SELECT * FROM users LIMIT 5, 10",
+      "SELECT * FROM users FOR UPDATE",
+      "SELECT * FROM users LOCK IN SHARE MODE",
+      "SELECT * FROM users INTO OUTFILE '/tmp/users'",
+      "SHOW TABLES",
+      "DELETE FROM users",
+      "SELECT 1; SELECT 2",
+    ]) {
+      assert.equal(applyRowLimit(sql, 0, 11), undefined, sql);
+    }
+  });
+});
+
+describe("planImpactPreview", () => {
+  it("counts and samples the rows an UPDATE or DELETE matches", () => {
+    assert.deepEqual(
+      planImpactPreview("UPDATE users SET a = 1 WHERE id > 10", 5),
+      {
+        kind: "rows",
+        countSql: "SELECT COUNT(*) AS row_count FROM users WHERE id > 10",
+        sampleSql: "SELECT * FROM users WHERE id > 10 LIMIT 5",
+      },
+    );
+    assert.deepEqual(planImpactPreview("DELETE FROM users", 5), {
+      kind: "rows",
+      countSql: "SELECT COUNT(*) AS row_count FROM users",
+      sampleSql: "SELECT * FROM users LIMIT 5",
+    });
+  });
+
+  it("keeps WHERE inside strings and subqueries out of the table references", () => {
+    assert.deepEqual(
+      planImpactPreview(
+        "UPDATE users SET note = 'WHERE x' WHERE id IN (SELECT id FROM t WHERE y LIMIT 3)",
+        5,
+      ),
+      {
+        kind: "rows",
+        countSql:
+          "SELECT COUNT(*) AS row_count FROM users WHERE id IN (SELECT id FROM t WHERE y LIMIT 3)",
+        sampleSql:
+          "SELECT * FROM users WHERE id IN (SELECT id FROM t WHERE y LIMIT 3) LIMIT 5",
+      },
+    );
+  });
+
+  it("wraps statements with their own LIMIT in a derived table", () => {
+    assert.deepEqual(
+      planImpactPreview(
+        "UPDATE LOW_PRIORITY IGNORE `app`.`users` SET a = 1 WHERE id > 10 ORDER BY id LIMIT 20",
+        5,
+      ),
+      {
+        kind: "rows",
+        countSql:
+          "SELECT COUNT(*) AS row_count FROM (SELECT 1 FROM `app`.`users` WHERE id > 10 ORDER BY id LIMIT 20) AS impact_preview",
+        sampleSql:
+          "SELECT * FROM (SELECT * FROM `app`.`users` WHERE id > 10 ORDER BY id LIMIT 20) AS impact_preview LIMIT 5",
+      },
+    );
+    assert.deepEqual(
+      planImpactPreview("DELETE FROM users WHERE a < 1 LIMIT 100;", 5),
+      {
+        kind: "rows",
+        countSql:
+          "SELECT COUNT(*) AS row_count FROM (SELECT 1 FROM users WHERE a < 1 LIMIT 100) AS impact_preview",
+        sampleSql:
+          "SELECT * FROM (SELECT * FROM users WHERE a < 1 LIMIT 100) AS impact_preview LIMIT 5",
+      },
+    );
+  });
+
+  it("uses the joined table references of multi-table statements", () => {
+    const joined = "FROM users u JOIN orders o ON o.user_id = u.id";
+    for (const sql of [
+      "UPDATE users u JOIN orders o ON o.user_id = u.id SET u.total = o.total WHERE o.id IS NULL",
+      "DELETE u FROM users u JOIN orders o ON o.user_id = u.id WHERE o.id IS NULL",
+      "DELETE FROM u USING users u JOIN orders o ON o.user_id = u.id WHERE o.id IS NULL",
+    ]) {
+      assert.deepEqual(
+        planImpactPreview(sql, 5),
+        {
+          kind: "rows",
+          countSql: `SELECT COUNT(*) AS row_count ${joined} WHERE o.id IS NULL`,
+          sampleSql: `SELECT * ${joined} WHERE o.id IS NULL LIMIT 5`,
+        },
+        sql,
+      );
+    }
+    assert.deepEqual(
+      planImpactPreview("UPDATE a, b SET a.x = b.x WHERE a.id = b.id", 5),
+      {
+        kind: "rows",
+        countSql: "SELECT COUNT(*) AS row_count FROM a, b WHERE a.id = b.id",
+        sampleSql: "SELECT * FROM a, b WHERE a.id = b.id LIMIT 5",
+      },
+    );
+  });
+
+  it("does not wrap multi-table statements with a LIMIT", () => {
+    // Columns of both tables would clash by name in the derived table
+    for (const sql of [
+      "UPDATE users u JOIN orders o ON o.user_id = u.id SET u.total = 1 LIMIT 5",
+      "UPDATE a, b SET a.x = b.x LIMIT 5",
+      "DELETE u FROM users u JOIN orders o ON o.user_id = u.id LIMIT 5",
+    ]) {
+      assert.equal(planImpactPreview(sql, 5), undefined, sql);
+    }
+  });
+
+  it("finds the tables a DDL statement changes", () => {
+    const cases: [string, unknown][] = [
+      ["TRUNCATE TABLE app.users", [{ database: "app", table: "users" }]],
+      [
+        "DROP TABLE IF EXISTS a, `b`.`c`",
+        [{ table: "a" }, { database: "b", table: "c" }],
+      ],
+      [
+        "RENAME TABLE a TO b, app.c TO app.d",
+        [{ table: "a" }, { database: "app", table: "c" }],
+      ],
+      [
+        "CREATE INDEX idx ON app.users (email)",
+        [{ database: "app", table: "users" }],
+      ],
+      ["DROP INDEX idx ON users", [{ table: "users" }]],
+      ["ALTER TABLE users ADD COLUMN x INT", [{ table: "users" }]],
+    ];
+    for (const [sql, tables] of cases) {
+      assert.deepEqual(
+        planImpactPreview(sql, 5),
+        { kind: "tables", tables },
+        sql,
+      );
+    }
+    assert.deepEqual(planImpactPreview("DROP DATABASE IF EXISTS app", 5), {
+      kind: "database",
+      database: "app",
+    });
+  });
+
+  it("has no plan for other statements", () => {
+    for (const sql of [
+      "UPDATE users",
+      "CREATE USER u",
+      "INSERT INTO t VALUES (1)",
+      "SELECT 1; DELETE FROM t",
+    ]) {
+      assert.equal(planImpactPreview(sql, 5), undefined, sql);
+    }
+  });
+});
@@ -0,0 +1,1097 @@
+/**
+ * SQL statement splitting and classification
+ *
+ * A lightweight tokenizer that understands comments, quoted strings and
+ * identifiers well enough to split a script into statements and tell reads
+ * from writes. It is not a full parser: it only looks at the keywords that
+ * decide what a statement does.
+ */
+
+import type {
+  ClassifiedStatement,
+  ImpactPreviewPlan,
+  SqlParameters,
+  SqlValue,
+  StatementCategory,
+  TableName,
+} from "./types.js";
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type TokenType =
+  "word" | "identifier" | "string" | "number" | "variable" | "punct";
+
+interface Token {
+  type: TokenType;
+  /** Raw token text; upper-cased for words */
+  value: string;
+  start: number;
+  end: number;
+}
+
+const WORD_START = /[A-Za-z_$\u0080-\uffff]/;
+const WORD_PART = /[A-Za-z0-9_$\u0080-\uffff]/;
+const NUMBER_PART = /[0-9A-Za-z.]/;
+
+/**
+ * Returns the index just past the closing quote of a quoted string or
+ * identifier starting at `start`. Handles doubled quotes and, for strings,
+ * backslash escapes. An unterminated quote runs to the end of the input.
+ */
+function skipQuoted(sql: string, start: number): number {
+  const quote = sql[start];
+  let i = start + 1;
+  while (i < sql.length) {
+    const c = sql[i];
+    if (c === "\\" && quote !== "`") {
+      i += 2;
+    } else if (c === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2;
+      } else {
+        return i + 1;
+      }
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+}
+
+/**
+ * Splits SQL text into tokens, dropping whitespace and comments.
+ *
+ * MySQL executable comments (`/*! ... *\/`) and TiDB feature comments
+ * (`/*T![feature] ... *\/`) are run by the server, so their contents are
+ * tokenized as code. Optimizer hints (`/*+ ... *\/`) are treated as comments.
+ */
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let executableDepth = 0;
+  let i = 0;
+
+  while (i < sql.length) {
+    const c = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+
+    // Line comments: "# ..." and "-- ..." (the dashes must be followed by
+    // whitespace, otherwise "--1" is a double negation)
+    if (
+      c === "#" ||
+      (c === "-" &&
+        next === "-" &&
+        (i + 2 === sql.length || /\s/.test(sql[i + 2])))
+    ) {
+      const end = sql.indexOf("\n", i);
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+
+    if (c === "/" && next === "*") {
+      if (sql[i + 2] === "!") {
+        // /*!50110 KEY_BLOCK_SIZE=1024 */: skip the optional version number
+        i += 3;
+        while (/[0-9]/.test(sql[i] ?? "")) i++;
+        executableDepth++;
+        continue;
+      }
+      if (sql.startsWith("T!", i + 2)) {
+        // /*T![clustered_index] CLUSTERED */: skip the feature list
+        i += 4;
+        if (sql[i] === "[") {
+          const end = sql.indexOf("]", i);
+          i = end === -1 ? sql.length : end + 1;
+        }
+        executableDepth++;
+        continue;
+      }
+      const end = sql.indexOf("*/", i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      continue;
+    }
+
+    if (c === "*" && next === "/" && executableDepth > 0) {
+      executableDepth--;
+      i += 2;
+      continue;
+    }
+
+    const start = i;
+
+    if (c === "'" || c === '"') {
+      i = skipQuoted(sql, i);
+      tokens.push({
+        type: "string",
+        value: sql.slice(start, i),
+        start,
+        end: i,
+      });
+    } else if (c === "`") {
+      i = skipQuoted(sql, i);
+      tokens.push({
+        type: "identifier",
+        value: sql.slice(start, i),
+        start,
+        end: i,
+      });
+    } else if (c === "@") {
+      i += next === "@" ? 2 : 1;
+      if (sql[i] === "`" || sql[i] === "'" || sql[i] === '"') {
+        i = skipQuoted(sql, i);
+      } else {
+        while (i < sql.length && /[A-Za-z0-9_$.]/.test(sql[i])) i++;
+      }
+      tokens.push({
+        type: "variable",
+        value: sql.slice(start, i),
+        start,
+        end: i,
+      });
+    } else if (/[0-9]/.test(c)) {
+      while (i < sql.length && NUMBER_PART.test(sql[i])) i++;
+      tokens.push({
+        type: "number",
+        value: sql.slice(start, i),
+        start,
+        end: i,
+      });
+    } else if (WORD_START.test(c)) {
+      while (i < sql.length && WORD_PART.test(sql[i])) i++;
+      tokens.push({
+        type: "word",
+        value: sql.slice(start, i).toUpperCase(),
+        start,
+        end: i,
+      });
+    } else {
+      i++;
+      tokens.push({ type: "punct", value: c, start, end: i });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Splits SQL text into statements with their tokens. Statement text runs
+ * from the previous semicolon to the next one, so comments (including
+ * executable ones) stay in place.
+ */
+function splitTokens(sql: string): { sql: string; tokens: Token[] }[] {
+  const statements: { sql: string; tokens: Token[] }[] = [];
+  let current: Token[] = [];
+  let start = 0;
+
+  const flush = (end: number) => {
+    if (current.length > 0) {
+      statements.push({ sql: sql.slice(start, end).trim(), tokens: current });
+    }
+    current = [];
+  };
+
+  for (const token of tokenize(sql)) {
+    if (token.type === "punct" && token.value === ";") {
+      flush(token.start);
+      start = token.end;
+    } else {
+      current.push(token);
+    }
+  }
+  flush(sql.length);
+
+  return statements;
+}
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/**
+ * Functions that have side effects or can stall the server even when called
+ * from a SELECT
+ */
+const UNSAFE_FUNCTIONS = new Set([
+  "BENCHMARK",
+  "SLEEP",
+  "GET_LOCK",
+  "RELEASE_LOCK",
+  "RELEASE_ALL_LOCKS",
+  "IS_FREE_LOCK",
+  "IS_USED_LOCK",
+  "LOAD_FILE",
+  "MASTER_POS_WAIT",
+  "NEXTVAL",
+  "SETVAL",
+]);
+
+/** Keywords that start the main statement of a WITH clause or EXPLAIN */
+const QUERY_KEYWORDS = new Set([
+  "SELECT",
+  "TABLE",
+  "VALUES",
+  "WITH",
+  "INSERT",
+  "UPDATE",
+  "DELETE",
+  "REPLACE",
+]);
+
+const DML_KEYWORDS = new Set([
+  "INSERT",
+  "UPDATE",
+  "DELETE",
+  "REPLACE",
+  "IMPORT",
+  "BATCH",
+]);
+
+const DDL_KEYWORDS = new Set([
+  "CREATE",
+  "ALTER",
+  "DROP",
+  "TRUNCATE",
+  "RENAME",
+  "FLASHBACK",
+  "RECOVER",
+]);
+
+const TRANSACTION_KEYWORDS = new Set([
+  "BEGIN",
+  "START",
+  "COMMIT",
+  "ROLLBACK",
+  "SAVEPOINT",
+  "RELEASE",
+]);
+
+const ADMIN_KEYWORDS = new Set([
+  "SET",
+  "USE",
+  "KILL",
+  "ADMIN",
+  "ANALYZE",
+  "FLUSH",
+  "BACKUP",
+  "RESTORE",
+  "SPLIT",
+  "LOCK",
+  "UNLOCK",
+  "PREPARE",
+  "EXECUTE",
+  "DEALLOCATE",
+  "DO",
+  "TRACE",
+  "SHUTDOWN",
+  "CANCEL",
+  "PLAN",
+  "QUERY",
+  "CALIBRATE",
+]);
+
+/** Objects named after CREATE/ALTER/DROP/TRUNCATE/RENAME */
+const OBJECT_KEYWORDS = new Set([
+  "TABLE",
+  "TABLES",
+  "DATABASE",
+  "SCHEMA",
+  "INDEX",
+  "VIEW",
+  "SEQUENCE",
+  "USER",
+  "ROLE",
+  "PLACEMENT",
+  "RESOURCE",
+  "BINDING",
+  "STATS",
+]);
+
+/**
+ * Returns the upper-cased keyword at `index`, or "" if it isn't a word
+ */
+function wordAt(tokens: Token[], index: number): string {
+  const token = tokens[index];
+  return token?.type === "word" ? token.value : "";
+}
+
+/**
+ * Finds the position of the object keyword (TABLE, USER, ...) following a
+ * DDL verb, skipping modifiers such as OR REPLACE or TEMPORARY
+ * @returns The token index, or -1 if there is none
+ */
+function findObjectIndex(tokens: Token[], index: number): number {
+  for (let i = index + 1; i < Math.min(tokens.length, index + 8); i++) {
+    if (OBJECT_KEYWORDS.has(wordAt(tokens, i))) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Finds the object keyword following a DDL verb, or "" if there is none
+ */
+function findObjectKeyword(tokens: Token[], index: number): string {
+  return wordAt(tokens, findObjectIndex(tokens, index));
+}
+
+/**
+ * Looks for features that make a read statement unsafe to run in read-only
+ * mode. Returns the reason, or undefined if there is none.
+ */
+function findReadSideEffect(
+  tokens: Token[],
+  index: number,
+): string | undefined {
+  for (let i = index; i < tokens.length; i++) {
+    const word = wordAt(tokens, i);
+    const next = wordAt(tokens, i + 1);
+
+    if (word === "FOR" && (next === "UPDATE" || next === "SHARE")) {
+      return `locks rows (FOR ${next})`;
+    }
+    if (word === "LOCK" && next === "IN") {
+      return "locks rows (LOCK IN SHARE MODE)";
+    }
+    if (word === "NEXT" && next === "VALUE") {
+      return "advances a sequence (NEXT VALUE FOR)";
+    }
+    if (word === "INTO" && (next === "OUTFILE" || next === "DUMPFILE")) {
+      return `writes to a file (INTO ${next})`;
+    }
+    if (word === "INTO" && tokens[i + 1]?.type === "variable") {
+      return "assigns user variables (SELECT ... INTO)";
+    }
+    if (
+      UNSAFE_FUNCTIONS.has(word) &&
+      tokens[i + 1]?.type === "punct" &&
+      tokens[i + 1].value === "("
+    ) {
+      return `calls ${word}()`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether the tokens from `index` are `FOR CONNECTION <id>`, the end of an
+ * EXPLAIN of a running statement
+ */
+function isExplainForConnection(tokens: Token[], index: number): boolean {
+  return (
+    tokens.length === index + 3 &&
+    wordAt(tokens, index) === "FOR" &&
+    wordAt(tokens, index + 1) === "CONNECTION" &&
+    tokens[index + 2].type === "number"
+  );
+}
+
+/**
+ * Whether the tokens from `index` are the `table [column]` of a DESCRIBE,
+ * where the table may be qualified and the column may be a pattern string
+ */
+function isTableDescription(tokens: Token[], index: number): boolean {
+  const isName = (token: Token | undefined) =>
+    token?.type === "word" || token?.type === "identifier";
+  if (!isName(tokens[index])) {
+    return false;
+  }
+  let i = index + 1;
+  if (tokens[i]?.type === "punct" && tokens[i].value === ".") {
+    if (!isName(tokens[i + 1])) {
+      return false;
+    }
+    i += 2;
+  }
+  if (isName(tokens[i]) || tokens[i]?.type === "string") {
+    i++;
+  }
+  return i === tokens.length;
+}
+
+/**
+ * Skips the CTE definitions of a WITH clause starting at `index`
+ * @returns The index of the main statement keyword, or -1 if there is none
+ */
+function findMainStatement(tokens: Token[], index: number): number {
+  let depth = 0;
+  for (let i = index + 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === "punct" && token.value === "(") depth++;
+    else if (token.type === "punct" && token.value === ")") depth--;
+    else if (
+      depth === 0 &&
+      token.type === "word" &&
+      QUERY_KEYWORDS.has(token.value) &&
+      token.value !== "WITH"
+    ) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Classifies the statement starting at `index`
+ */
+function classifyFrom(
+  sql: string,
+  tokens: Token[],
+  index: number,
+): ClassifiedStatement {
+  // Parenthesized queries: (SELECT ...) UNION (SELECT ...)
+  while (tokens[index]?.type === "punct" && tokens[index].value === "(") {
+    index++;
+  }
+
+  const keyword = wordAt(tokens, index);
+  const result = (
+    category: StatementCategory,
+    readOnly: boolean,
+    label = keyword,
+    reason?: string,
+  ): ClassifiedStatement => ({
+    sql,
+    category,
+    keyword: label,
+    readOnly,
+    ...(reason ? { reason } : {}),
+  });
+
+  if (keyword === "SELECT" || keyword === "TABLE" || keyword === "VALUES") {
+    const reason = findReadSideEffect(tokens, index);
+    return result("read", !reason, keyword, reason);
+  }
+
+  if (keyword === "WITH") {
+    const mainIndex = findMainStatement(tokens, index);
+    if (mainIndex === -1) {
+      return result("unknown", false);
+    }
+    const main = classifyFrom(sql, tokens, mainIndex);
+    if (main.category === "read") {
+      // Side effects may also hide inside the CTEs
+      const reason = findReadSideEffect(tokens, index);
+      return result("read", !reason, main.keyword, reason);
+    }
+    return main;
+  }
+
+  if (keyword === "SHOW") {
+    return result("read", true);
+  }
+
+  if (keyword === "EXPLAIN" || keyword === "DESCRIBE" || keyword === "DESC") {
+    let i = index + 1;
+    let analyze = false;
+    if (wordAt(tokens, i) === "ANALYZE") {
+      analyze = true;
+      i++;
+    }
+    // FORMAT = "brief" / FORMAT = 'row'
+    if (wordAt(tokens, i) === "FORMAT") {
+      i += tokens[i + 1]?.value === "=" ? 3 : 2;
+    }
+
+    const label = analyze ? `${keyword} ANALYZE` : keyword;
+    if (analyze) {
+      // EXPLAIN ANALYZE runs the statement, so it is only as safe as the
+      // statement itself
+      const inner = classifyFrom(sql, tokens, i);
+      return inner.readOnly
+        ? result("read", true, label)
+        : result(
+            "read",
+            false,
+            label,
+            `EXPLAIN ANALYZE runs the ${inner.keyword || "given"} statement`,
+          );
+    }
+
+    const next = tokens[i];
+    const explainsQuery =
+      (next?.type === "word" && QUERY_KEYWORDS.has(next.value)) ||
+      (next?.type === "punct" && next.value === "(");
+    if (explainsQuery) {
+      // A plain EXPLAIN only plans the statement
+      return result("read", true, label);
+    }
+    if (isExplainForConnection(tokens, i) || isTableDescription(tokens, i)) {
+      return result("read", true);
+    }
+    return result("unknown", false);
+  }
+
+  if (DML_KEYWORDS.has(keyword)) {
+    return result("dml", false);
+  }
+
+  if (keyword === "LOAD") {
+    // LOAD DATA writes rows, LOAD STATS only loads optimizer statistics
+    const next = wordAt(tokens, index + 1);
+    return next === "DATA"
+      ? result("dml", false, "LOAD DATA")
+      : result("admin", false, `LOAD ${next}`.trim());
+  }
+
+  if (DDL_KEYWORDS.has(keyword)) {
+    const object = findObjectKeyword(tokens, index);
+    const label = object ? `${keyword} ${object}` : keyword;
+    return object === "USER" || object === "ROLE"
+      ? result("dcl", false, label)
+      : result("ddl", false, label);
+  }
+
+  if (keyword === "GRANT" || keyword === "REVOKE") {
+    return result("dcl", false);
+  }
+
+  if (keyword === "SET") {
+    const next = wordAt(tokens, index + 1);
+    if (next === "PASSWORD") {
+      return result("dcl", false, "SET PASSWORD");
+    }
+    if (next === "DEFAULT" && wordAt(tokens, index + 2) === "ROLE") {
+      return result("dcl", false, "SET DEFAULT ROLE");
+    }
+    return result("admin", false);
+  }
+
+  if (TRANSACTION_KEYWORDS.has(keyword)) {
+    return result("transaction", false);
+  }
+
+  if (ADMIN_KEYWORDS.has(keyword)) {
+    return result("admin", false);
+  }
+
+  return result("unknown", false);
+}
+
+// ============================================================================
+// Parameter Binding
+// ============================================================================
+
+const ESCAPES: Record<string, string> = {
+  "\0": "\\0",
+  "\b": "\\b",
+  "\n": "\\n",
+  "\r": "\\r",
+  "\t": "\\t",
+  "\x1a": "\\Z",
+  "\\": "\\\\",
+  '"': '\\"',
+  "'": "\\'",
+};
+
+/**
+ * Renders a value as a SQL literal
+ */
+function formatValue(value: SqlValue | undefined): string {
+  if (value === null || value === undefined) {
+    return "NULL";
+  }
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot bind non-finite number ${value}`);
+    }
+    return String(value);
+  }
+  if (typeof value === "bigint") {
+    return String(value);
+  }
+  if (typeof value === "boolean") {
+    return value ? "TRUE" : "FALSE";
+  }
+  if (value instanceof Uint8Array) {
+    const hex = Array.from(value, (byte) =>
+      byte.toString(16).padStart(2, "0"),
+    ).join("");
+    return `X'${hex}'`;
+  }
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      throw new Error("Cannot bind an invalid date");
+    }
+    // 2024-01-15T10:30:00.000Z -> '2024-01-15 10:30:00.000' (UTC)
+    return `'${value.toISOString().replace("T", " ").replace("Z", "")}'`;
+  }
+  return `'${value.replace(/[\0\b\n\r\t\x1a\\"']/g, (c) => ESCAPES[c])}'`;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Replaces placeholders with SQL literals. Placeholders inside strings,
+ * quoted identifiers and comments are left alone.
+ * @param sql - SQL text with `?` placeholders (array) or `:name` placeholders
+ *   (object)
+ * @param params - The values to bind
+ * @throws Error if the number of positional values doesn't match the
+ *   placeholders, or a named placeholder has no value
+ */
+export function bindParameters(sql: string, params: SqlParameters): string {
+  const parts: string[] = [];
+  let last = 0;
+  let position = 0;
+  const tokens = tokenize(sql);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== "punct") {
+      continue;
+    }
+
+    if (Array.isArray(params) && token.value === "?") {
+      if (position >= params.length) {
+        throw new Error(
+          `The SQL has more ? placeholders than the ${params.length} parameter value(s) given`,
+        );
+      }
+      parts.push(sql.slice(last, token.start), formatValue(params[position++]));
+      last = token.end;
+    } else if (!Array.isArray(params) && token.value === ":") {
+      // :name, but not := or a colon separated from the name
+      const next = tokens[i + 1];
+      if (
+        !next ||
+        next.start !== token.end ||
+        (next.type !== "word" && next.type !== "number")
+      ) {
+        continue;
+      }
+      const name = sql.slice(next.start, next.end);
+      if (!Object.prototype.hasOwnProperty.call(params, name)) {
+        throw new Error(`No value given for parameter :${name}`);
+      }
+      parts.push(sql.slice(last, token.start), formatValue(params[name]));
+      last = next.end;
+      i++;
+    }
+  }
+
+  if (Array.isArray(params) && position < params.length) {
+    throw new Error(
+      `${params.length} parameter value(s) given, but the SQL has ${position} ? placeholder(s)`,
+    );
+  }
+
+  parts.push(sql.slice(last));
+  return parts.join("");
+}
+
+/**
+ * Splits SQL text into statements. Comments are kept inside a statement,
+ * empty statements and comment-only fragments are dropped, and trailing
+ * semicolons are removed.
+ * @param sql - One or more SQL statements
+ */
+export function splitStatements(sql: string): string[] {
+  return splitTokens(sql).map((statement) => statement.sql);
+}
+
+/**
+ * Splits SQL text into statements and classifies each of them
+ * @param sql - One or more SQL statements
+ */
+export function classifySql(sql: string): ClassifiedStatement[] {
+  return splitTokens(sql).map((statement) =>
+    classifyFrom(statement.sql, statement.tokens, 0),
+  );
+}
+
+/**
+ * Adds `LIMIT offset, count` to a single read-only SELECT (including TABLE,
+ * VALUES and WITH ... SELECT) that has no top-level LIMIT of its own
+ * @param sql - The statement to limit
+ * @param offset - Rows to skip
+ * @param count - Rows to return
+ * @returns The rewritten statement, or undefined if it can't be limited safely
+ */
+export function applyRowLimit(
+  sql: string,
+  offset: number,
+  count: number,
+): string | undefined {
+  const statements = splitTokens(sql);
+  if (statements.length !== 1) {
+    return undefined;
+  }
+
+  const { tokens } = statements[0];
+  const statement = classifyFrom(statements[0].sql, tokens, 0);
+  // Locking reads and SELECT ... INTO can't take a LIMIT after their clause
+  if (
+    statement.category !== "read" ||
+    !statement.readOnly ||
+    !["SELECT", "TABLE", "VALUES"].includes(statement.keyword)
+  ) {
+    return undefined;
+  }
+
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.type === "punct" && token.value === "(") depth++;
+    else if (token.type === "punct" && token.value === ")") depth--;
+    else if (depth === 0 && token.type === "word" && token.value === "LIMIT") {
+      return undefined;
+    }
+  }
+
+  // Insert right after the last token so a trailing comment or semicolon
+  // can't swallow the clause
+  const end = tokens[tokens.length - 1].end;
+  return `${sql.slice(0, end)} LIMIT ${offset}, ${count}${sql.slice(end)}`.trim();
+}
+
+/**
+ * Adds an optimizer hint comment (`/*+ ... *\/`) right after the keyword of
+ * a single SELECT, UPDATE or DELETE statement, which is where TiDB reads
+ * hints from. For WITH statements the hint goes to the main statement.
+ * @param sql - The statement
+ * @param hint - Hint text, e.g. "USE_INDEX(t, idx_a)"
+ * @returns The statement with the hint, or undefined if it can't take one
+ */
+export function addOptimizerHint(
+  sql: string,
+  hint: string,
+): string | undefined {
+  const statements = splitTokens(sql);
+  if (statements.length !== 1) {
+    return undefined;
+  }
+
+  const { tokens } = statements[0];
+  let index = 0;
+  while (tokens[index]?.type === "punct" && tokens[index].value === "(") {
+    index++;
+  }
+  if (wordAt(tokens, index) === "WITH") {
+    index = findMainStatement(tokens, index);
+  }
+  if (!["SELECT", "UPDATE", "DELETE"].includes(wordAt(tokens, index))) {
+    return undefined;
+  }
+
+  const end = tokens[index].end;
+  return `${sql.slice(0, end)} /*+ ${hint} */${sql.slice(end)}`;
+}
+
+/**
+ * Human-readable name of a statement category
+ */
+export function formatStatementCategory(category: StatementCategory): string {
+  switch (category) {
+    case "read":
+      return "Read";
+    case "dml":
+      return "DML";
+    case "ddl":
+      return "DDL";
+    case "dcl":
+      return "DCL";
+    case "transaction":
+      return "Transaction";
+    case "admin":
+      return "Admin";
+    default:
+      return "Unknown";
+  }
+}
+
+// ============================================================================
+// Impact Preview
+// ============================================================================
+
+/** Modifiers allowed between UPDATE/DELETE and the table reference */
+const DML_MODIFIERS = new Set(["LOW_PRIORITY", "QUICK", "IGNORE"]);
+
+/**
+ * Finds the first top-level (not parenthesized) occurrence of each keyword
+ * from `index` on
+ */
+function findTopLevelWords(
+  tokens: Token[],
+  index: number,
+  words: string[],
+): Map<string, number> {
+  const found = new Map<string, number>();
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === "punct" && token.value === "(") depth++;
+    else if (token.type === "punct" && token.value === ")") depth--;
+    else if (
+      depth === 0 &&
+      token.type === "word" &&
+      words.includes(token.value) &&
+      !found.has(token.value)
+    ) {
+      found.set(token.value, i);
+    }
+  }
+  return found;
+}
+
+/**
+ * Reads a table name (`tbl` or `db`.`tbl`) at `index`
+ * @returns The name and the index of the token after it
+ */
+function readTableName(
+  sql: string,
+  tokens: Token[],
+  index: number,
+): { name: TableName; next: number } | undefined {
+  const part = (token: Token | undefined): string | undefined => {
+    if (token?.type === "identifier") {
+      return token.value.slice(1, -1).replace(/``/g, "`");
+    }
+    // Words are upper-cased, so take the original text
+    return token?.type === "word"
+      ? sql.slice(token.start, token.end)
+      : undefined;
+  };
+
+  const first = part(tokens[index]);
+  if (first === undefined) {
+    return undefined;
+  }
+  if (tokens[index + 1]?.type === "punct" && tokens[index + 1].value === ".") {
+    const second = part(tokens[index + 2]);
+    if (second !== undefined) {
+      return { name: { database: first, table: second }, next: index + 3 };
+    }
+  }
+  return { name: { table: first }, next: index + 1 };
+}
+
+/**
+ * Reads a comma-separated list of table names at `index`
+ */
+function readTableNames(
+  sql: string,
+  tokens: Token[],
+  index: number,
+): TableName[] {
+  const names: TableName[] = [];
+  let i = index;
+  for (;;) {
+    const read = readTableName(sql, tokens, i);
+    if (!read) {
+      return names;
+    }
+    names.push(read.name);
+    if (
+      tokens[read.next]?.type !== "punct" ||
+      tokens[read.next].value !== ","
+    ) {
+      return names;
+    }
+    i = read.next + 1;
+  }
+}
+
+/**
+ * Skips IF EXISTS / IF NOT EXISTS at `index`
+ */
+function skipIfExists(tokens: Token[], index: number): number {
+  if (wordAt(tokens, index) !== "IF") {
+    return index;
+  }
+  return wordAt(tokens, index + 1) === "NOT" ? index + 3 : index + 2;
+}
+
+/**
+ * Builds the count and sample queries for a single UPDATE or DELETE from its
+ * table references and WHERE / ORDER BY / LIMIT clauses
+ */
+function planRowPreview(
+  sql: string,
+  tokens: Token[],
+  sampleSize: number,
+): ImpactPreviewPlan | undefined {
+  const keyword = wordAt(tokens, 0);
+  let i = 1;
+  while (DML_MODIFIERS.has(wordAt(tokens, i))) i++;
+
+  const clauses = findTopLevelWords(tokens, i, [
+    "FROM",
+    "USING",
+    "SET",
+    "WHERE",
+    "ORDER",
+    "LIMIT",
+  ]);
+
+  // WHERE, ORDER BY and LIMIT follow the table references (and SET)
+  const tailStart = Math.min(
+    ...["WHERE", "ORDER", "LIMIT"].map(
+      (word) => clauses.get(word) ?? tokens.length,
+    ),
+  );
+
+  let refsStart: number;
+  let refsEnd: number;
+  let multiTable = false;
+  if (keyword === "UPDATE") {
+    // UPDATE refs SET ...
+    const set = clauses.get("SET");
+    if (set === undefined) {
+      return undefined;
+    }
+    refsStart = i;
+    refsEnd = set;
+  } else {
+    // DELETE FROM t ..., DELETE t1 FROM refs ..., DELETE FROM t1 USING refs
+    const from = clauses.get("FROM");
+    if (from === undefined) {
+      return undefined;
+    }
+    // In the DELETE t1 FROM form, USING can only be a join condition
+    const using = from === i ? clauses.get("USING") : undefined;
+    refsStart = (using ?? from) + 1;
+    refsEnd = tailStart;
+    multiTable = from !== i || using !== undefined;
+  }
+  if (refsEnd <= refsStart) {
+    return undefined;
+  }
+
+  // Joined or comma-separated references make a multi-table statement
+  let depth = 0;
+  for (let j = refsStart; j < refsEnd && !multiTable; j++) {
+    const token = tokens[j];
+    if (token.type === "punct" && token.value === "(") depth++;
+    else if (token.type === "punct" && token.value === ")") depth--;
+    else if (depth === 0) {
+      multiTable =
+        (token.type === "punct" && token.value === ",") ||
+        (token.type === "word" && token.value === "JOIN");
+    }
+  }
+
+  const last = tokens[tokens.length - 1];
+  const refs = sql.slice(tokens[refsStart].start, tokens[refsEnd - 1].end);
+  const tail =
+    tailStart < tokens.length
+      ? ` ${sql.slice(tokens[tailStart].start, last.end)}`
+      : "";
+  const rows = `FROM ${refs}${tail}`;
+
+  // A LIMIT of the statement itself caps the affected rows. Only
+  // single-table statements may have one: the columns of joined tables can
+  // share names, which a derived table rejects.
+  if (clauses.has("LIMIT")) {
+    if (multiTable) {
+      return undefined;
+    }
+    return {
+      kind: "rows",
+      countSql: `SELECT COUNT(*) AS row_count FROM (SELECT 1 ${rows}) AS impact_preview`,
+      sampleSql: `SELECT * FROM (SELECT * ${rows}) AS impact_preview LIMIT ${sampleSize}`,
+    };
+  }
+  return {
+    kind: "rows",
+    countSql: `SELECT COUNT(*) AS row_count ${rows}`,
+    sampleSql: `SELECT * ${rows} LIMIT ${sampleSize}`,
+  };
+}
+
+/**
+ * Finds the tables or database a DDL statement changes
+ */
+function planSchemaPreview(
+  sql: string,
+  tokens: Token[],
+): ImpactPreviewPlan | undefined {
+  const keyword = wordAt(tokens, 0);
+
+  if (keyword === "TRUNCATE") {
+    const start = wordAt(tokens, 1) === "TABLE" ? 2 : 1;
+    const tables = readTableNames(sql, tokens, start).slice(0, 1);
+    return tables.length > 0 ? { kind: "tables", tables } : undefined;
+  }
+
+  const objectIndex = findObjectIndex(tokens, 0);
+  const object = wordAt(tokens, objectIndex);
+  const start = skipIfExists(tokens, objectIndex + 1);
+
+  if (keyword === "RENAME" && (object === "TABLE" || object === "TABLES")) {
+    // RENAME TABLE a TO b, c TO d: only the source tables exist yet
+    const tables: TableName[] = [];
+    let i = start;
+    for (;;) {
+      const read = readTableName(sql, tokens, i);
+      if (!read || wordAt(tokens, read.next) !== "TO") {
+        break;
+      }
+      tables.push(read.name);
+      const target = readTableName(sql, tokens, read.next + 1);
+      if (!target || tokens[target.next]?.value !== ",") {
+        break;
+      }
+      i = target.next + 1;
+    }
+    return tables.length > 0 ? { kind: "tables", tables } : undefined;
+  }
+
+  if (object === "TABLE" || object === "VIEW") {
+    const tables = readTableNames(sql, tokens, start);
+    return tables.length > 0 ? { kind: "tables", tables } : undefined;
+  }
+
+  if (object === "INDEX") {
+    // CREATE INDEX idx ON t (...), DROP INDEX idx ON t
+    const on = findTopLevelWords(tokens, start, ["ON"]).get("ON");
+    const read =
+      on === undefined ? undefined : readTableName(sql, tokens, on + 1);
+    return read ? { kind: "tables", tables: [read.name] } : undefined;
+  }
+
+  if (keyword === "DROP" && (object === "DATABASE" || object === "SCHEMA")) {
+    const read = readTableName(sql, tokens, start);
+    return read && !read.name.database
+      ? { kind: "database", database: read.name.table }
+      : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Plans read-only queries that preview what a statement would change,
+ * without running it. UPDATE and DELETE are previewed through the rows
+ * matching their WHERE clause; DDL through the tables or database it
+ * touches.
+ * @param sql - A single statement
+ * @param sampleSize - Rows to sample for UPDATE and DELETE
+ * @returns The plan, or undefined if the statement can't be previewed
+ */
+export function planImpactPreview(
+  sql: string,
+  sampleSize: number,
+): ImpactPreviewPlan | undefined {
+  const statements = splitTokens(sql);
+  if (statements.length !== 1) {
+    return undefined;
+  }
+
+  const { tokens } = statements[0];
+  const keyword = wordAt(tokens, 0);
+  if (keyword === "UPDATE" || keyword === "DELETE") {
+    return planRowPreview(sql, tokens, sampleSize);
+  }
+  if (DDL_KEYWORDS.has(keyword)) {
+    return planSchemaPreview(sql, tokens);
+  }
+  return undefined;
+}
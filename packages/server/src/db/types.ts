@@ -43,3 +43,490 @@ export interface TableInfo {
     name: string;
     type: string;
 }
+
+/**
+ * Category of a SQL statement
+ * - read: SELECT, SHOW, DESCRIBE, EXPLAIN and friends
+ * - dml: INSERT, UPDATE, DELETE, REPLACE, LOAD DATA, IMPORT INTO
+ * - ddl: CREATE, ALTER, DROP, TRUNCATE, RENAME of schema objects
+ * - dcl: GRANT, REVOKE and user/role management
+ * - transaction: BEGIN, COMMIT, ROLLBACK, SAVEPOINT
+ * - admin: SET, USE, KILL, ANALYZE, ADMIN and other server commands
+ */
+export type StatementCategory =
+    | "read"
+    | "dml"
+    | "ddl"
+    | "dcl"
+    | "transaction"
+    | "admin"
+    | "unknown";
+
+/**
+ * A single SQL statement with its classification
+ */
+export interface ClassifiedStatement {
+    /** Statement text, without the trailing semicolon */
+    sql: string;
+    category: StatementCategory;
+    /** Leading keyword(s), e.g. "SELECT", "DELETE" or "CREATE TABLE" */
+    keyword: string;
+    /** Whether the statement can run without side effects */
+    readOnly: boolean;
+    /** Why a statement is not read-only, when that isn't obvious from its category */
+    reason?: string;
+}
+
+/**
+ * Limits on how much of a query result is returned to the client
+ */
+export interface QueryLimits {
+    /** Rows returned per call */
+    maxRows: number;
+    /** Approximate size budget for the rendered result, in bytes */
+    maxBytes: number;
+    /** Longer cell values are cut and marked as truncated */
+    maxCellLength: number;
+}
+
+/**
+ * A value bound to a SQL placeholder
+ */
+export type SqlValue =
+    | null
+    | string
+    | number
+    | bigint
+    | boolean
+    | Date
+    | Uint8Array;
+
+/**
+ * Values for `?` placeholders (array) or `:name` placeholders (object)
+ */
+export type SqlParameters = SqlValue[] | Record<string, SqlValue>;
+
+/**
+ * Outcome of running a batch of statements
+ */
+export interface BatchResult {
+    /** Results of the statements that succeeded, in order */
+    results: ExecuteResult[];
+    /** The statement that failed; statements after it were not run */
+    failure?: {
+        index: number;
+        message: string;
+    };
+    /** Whether the batch ran inside a single transaction */
+    atomic: boolean;
+    /** Whether the changes of the successful statements were undone */
+    rolledBack: boolean;
+    /** Set when the transaction could not be committed */
+    commitError?: string;
+}
+
+/**
+ * A table name as written in a statement
+ */
+export interface TableName {
+    /** Database qualifier, if the name had one */
+    database?: string;
+    table: string;
+}
+
+/**
+ * Read-only queries that show what a write statement would affect
+ * - rows: UPDATE/DELETE, counted and sampled through their WHERE clause
+ * - tables: DDL on tables, described by their definition and size
+ * - database: DROP DATABASE, described by the tables it contains
+ */
+export type ImpactPreviewPlan =
+    | { kind: "rows"; countSql: string; sampleSql: string }
+    | { kind: "tables"; tables: TableName[] }
+    | { kind: "database"; database: string };
+
+/**
+ * Current state of a table touched by a DDL statement
+ */
+export interface TableImpact extends TableName {
+    exists: boolean;
+    createStatement?: string;
+    /** Row count estimated from statistics */
+    estimatedRows?: number;
+    dataBytes?: number;
+    indexBytes?: number;
+}
+
+/**
+ * What a write statement would affect if it were executed
+ */
+export type ImpactPreview =
+    | { kind: "rows"; matchedRows: number; sample: QueryResult }
+    | { kind: "tables"; tables: TableImpact[] }
+    | {
+          kind: "database";
+          database: string;
+          exists: boolean;
+          tableCount: number;
+          estimatedRows: number;
+          totalBytes: number;
+      }
+    | { kind: "none"; reason: string };
+
+/**
+ * A column as described by INFORMATION_SCHEMA.COLUMNS
+ */
+export interface ColumnSchema {
+    name: string;
+    /** Full column type, e.g. "varchar(255)" or "bigint unsigned" */
+    type: string;
+    nullable: boolean;
+    /** Default value expression, or null if there is none */
+    default: string | null;
+    /** e.g. "auto_increment" or "DEFAULT_GENERATED" */
+    extra: string;
+    comment: string;
+}
+
+/**
+ * An index of a table
+ */
+export interface IndexSchema {
+    name: string;
+    kind: "primary" | "unique" | "secondary";
+    /** Indexed columns, or the expression of an expression index part */
+    columns: string[];
+    /** Whether the table rows are stored in the order of this index */
+    clustered: boolean;
+    visible: boolean;
+}
+
+/**
+ * A foreign key of a table
+ */
+export interface ForeignKeySchema {
+    name: string;
+    columns: string[];
+    referencedDatabase: string;
+    referencedTable: string;
+    referencedColumns: string[];
+    onUpdate: string;
+    onDelete: string;
+}
+
+/**
+ * TiFlash columnar replica of a table
+ */
+export interface TiFlashReplica {
+    count: number;
+    available: boolean;
+    /** Replication progress from 0 to 1 */
+    progress: number;
+}
+
+/**
+ * Structure and size of a table or view
+ */
+export interface TableSchema {
+    database: string;
+    name: string;
+    /** "BASE TABLE", "VIEW" or "SEQUENCE" */
+    type: string;
+    comment: string;
+    /** Row count estimated from statistics */
+    estimatedRows: number;
+    dataBytes: number;
+    indexBytes: number;
+    columns: ColumnSchema[];
+    indexes: IndexSchema[];
+    foreignKeys: ForeignKeySchema[];
+    tiflashReplica?: TiFlashReplica;
+}
+
+/**
+ * A difference between two schemas, seen from the target
+ * - added: only in the source
+ * - removed: only in the target
+ * - modified: in both, with a different definition
+ */
+export interface SchemaChange {
+    object: "table" | "view" | "column" | "index";
+    change: "added" | "removed" | "modified";
+    table: string;
+    /** Column or index name */
+    name?: string;
+    /** What differs, e.g. "type: varchar(64) → varchar(128)" */
+    details?: string;
+}
+
+/**
+ * Differences between a source and a target schema
+ */
+export interface SchemaDiff {
+    changes: SchemaChange[];
+    /** Statements that bring the target in line with the source */
+    ddl: string[];
+    /** Differences the DDL does not cover */
+    warnings: string[];
+}
+
+/**
+ * A row that differs between the source and target of a data diff
+ */
+export interface RowDifference {
+    /** Key column values of the row */
+    key: Record<string, unknown>;
+    /** The row on the source (absent if deleted) */
+    source?: Record<string, unknown>;
+    /** The row on the target (absent if inserted) */
+    target?: Record<string, unknown>;
+    /** Columns whose values differ (updated rows only) */
+    changedColumns?: string[];
+}
+
+/**
+ * Row-level differences of a table between a source and a target, seen
+ * from the target
+ * - inserted: rows only in the source
+ * - updated: rows in both, with different values
+ * - deleted: rows only in the target
+ */
+export interface TableDataDiff {
+    /** Columns identifying rows: the primary key, or _tidb_rowid */
+    key: string[];
+    /** Columns compared, those present on both sides */
+    columns: string[];
+    sourceRows: number;
+    targetRows: number;
+    inserted: number;
+    updated: number;
+    deleted: number;
+    samples: {
+        inserted: RowDifference[];
+        updated: RowDifference[];
+        deleted: RowDifference[];
+    };
+    /** Number of key ranges compared by checksum */
+    chunks: number;
+    /** Number of those ranges with differences */
+    mismatchedChunks: number;
+    /** Columns present on one side only, which are not compared */
+    skippedColumns: string[];
+}
+
+/**
+ * A schema migration with the SQL that applies and reverts it
+ */
+export interface Migration {
+    /** Orders the migrations, e.g. "0001" or "20250101120000" */
+    version: string;
+    name: string;
+    /** SQL that applies the migration; may hold several statements */
+    up: string;
+    /** SQL that reverts the migration; required to roll it back */
+    down?: string;
+}
+
+/**
+ * A migration recorded in the migration history table
+ */
+export interface MigrationRecord extends Migration {
+    /** SHA-256 of the up and down SQL at registration */
+    checksum: string;
+    /** Whether the stored SQL still matches the checksum */
+    checksumValid: boolean;
+    registeredAt: string;
+    /** When the migration was applied; absent while pending */
+    appliedAt?: string;
+}
+
+/**
+ * Outcome of applying or rolling back migrations
+ */
+export interface MigrationRun {
+    /** Versions applied or rolled back, in order */
+    completed: string[];
+    /** The migration that failed; the ones after it were not run */
+    failure?: {
+        version: string;
+        /** Index of the failed statement within the migration */
+        statement: number;
+        message: string;
+        /**
+         * Whether statements before the failure stay applied, as DDL
+         * statements commit on their own
+         */
+        partial: boolean;
+        /**
+         * Set when all statements ran but the history could not be updated,
+         * so the migration is not recorded as having run
+         */
+        unrecorded?: boolean;
+    };
+}
+
+/**
+ * An operator of a TiDB execution plan
+ */
+export interface PlanNode {
+    /** Operator ID as printed by EXPLAIN, e.g. "TableFullScan_7" */
+    id: string;
+    /** Operator type, e.g. "TableFullScan" */
+    operator: string;
+    /** Role of the operator under a join, e.g. "Build" or "Probe" */
+    role?: string;
+    estRows: number;
+    /** Estimated cost of the operator and its inputs (verbose EXPLAIN only) */
+    estCost?: number;
+    /** Rows actually produced (EXPLAIN ANALYZE only) */
+    actRows?: number;
+    /** Where the operator runs: "root", "cop[tikv]", "mpp[tiflash]", ... */
+    task: string;
+    /** e.g. "table:orders, index:idx_user(user_id)" */
+    accessObject: string;
+    operatorInfo: string;
+    /** Runtime statistics (EXPLAIN ANALYZE only) */
+    executionInfo?: string;
+    /** Wall time of the operator in milliseconds (EXPLAIN ANALYZE only) */
+    timeMs?: number;
+    memory?: string;
+    disk?: string;
+    children: PlanNode[];
+}
+
+/**
+ * A potential performance problem found in an execution plan
+ * - full_table_scan / full_index_scan: reads a whole table or index
+ * - cop_task_hotspot: one coprocessor task is much slower than the others
+ * - estimate_skew: estimated and actual row counts differ widely
+ * - pseudo_stats: the table has no usable statistics
+ */
+export interface PlanIssue {
+    kind:
+        | "full_table_scan"
+        | "full_index_scan"
+        | "cop_task_hotspot"
+        | "estimate_skew"
+        | "pseudo_stats";
+    severity: "warning" | "info";
+    /** ID of the operator the issue was found on */
+    operator: string;
+    message: string;
+}
+
+/**
+ * A query of the workload given to the index advisor
+ */
+export interface WorkloadQuery {
+    sql: string;
+    /** Database to plan the query in */
+    database?: string;
+    /** Relative importance of the query, e.g. its executions (default: 1) */
+    weight?: number;
+}
+
+/**
+ * The estimated effect of a candidate index on one query of the workload
+ */
+export interface IndexBenefit {
+    /** Position of the query in the workload, starting at 0 */
+    query: number;
+    costBefore: number;
+    costAfter: number;
+    /** Whether the optimizer chose the index for the query */
+    used: boolean;
+}
+
+/**
+ * An index proposed by the index advisor
+ */
+export interface IndexCandidate {
+    database: string;
+    table: string;
+    name: string;
+    columns: string[];
+    /** Why these columns were chosen */
+    reason: string;
+    /** CREATE INDEX statement for the index */
+    ddl: string;
+    benefits: IndexBenefit[];
+    /**
+     * Share of the estimated workload cost the index saves, from 0 to 1,
+     * weighted by the query weights
+     */
+    improvement: number;
+}
+
+/**
+ * Metric used to rank statements in the statement summary
+ * - total_latency: time spent over all executions
+ * - avg_latency: time per execution
+ * - ru: request units consumed over all executions
+ * - executions: number of executions
+ */
+export type StatementRanking =
+    | "total_latency"
+    | "avg_latency"
+    | "ru"
+    | "executions";
+
+/**
+ * Aggregated statistics of a normalized statement (one digest)
+ */
+export interface StatementSummary {
+    digest: string;
+    /** Normalized statement text with literals replaced by `?` */
+    digestText: string;
+    database: string;
+    statementType: string;
+    executions: number;
+    totalLatencyMs: number;
+    avgLatencyMs: number;
+    maxLatencyMs: number;
+    /** Request units consumed, read and write combined */
+    totalRu: number;
+    avgProcessedKeys: number;
+    /** Number of different plans used for the statement */
+    planCount: number;
+    firstSeen: string;
+    lastSeen: string;
+    /** One execution of the statement with its literals */
+    sampleText: string;
+}
+
+/**
+ * A plan used by a statement, with statistics of the executions using it
+ */
+export interface StatementPlan {
+    planDigest: string;
+    /** Plan in EXPLAIN format */
+    plan: string;
+    executions: number;
+    avgLatencyMs: number;
+    maxLatencyMs: number;
+    firstSeen: string;
+    lastSeen: string;
+    sampleText: string;
+}
+
+/**
+ * An execution recorded in the slow query log
+ */
+export interface SlowQuery {
+    time: string;
+    queryTimeMs: number;
+    database: string;
+    user: string;
+    digest: string;
+    planDigest: string;
+    query: string;
+    processedKeys: number;
+    totalKeys: number;
+    maxMemoryBytes: number;
+    resultRows: number;
+    /** Request units consumed, read and write combined */
+    ru: number;
+    succeeded: boolean;
+    /** Indexes used, e.g. "orders:idx_user" */
+    indexNames: string;
+}
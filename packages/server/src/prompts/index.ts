@@ -0,0 +1,5 @@
+/**
+ * Prompt registration module
+ */
+
+export { registerWorkflowPrompts } from "./workflows.js";
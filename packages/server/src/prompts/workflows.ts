@@ -0,0 +1,196 @@
+/**
+ * Workflow prompts for TiDB Cloud MCP Server
+ *
+ * Each prompt expands into instructions that walk the model through a common
+ * task using the existing tidbcloud_* and db_* tools.
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { TiDBCloudClient } from "../api/client.js";
+import {
+  createCloudCompleters,
+  createDatabaseCompleters,
+} from "../completion.js";
+import type { DatabaseConfig } from "../db/types.js";
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Wraps prompt text into a single user message
+ */
+function userMessage(text: string): GetPromptResult {
+  return {
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+// ============================================================================
+// Prompt Registration
+// ============================================================================
+
+/**
+ * Registers workflow prompts with the MCP server
+ */
+export function registerWorkflowPrompts(
+  server: McpServer,
+  client: TiDBCloudClient,
+  dbConfig?: DatabaseConfig,
+): void {
+  const cloud = createCloudCompleters(client);
+  const db = createDatabaseCompleters(dbConfig);
+
+  // ========================================================================
+  // Create a dev branch and seed it
+  // ========================================================================
+  server.registerPrompt(
+    "create_dev_branch",
+    {
+      title: "Create and Seed a Dev Branch",
+      description:
+        "Create a branch of a cluster for development, wait until it is ready and load seed data",
+      argsSchema: {
+        cluster: completable(
+          z.string().describe("The cluster name or ID to branch from"),
+          (value) => cloud.cluster(value),
+        ),
+        branchName: z
+          .string()
+          .optional()
+          .describe("Display name for the new branch"),
+        seed: z
+          .string()
+          .optional()
+          .describe(
+            "Seed data to load: SQL statements or a description of the data",
+          ),
+      },
+    },
+    ({ cluster, branchName, seed }) =>
+      userMessage(
+        [
+          `Create a development branch of the TiDB Cloud cluster "${cluster}" and seed it.`,
+          "",
+          "Steps:",
+          `1. Call tidbcloud_create_branch for cluster "${cluster}"${branchName ? ` with displayName "${branchName}"` : " with a descriptive dev branch name"}.`,
+          "2. Call tidbcloud_wait_for_branch until the branch is ACTIVE.",
+          "3. Call tidbcloud_get_branch to get the branch endpoint host.",
+          "4. Ask me for the database credentials if they are not configured, then use show_databases and show_tables with the branch host to review the existing schema.",
+          seed
+            ? `5. Load this seed data with db_execute against the branch host:\n\n${seed}`
+            : "5. Ask me what seed data to load, then insert it with db_execute against the branch host.",
+          "6. Summarize the branch ID, endpoint and the rows inserted per table.",
+          "",
+          "Never run the seed statements against the parent cluster.",
+        ].join("\n"),
+      ),
+  );
+
+  // ========================================================================
+  // Diagnose a slow query
+  // ========================================================================
+  server.registerPrompt(
+    "diagnose_slow_query",
+    {
+      title: "Diagnose a Slow Query",
+      description:
+        "Analyze the execution plan of a slow query and suggest indexes or rewrites",
+      argsSchema: {
+        sql: z.string().describe("The slow SQL query"),
+        database: completable(
+          z.string().optional().describe("Database the query runs against"),
+          (value) => db.database(value ?? ""),
+        ),
+      },
+    },
+    ({ sql, database }) =>
+      userMessage(
+        [
+          `Diagnose why this query is slow${database ? ` in database "${database}"` : ""}:`,
+          "",
+          "```sql",
+          sql,
+          "```",
+          "",
+          "Steps:",
+          "1. Call explain_query with analyze set to true (or false if the query is not a SELECT) and review the plan and the issues it flags: full table scans, estimate skew, coprocessor hotspots and missing statistics.",
+          "2. For each table involved, call describe_schema to see its columns and available indexes.",
+          "3. Explain the bottleneck in plain words.",
+          "4. If the plan scans tables in full, call advise_indexes with the query to get index candidates and their estimated benefit.",
+          "5. Suggest concrete fixes (new indexes, query rewrites, ANALYZE TABLE for stale statistics) with the exact SQL.",
+          "",
+          "Do not create indexes or change data without asking me first.",
+        ].join("\n"),
+      ),
+  );
+
+  // ========================================================================
+  // Explore a database
+  // ========================================================================
+  server.registerPrompt(
+    "explore_database",
+    {
+      title: "Explore a Database",
+      description:
+        "Summarize the tables, columns and relationships of a database",
+      argsSchema: {
+        database: completable(
+          z.string().describe("The database to explore"),
+          (value) => db.database(value ?? ""),
+        ),
+      },
+    },
+    ({ database }) =>
+      userMessage(
+        [
+          `Explore the database "${database}" and give me an overview.`,
+          "",
+          "Steps:",
+          `1. Call show_tables for "${database}".`,
+          "2. For each table, run SHOW CREATE TABLE with db_query to learn its columns, keys and indexes.",
+          "3. Fetch a few sample rows per table with db_query (SELECT ... LIMIT 5).",
+          "4. Summarize what each table stores, how tables relate through foreign keys or naming conventions, and anything unusual (missing primary keys, unindexed join columns, very wide tables).",
+          "",
+          "Only run read-only queries.",
+        ].join("\n"),
+      ),
+  );
+
+  // ========================================================================
+  // Rotate a SQL user password
+  // ========================================================================
+  server.registerPrompt(
+    "rotate_db_user_password",
+    {
+      title: "Rotate a Database User Password",
+      description: "Set a new password for a SQL user of a cluster",
+      argsSchema: {
+        cluster: completable(
+          z.string().describe("The cluster name or ID"),
+          (value) => cloud.cluster(value),
+        ),
+        userName: completable(
+          z.string().describe("The full SQL user name, including the prefix"),
+          (value, context) =>
+            cloud.sqlUser(context?.arguments?.cluster, value),
+        ),
+      },
+    },
+    ({ cluster, userName }) =>
+      userMessage(
+        [
+          `Rotate the password of SQL user "${userName}" on the TiDB Cloud cluster "${cluster}".`,
+          "",
+          "Steps:",
+          `1. Call tidbcloud_get_sql_user to confirm that "${userName}" exists and note its role.`,
+          "2. Ask me for the new password (at least 8 characters). Do not invent one.",
+          "3. Call tidbcloud_update_sql_user with the new password, keeping the current role.",
+          "4. Remind me to update every application and secret store that uses this user.",
+        ].join("\n"),
+      ),
+  );
+}
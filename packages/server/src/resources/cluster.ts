@@ -0,0 +1,131 @@
+/**
+ * Cluster and branch resources for TiDB Cloud MCP Server
+ *
+ * Lets clients browse clusters and branches and attach them as context.
+ */
+
+import {
+  ResourceTemplate,
+  type McpServer,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { TiDBCloudClient } from "../api/client.js";
+import { createCloudCompleters } from "../completion.js";
+import { readVariable } from "./variables.js";
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Builds the URI of a cluster resource
+ */
+function clusterUri(clusterId: string): string {
+  return `tidbcloud://clusters/${clusterId}`;
+}
+
+// ============================================================================
+// Resource Registration
+// ============================================================================
+
+/**
+ * Registers cluster and branch resources with the MCP server
+ */
+export function registerClusterResources(
+  server: McpServer,
+  client: TiDBCloudClient,
+): void {
+  const completers = createCloudCompleters(client);
+
+  // ========================================================================
+  // Cluster
+  // ========================================================================
+  server.registerResource(
+    "cluster",
+    new ResourceTemplate("tidbcloud://clusters/{clusterId}", {
+      list: async () => {
+        const { clusters } = await client.listAllClusters();
+        return {
+          resources: clusters.map((cluster) => ({
+            uri: clusterUri(cluster.clusterId),
+            name: cluster.displayName,
+            description: `${cluster.state} cluster in ${cluster.region.displayName}`,
+            mimeType: "application/json",
+          })),
+        };
+      },
+      complete: {
+        clusterId: (value) => completers.cluster(value),
+      },
+    }),
+    {
+      title: "TiDB Cloud Cluster",
+      description:
+        "A TiDB Cloud Serverless cluster, including its state, region and endpoints",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      // Accept a display name as well as an ID
+      const clusterId = await client.resolveClusterId(
+        readVariable(variables, "clusterId"),
+      );
+      const cluster = await client.getCluster(clusterId);
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(cluster, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  // ========================================================================
+  // Branch
+  // ========================================================================
+  server.registerResource(
+    "branch",
+    new ResourceTemplate(
+      "tidbcloud://clusters/{clusterId}/branches/{branchId}",
+      {
+        // Listing every branch takes a request per cluster, so branches
+        // are found through completion under the chosen cluster instead
+        list: undefined,
+        complete: {
+          clusterId: (value) => completers.cluster(value),
+          branchId: (value, context) =>
+            completers.branch(context?.arguments?.clusterId, value),
+        },
+      },
+    ),
+    {
+      title: "TiDB Cloud Branch",
+      description:
+        "A branch of a TiDB Cloud cluster, including its state and endpoints",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      // Accept display names as well as IDs
+      const clusterId = await client.resolveClusterId(
+        readVariable(variables, "clusterId"),
+      );
+      const branchId = await client.resolveBranchId(
+        clusterId,
+        readVariable(variables, "branchId"),
+      );
+      const branch = await client.getBranch(clusterId, branchId);
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(branch, null, 2),
+          },
+        ],
+      };
+    },
+  );
+}
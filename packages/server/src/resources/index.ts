@@ -0,0 +1,7 @@
+/**
+ * Resource registration module
+ */
+
+export { registerClusterResources } from "./cluster.js";
+export { registerRegionResources } from "./region.js";
+export { registerSchemaResources } from "./schema.js";
@@ -0,0 +1,97 @@
+/**
+ * Region resource for TiDB Cloud MCP Server
+ */
+
+import {
+  ResourceTemplate,
+  type McpServer,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { TiDBCloudClient, ResourceNotFoundError } from "../api/client.js";
+import { createCloudCompleters } from "../completion.js";
+import { readVariable } from "./variables.js";
+
+// ============================================================================
+// Resource Registration
+// ============================================================================
+
+/**
+ * Registers region resources with the MCP server
+ */
+export function registerRegionResources(
+  server: McpServer,
+  client: TiDBCloudClient,
+): void {
+  const completers = createCloudCompleters(client);
+
+  // ========================================================================
+  // All Regions
+  // ========================================================================
+  server.registerResource(
+    "regions",
+    "tidbcloud://regions",
+    {
+      title: "TiDB Cloud Regions",
+      description:
+        "Regions available for TiDB Cloud Serverless clusters and their cloud providers",
+      mimeType: "application/json",
+    },
+    async (uri) => {
+      const response = await client.listRegions();
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(response.regions || [], null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  // ========================================================================
+  // Single Region
+  // ========================================================================
+  server.registerResource(
+    "region",
+    new ResourceTemplate("tidbcloud://regions/{region}", {
+      // Individual regions are already enumerated by tidbcloud://regions
+      list: undefined,
+      complete: {
+        region: async (value) =>
+          (await completers.region(`regions/${value}`)).map((name) =>
+            name.replace(/^regions\//, ""),
+          ),
+      },
+    }),
+    {
+      title: "TiDB Cloud Region",
+      description:
+        "A single region, addressed by its name without the 'regions/' prefix (e.g., 'aws-us-east-1')",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const name = `regions/${readVariable(variables, "region")}`;
+      const regions = (await client.listRegions()).regions || [];
+      const region = regions.find((candidate) => candidate.name === name);
+      if (!region) {
+        throw new ResourceNotFoundError(
+          "region",
+          name,
+          regions.map((candidate) => candidate.name),
+        );
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(region, null, 2),
+          },
+        ],
+      };
+    },
+  );
+}
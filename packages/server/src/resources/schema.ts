@@ -0,0 +1,114 @@
+/**
+ * Table schema resources for TiDB Cloud MCP Server
+ *
+ * Exposes the CREATE TABLE statement of each table so it can be attached
+ * as context. Requires a configured database connection.
+ */
+
+import {
+  ResourceTemplate,
+  type McpServer,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createDatabaseCompleters } from "../completion.js";
+import { TiDBDatabase } from "../db/client.js";
+import { showCreateStatement } from "../db/schema.js";
+import type { DatabaseConfig } from "../db/types.js";
+import { readVariable } from "./variables.js";
+
+/**
+ * System databases left out of resource listings
+ */
+const SYSTEM_DATABASES = [
+  "INFORMATION_SCHEMA",
+  "PERFORMANCE_SCHEMA",
+  "METRICS_SCHEMA",
+  "mysql",
+  "sys",
+];
+
+/**
+ * Upper bound on the number of tables returned by a listing
+ */
+const MAX_LISTED_TABLES = 1000;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Builds the URI of a table schema resource
+ */
+function schemaUri(database: string, table: string): string {
+  return `tidbcloud://db/${encodeURIComponent(database)}/${encodeURIComponent(table)}/schema`;
+}
+
+// ============================================================================
+// Resource Registration
+// ============================================================================
+
+/**
+ * Registers table schema resources with the MCP server.
+ * Does nothing when no database connection is configured.
+ */
+export function registerSchemaResources(
+  server: McpServer,
+  config: DatabaseConfig | undefined,
+): void {
+  if (!config) {
+    return;
+  }
+
+  const db = new TiDBDatabase(config);
+  const completers = createDatabaseCompleters(config);
+
+  server.registerResource(
+    "table-schema",
+    new ResourceTemplate("tidbcloud://db/{database}/{table}/schema", {
+      list: async () => {
+        const placeholders = SYSTEM_DATABASES.map(() => "?").join(", ");
+        const result = await db.query(
+          `SELECT TABLE_SCHEMA AS db, TABLE_NAME AS tbl, TABLE_TYPE AS type
+FROM INFORMATION_SCHEMA.TABLES
+WHERE TABLE_SCHEMA NOT IN (${placeholders})
+ORDER BY TABLE_SCHEMA, TABLE_NAME
+LIMIT ${MAX_LISTED_TABLES}`,
+          SYSTEM_DATABASES,
+        );
+
+        return {
+          resources: result.rows.map((row) => ({
+            uri: schemaUri(String(row.db), String(row.tbl)),
+            name: `${row.db}.${row.tbl}`,
+            description: row.type === "VIEW" ? "View definition" : undefined,
+            mimeType: "application/sql",
+          })),
+        };
+      },
+      complete: {
+        database: (value) => completers.database(value),
+        table: (value, context) =>
+          completers.table(context?.arguments?.database, value),
+      },
+    }),
+    {
+      title: "Table Schema",
+      description: "The CREATE TABLE statement of a table in the database",
+      mimeType: "application/sql",
+    },
+    async (uri, variables) => {
+      const database = readVariable(variables, "database");
+      const table = readVariable(variables, "table");
+      const ddl = await showCreateStatement(db, database, table);
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/sql",
+            text: `${ddl};\n`,
+          },
+        ],
+      };
+    },
+  );
+}
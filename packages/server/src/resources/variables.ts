@@ -0,0 +1,13 @@
+/**
+ * URI template helpers shared by resource modules
+ */
+
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+
+/**
+ * Reads a single URI template variable, decoding percent-escapes
+ */
+export function readVariable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
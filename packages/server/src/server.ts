@@ -10,7 +10,21 @@ import {
     registerClusterTools,
     registerRegionTools,
     registerDatabaseTools,
+    registerSchemaTools,
+    registerDiagnosticTools,
+    registerDiffTools,
+    registerMigrationTools,
+    registerBackupTools,
+    registerImportTools,
+    registerExportTools,
+    registerSqlUserTools,
 } from "./tools/index.js";
+import {
+    registerClusterResources,
+    registerRegionResources,
+    registerSchemaResources,
+} from "./resources/index.js";
+import { registerWorkflowPrompts } from "./prompts/index.js";
 
 /**
  * Server version - should match package.json
@@ -42,7 +56,23 @@ export function createServer(config: Config): McpServer {
     registerRegionTools(server, client);
     registerClusterTools(server, client);
     registerBranchTools(server, client);
-    registerDatabaseTools(server, config.database);
+    registerBackupTools(server, client);
+    registerImportTools(server, client, { allowLocalFiles: true });
+    registerExportTools(server, client);
+    registerSqlUserTools(server, client);
+    registerDatabaseTools(server, config.database, config.queryLimits);
+    registerSchemaTools(server, config.database);
+    registerDiagnosticTools(server, config.database);
+    registerDiffTools(server, client, config.database);
+    registerMigrationTools(server, client, config.database);
+
+    // Register resources
+    registerRegionResources(server, client);
+    registerClusterResources(server, client);
+    registerSchemaResources(server, config.database);
+
+    // Register prompts
+    registerWorkflowPrompts(server, client, config.database);
 
     return server;
 }
@@ -0,0 +1,412 @@
+/**
+ * Backup and restore tools for TiDB Cloud MCP Server
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { TiDBCloudClient, formatApiError } from "../api/client.js";
+import type { Backup, RestoreResponse } from "../api/types.js";
+
+// ============================================================================
+// Zod Schemas
+// ============================================================================
+
+const ListBackupsInputSchema = z
+  .object({
+    cluster: z
+      .string()
+      .min(1, "Cluster name or ID is required")
+      .describe(
+        "The cluster name or ID. You can use the display name (e.g., 'my-cluster') or the cluster ID.",
+      ),
+    pageSize: z
+      .number()
+      .min(1)
+      .max(100)
+      .optional()
+      .describe("Number of backups per page (1-100, default 10)"),
+    pageToken: z
+      .string()
+      .optional()
+      .describe("Token for fetching the next page of results"),
+  })
+  .strict();
+
+const GetBackupInputSchema = z
+  .object({
+    backupId: z
+      .string()
+      .min(1, "Backup ID is required")
+      .describe("The backup ID from tidbcloud_list_backups"),
+  })
+  .strict();
+
+const DeleteBackupInputSchema = z
+  .object({
+    backupId: z
+      .string()
+      .min(1, "Backup ID is required")
+      .describe("The ID of the backup to delete"),
+  })
+  .strict();
+
+const RestoreClusterInputSchema = z
+  .object({
+    cluster: z
+      .string()
+      .optional()
+      .describe(
+        "The cluster name or ID to restore from for a point-in-time restore. Required unless backupId is given.",
+      ),
+    restoreTime: z
+      .string()
+      .optional()
+      .describe(
+        "RFC3339 timestamp to restore to (e.g., '2024-01-15T10:30:00Z'). Defaults to the latest restorable time.",
+      ),
+    backupId: z
+      .string()
+      .optional()
+      .describe("Restore from this backup instead of a point in time"),
+  })
+  .strict();
+
+type ListBackupsInput = z.infer<typeof ListBackupsInputSchema>;
+type GetBackupInput = z.infer<typeof GetBackupInputSchema>;
+type DeleteBackupInput = z.infer<typeof DeleteBackupInputSchema>;
+type RestoreClusterInput = z.infer<typeof RestoreClusterInputSchema>;
+
+// ============================================================================
+// Formatting Functions
+// ============================================================================
+
+/**
+ * Formats a single backup into a readable string
+ */
+function formatBackupOutput(backup: Backup, title: string): string {
+  const lines = [
+    `# ${title}`,
+    "",
+    `**Backup ID:** ${backup.backupId}`,
+    `**Cluster ID:** ${backup.clusterId}`,
+    `**Created At:** ${backup.createTime}`,
+  ];
+
+  if (backup.expireTime) {
+    lines.push(`**Expires At:** ${backup.expireTime}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Formats a list of backups into a readable string
+ */
+function formatBackupListOutput(
+  backups: Backup[],
+  clusterId: string,
+  nextPageToken?: string,
+  totalSize?: number,
+): string {
+  if (backups.length === 0) {
+    return `No backups found for cluster ${clusterId}.`;
+  }
+
+  const lines = [
+    `# Backups for Cluster ${clusterId}`,
+    "",
+    `Found ${totalSize ?? backups.length} backup(s).`,
+    "",
+    "| Backup ID | Created At | Expires At |",
+    "|-----------|------------|------------|",
+  ];
+
+  for (const backup of backups) {
+    lines.push(
+      `| ${backup.backupId} | ${backup.createTime} | ${backup.expireTime ?? ""} |`,
+    );
+  }
+
+  if (nextPageToken) {
+    lines.push("");
+    lines.push("---");
+    lines.push(
+      `More backups available. Use pageToken: "${nextPageToken}" to fetch the next page.`,
+    );
+  }
+
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Tool Registration
+// ============================================================================
+
+/**
+ * Registers backup and restore tools with the MCP server
+ */
+export function registerBackupTools(
+  server: McpServer,
+  client: TiDBCloudClient,
+): void {
+  // ========================================================================
+  // List Backups
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_list_backups",
+    {
+      title: "List TiDB Cloud Backups",
+      description: `Lists automated backups of a TiDB Cloud cluster.
+
+Backups are taken daily according to the cluster's automated backup policy
+(see tidbcloud_update_cluster to change the backup time and retention).
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - pageSize (number, optional): Number of backups per page (1-100, default 10)
+  - pageToken (string, optional): Token for fetching the next page
+
+Returns:
+  List of backups with their creation and expiration times.`,
+      inputSchema: ListBackupsInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: ListBackupsInput) => {
+      try {
+        // Resolve cluster name to ID
+        const clusterId = await client.resolveClusterId(params.cluster);
+        const response = await client.listBackups(
+          clusterId,
+          params.pageSize,
+          params.pageToken,
+        );
+        const backups = response.backups || [];
+
+        const textContent = formatBackupListOutput(
+          backups,
+          clusterId,
+          response.nextPageToken,
+          response.totalSize,
+        );
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: {
+            clusterId,
+            backups,
+            nextPageToken: response.nextPageToken,
+            totalSize: response.totalSize,
+          },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // Get Backup
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_get_backup",
+    {
+      title: "Get TiDB Cloud Backup",
+      description: `Gets details of a specific backup.
+
+Args:
+  - backupId (string, required): The backup ID
+
+Returns:
+  Backup details including the source cluster, creation and expiration times.`,
+      inputSchema: GetBackupInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: GetBackupInput) => {
+      try {
+        const backup = await client.getBackup(params.backupId);
+        const textContent = formatBackupOutput(backup, "Backup Details");
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: { ...backup },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // Delete Backup
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_delete_backup",
+    {
+      title: "Delete TiDB Cloud Backup",
+      description: `Deletes a backup.
+
+**WARNING: This action is irreversible!** The cluster can no longer be
+restored from this backup.
+
+Args:
+  - backupId (string, required): The ID of the backup to delete
+
+Returns:
+  Confirmation of deletion.`,
+      inputSchema: DeleteBackupInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params: DeleteBackupInput) => {
+      try {
+        await client.deleteBackup(params.backupId);
+
+        const textContent = [
+          "# Backup Deleted",
+          "",
+          `**Backup ID:** ${params.backupId}`,
+        ].join("\n");
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: {
+            backupId: params.backupId,
+            deleted: true,
+          },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // Restore Cluster
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_restore_cluster",
+    {
+      title: "Restore TiDB Cloud Cluster",
+      description: `Restores a TiDB Cloud cluster to a point in time or from a backup.
+
+Provide either:
+  - cluster (+ optional restoreTime) for a point-in-time restore, or
+  - backupId to restore from an automated backup
+
+This operation is asynchronous. When the data goes into a new cluster, use
+tidbcloud_wait_for_cluster with the returned cluster ID to wait until the
+restore completes. A cluster restored in place may still show ACTIVE before
+the restore starts, so a wait for ACTIVE can return too early.
+
+Args:
+  - cluster (string, optional): The cluster name or ID for a point-in-time restore
+  - restoreTime (string, optional): RFC3339 timestamp to restore to
+  - backupId (string, optional): The backup to restore from
+
+Returns:
+  The ID of the cluster the data is being restored into.`,
+      inputSchema: RestoreClusterInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params: RestoreClusterInput) => {
+      if (Boolean(params.cluster) === Boolean(params.backupId)) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Error: Provide either cluster (point-in-time restore) or backupId, but not both.",
+            },
+          ],
+        };
+      }
+      if (params.backupId && params.restoreTime) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Error: restoreTime only applies to point-in-time restores and cannot be combined with backupId.",
+            },
+          ],
+        };
+      }
+
+      try {
+        let response: RestoreResponse;
+        let sourceClusterId: string;
+        if (params.backupId) {
+          // The backup names the cluster it was taken from
+          sourceClusterId = (await client.getBackup(params.backupId)).clusterId;
+          response = await client.restore({
+            backup: { backupId: params.backupId },
+          });
+        } else {
+          // Resolve cluster name to ID
+          sourceClusterId = await client.resolveClusterId(params.cluster!);
+          response = await client.restore({
+            snapshot: {
+              clusterId: sourceClusterId,
+              restoreTime: params.restoreTime,
+            },
+          });
+        }
+
+        const source = params.backupId
+          ? `backup ${params.backupId}`
+          : `${params.cluster} at ${params.restoreTime ?? "the latest restorable time"}`;
+
+        // A cluster restored in place can still show ACTIVE before the
+        // restore starts, so waiting for ACTIVE would return at once
+        const inPlace = response.clusterId === sourceClusterId;
+        const textContent = [
+          "# Restore Initiated",
+          "",
+          `**Source:** ${source}`,
+          `**Target Cluster ID:** ${response.clusterId}`,
+          "",
+          inPlace
+            ? "> The data is restored into the source cluster, which may still show ACTIVE before the restore starts. Check its state with `tidbcloud_get_cluster` until it leaves ACTIVE, then use `tidbcloud_wait_for_cluster`."
+            : "> Use `tidbcloud_wait_for_cluster` to wait until the restore completes and the cluster is ACTIVE.",
+        ].join("\n");
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: {
+            clusterId: response.clusterId,
+            inPlace,
+            backupId: params.backupId,
+            restoreTime: params.restoreTime,
+          },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+}
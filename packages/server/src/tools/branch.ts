@@ -9,8 +9,14 @@ import {
   formatApiError,
   ResourceNotFoundError,
   AmbiguousResourceError,
+  DEFAULT_LIST_ALL_LIMIT,
 } from "../api/client.js";
-import type { Branch } from "../api/types.js";
+import {
+  BranchState,
+  type Branch,
+  type ListBranchesResponse,
+} from "../api/types.js";
+import { createProgressReporter, type ToolExtra } from "./progress.js";
 
 // ============================================================================
 // Zod Schemas
@@ -34,6 +40,21 @@ const ListBranchesInputSchema = z
       .string()
       .optional()
       .describe("Token for fetching the next page of results"),
+    all: z
+      .boolean()
+      .optional()
+      .describe(
+        "Fetch every page instead of a single one (pageSize and pageToken are ignored)",
+      ),
+    maxResults: z
+      .number()
+      .int()
+      .min(1)
+      .max(10000)
+      .optional()
+      .describe(
+        `Maximum number of branches returned when all is true (default ${DEFAULT_LIST_ALL_LIMIT})`,
+      ),
   })
   .strict();
 
@@ -81,6 +102,12 @@ const CreateBranchInputSchema = z
           "If not specified, uses the current time. " +
           "For free Starter clusters, only the last 24 hours are available.",
       ),
+    waitUntilReady: z
+      .boolean()
+      .optional()
+      .describe(
+        "Wait for the branch to become ACTIVE before returning (up to 10 minutes)",
+      ),
   })
   .strict();
 
@@ -101,10 +128,77 @@ const DeleteBranchInputSchema = z
   })
   .strict();
 
+const ResetBranchInputSchema = z
+  .object({
+    cluster: z
+      .string()
+      .min(1, "Cluster name or ID is required")
+      .describe(
+        "The cluster name or ID. You can use either the display name (e.g., 'my-cluster') or the cluster ID.",
+      ),
+    branch: z
+      .string()
+      .min(1, "Branch name or ID is required")
+      .describe(
+        "The branch name or ID to reset. You can use either the display name (e.g., 'dev-branch') or the branch ID.",
+      ),
+    waitUntilReady: z
+      .boolean()
+      .optional()
+      .describe(
+        "Wait for the branch to become ACTIVE again before returning (up to 10 minutes)",
+      ),
+  })
+  .strict();
+
+const WaitForBranchInputSchema = z
+  .object({
+    cluster: z
+      .string()
+      .min(1, "Cluster name or ID is required")
+      .describe(
+        "The cluster name or ID. You can use either the display name (e.g., 'my-cluster') or the cluster ID.",
+      ),
+    branch: z
+      .string()
+      .min(1, "Branch name or ID is required")
+      .describe(
+        "The branch name or ID to wait for. You can use either the display name (e.g., 'dev-branch') or the branch ID.",
+      ),
+    targetState: z
+      .nativeEnum(BranchState)
+      .optional()
+      .default(BranchState.ACTIVE)
+      .describe("The state to wait for (default: ACTIVE)"),
+    timeoutSeconds: z
+      .number()
+      .int()
+      .min(1)
+      .max(1800)
+      .optional()
+      .default(600)
+      .describe("Maximum time to wait in seconds (1-1800, default 600)"),
+    afterReset: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        "The branch was just reset: wait for the reset to start before waiting for ACTIVE, since the branch can still show ACTIVE right after the request",
+      ),
+  })
+  .strict();
+
 type ListBranchesInput = z.infer<typeof ListBranchesInputSchema>;
 type GetBranchInput = z.infer<typeof GetBranchInputSchema>;
 type CreateBranchInput = z.infer<typeof CreateBranchInputSchema>;
 type DeleteBranchInput = z.infer<typeof DeleteBranchInputSchema>;
+type WaitForBranchInput = z.infer<typeof WaitForBranchInputSchema>;
+type ResetBranchInput = z.infer<typeof ResetBranchInputSchema>;
+
+/**
+ * Default time to wait when a create tool is called with waitUntilReady
+ */
+const WAIT_UNTIL_READY_TIMEOUT_MS = 10 * 60 * 1000;
 
 // ============================================================================
 // Formatting Functions
@@ -125,6 +219,10 @@ function formatBranchOutput(branch: Branch, title: string): string {
     `**Created At:** ${branch.createdAt}`,
   ];
 
+  if (branch.userPrefix) {
+    lines.push(`**User Prefix:** ${branch.userPrefix}`);
+  }
+
   if (branch.endpoints?.public) {
     lines.push("");
     lines.push("## Connection Details (Public Endpoint)");
@@ -147,6 +245,7 @@ function formatBranchListOutput(
   branches: Branch[],
   clusterId: string,
   nextPageToken?: string,
+  truncated?: boolean,
 ): string {
   if (branches.length === 0) {
     return `No branches found for cluster ${clusterId}.`;
@@ -178,6 +277,13 @@ function formatBranchListOutput(
     );
   }
 
+  if (truncated) {
+    lines.push("---");
+    lines.push(
+      `Stopped after ${branches.length} branches. Increase maxResults to fetch more.`,
+    );
+  }
+
   return lines.join("\n");
 }
 
@@ -203,11 +309,14 @@ export function registerBranchTools(
 
 Returns a list of branches with their basic information including
 branch ID, display name, state, and connection details.
+Set all=true to follow pagination and return every branch in one call.
 
 Args:
   - cluster (string, required): The cluster name or ID
   - pageSize (number, optional): Number of branches per page (1-100, default 10)
   - pageToken (string, optional): Token for fetching the next page
+  - all (boolean, optional): Fetch every page (ignores pageSize/pageToken)
+  - maxResults (number, optional): Cap on branches returned when all=true (default ${DEFAULT_LIST_ALL_LIMIT})
 
 Returns:
   List of branches with their details.`,
@@ -224,11 +333,28 @@ Returns:
         // Resolve cluster name to ID if needed
         const clusterId = await client.resolveClusterId(params.cluster);
 
-        const response = await client.listBranches(clusterId);
+        let response: ListBranchesResponse;
+        let truncated = false;
+        if (params.all) {
+          const result = await client.listAllBranches(
+            clusterId,
+            params.maxResults,
+          );
+          response = { branches: result.branches };
+          truncated = result.truncated;
+        } else {
+          response = await client.listBranches(
+            clusterId,
+            params.pageSize,
+            params.pageToken,
+          );
+        }
 
         const textContent = formatBranchListOutput(
           response.branches || [],
           clusterId,
+          response.nextPageToken,
+          truncated,
         );
 
         return {
@@ -242,6 +368,8 @@ Returns:
               parentId: b.parentId,
               endpoints: b.endpoints,
             })),
+            nextPageToken: response.nextPageToken,
+            truncated,
           },
         };
       } catch (error) {
@@ -338,6 +466,7 @@ Args:
   - displayName (string, required): Display name for the new branch (max 64 characters)
   - parentId (string, optional): Parent branch ID. Defaults to the main cluster
   - parentTimestamp (string, optional): RFC3339 timestamp for point-in-time branching
+  - waitUntilReady (boolean, optional): Wait until the branch is ACTIVE before returning
 
 Returns:
   Branch details including branchId, state, and connection information.
@@ -359,26 +488,256 @@ Examples:
         openWorldHint: true,
       },
     },
-    async (params: CreateBranchInput) => {
+    async (params: CreateBranchInput, extra: ToolExtra) => {
       try {
         // Resolve cluster name to ID if needed
         const clusterId = await client.resolveClusterId(params.cluster);
 
-        const branch = await client.createBranch(clusterId, {
+        let branch = await client.createBranch(clusterId, {
           displayName: params.displayName,
           parentId: params.parentId,
           parentTimestamp: params.parentTimestamp,
         });
 
-        let textContent = formatBranchOutput(
+        let waitError: string | undefined;
+        if (params.waitUntilReady) {
+          const report = createProgressReporter(
+            extra,
+            WAIT_UNTIL_READY_TIMEOUT_MS,
+          );
+          try {
+            branch = await client.waitForBranchState(
+              clusterId,
+              branch.branchId,
+              BranchState.ACTIVE,
+              {
+                timeoutMs: WAIT_UNTIL_READY_TIMEOUT_MS,
+                signal: extra.signal,
+                onPoll: (state, elapsedMs) =>
+                  report(`Branch is ${state}`, elapsedMs),
+              },
+            );
+          } catch (error) {
+            waitError = formatApiError(error);
+          }
+        }
+
+        let textContent: string;
+        if (branch.state === BranchState.ACTIVE) {
+          textContent = formatBranchOutput(branch, "Branch Created");
+        } else {
+          textContent = formatBranchOutput(branch, "Branch Creation Initiated");
+          textContent += "\n\n";
+          textContent +=
+            "> **Note:** The branch is being created. This typically takes 1-2 minutes.\n";
+          textContent +=
+            "> Use `tidbcloud_wait_for_branch` to wait until the state changes from CREATING to ACTIVE.";
+        }
+        if (waitError) {
+          textContent += `\n\n> **Wait failed:** ${waitError}`;
+        }
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: {
+            branchId: branch.branchId,
+            clusterId: branch.clusterId,
+            displayName: branch.displayName,
+            state: branch.state,
+            parentId: branch.parentId,
+            createdAt: branch.createdAt,
+            endpoints: branch.endpoints,
+          },
+        };
+      } catch (error) {
+        if (
+          error instanceof ResourceNotFoundError ||
+          error instanceof AmbiguousResourceError
+        ) {
+          return {
+            content: [{ type: "text", text: error.message }],
+          };
+        }
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // Wait For Branch
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_wait_for_branch",
+    {
+      title: "Wait For TiDB Cloud Branch",
+      description: `Waits until a branch reaches a target state.
+
+Polls the branch with backoff until it reaches the target state (ACTIVE by
+default), is deleted, or the timeout elapses. Sends MCP progress notifications
+while waiting if the client requests them.
+
+Use this after tidbcloud_create_branch instead of repeatedly calling
+tidbcloud_get_branch. After tidbcloud_reset_branch, pass afterReset: true;
+otherwise the wait can return before the reset has started.
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - branch (string, required): The branch name or ID
+  - targetState (string, optional): CREATING, ACTIVE, DELETED, MAINTENANCE, RESTORING or RESETTING (default ACTIVE)
+  - timeoutSeconds (number, optional): Maximum time to wait (1-1800, default 600)
+  - afterReset (boolean, optional): Wait for a reset that was just requested to finish (targetState must be ACTIVE)
+
+Returns:
+  Branch details once the target state is reached, or an error describing
+  the last observed state.`,
+      inputSchema: WaitForBranchInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: WaitForBranchInput, extra: ToolExtra) => {
+      try {
+        // Resolve cluster and branch names to IDs if needed
+        const clusterId = await client.resolveClusterId(params.cluster);
+        const branchId = await client.resolveBranchId(clusterId, params.branch);
+        if (params.afterReset && params.targetState !== BranchState.ACTIVE) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Error: afterReset waits for the branch to become ACTIVE; it can't be combined with another targetState.",
+              },
+            ],
+          };
+        }
+        const timeoutMs = params.timeoutSeconds * 1000;
+        const report = createProgressReporter(extra, timeoutMs);
+        const options = {
+          timeoutMs,
+          signal: extra.signal,
+          onPoll: (state: string, elapsedMs: number) =>
+            report(`Branch is ${state}`, elapsedMs),
+        };
+
+        const branch = params.afterReset
+          ? await client.waitForBranchReset(clusterId, branchId, options)
+          : await client.waitForBranchState(
+              clusterId,
+              branchId,
+              params.targetState,
+              options,
+            );
+
+        const textContent = formatBranchOutput(
           branch,
-          "Branch Creation Initiated",
+          `Branch Is ${branch.state}`,
         );
-        textContent += "\n\n";
-        textContent +=
-          "> **Note:** The branch is being created. This typically takes 1-2 minutes.\n";
-        textContent +=
-          "> Use `tidbcloud_get_branch` to check when state changes from CREATING to ACTIVE.";
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: { ...branch },
+        };
+      } catch (error) {
+        if (
+          error instanceof ResourceNotFoundError ||
+          error instanceof AmbiguousResourceError
+        ) {
+          return {
+            content: [{ type: "text", text: error.message }],
+          };
+        }
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // Reset Branch
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_reset_branch",
+    {
+      title: "Reset TiDB Cloud Branch",
+      description: `Resets a branch to the latest data of its parent.
+
+**WARNING: All changes made on the branch are discarded!** The schema and data
+of the branch are replaced by the current schema and data of its parent.
+
+Unlike deleting and recreating the branch, resetting keeps the branch ID and
+connection endpoint, so applications pointing at the branch keep working.
+
+This operation is asynchronous. The branch will be in RESETTING state and
+will return to ACTIVE state once the reset is complete. Right after the
+request the branch may still show ACTIVE before it enters RESETTING.
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - branch (string, required): The branch name or ID to reset
+  - waitUntilReady (boolean, optional): Wait until the branch is ACTIVE again before returning
+
+Returns:
+  Branch details including state and connection information.`,
+      inputSchema: ResetBranchInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params: ResetBranchInput, extra: ToolExtra) => {
+      try {
+        // Resolve cluster and branch names to IDs if needed
+        const clusterId = await client.resolveClusterId(params.cluster);
+        const branchId = await client.resolveBranchId(clusterId, params.branch);
+
+        let branch = await client.resetBranch(clusterId, branchId);
+
+        // The reset response can still say ACTIVE, so its state is not
+        // trusted; only a completed wait reports the reset as done
+        let reset = false;
+        let waitError: string | undefined;
+        if (params.waitUntilReady) {
+          const report = createProgressReporter(
+            extra,
+            WAIT_UNTIL_READY_TIMEOUT_MS,
+          );
+          try {
+            branch = await client.waitForBranchReset(clusterId, branchId, {
+              timeoutMs: WAIT_UNTIL_READY_TIMEOUT_MS,
+              signal: extra.signal,
+              onPoll: (state, elapsedMs) =>
+                report(`Branch is ${state}`, elapsedMs),
+            });
+            reset = true;
+          } catch (error) {
+            waitError = formatApiError(error);
+          }
+        }
+
+        let textContent: string;
+        if (reset) {
+          textContent = formatBranchOutput(branch, "Branch Reset");
+        } else {
+          textContent = formatBranchOutput(branch, "Branch Reset Initiated");
+          textContent += "\n\n";
+          textContent +=
+            "> **Note:** The branch is being reset to the latest data of its parent.\n";
+          textContent +=
+            "> It may still show ACTIVE for a moment before it enters RESETTING.\n";
+          textContent +=
+            "> Use `tidbcloud_wait_for_branch` with `afterReset: true` to wait until the reset is complete.";
+        }
+        if (waitError) {
+          textContent += `\n\n> **Wait failed:** ${waitError}`;
+        }
 
         return {
           content: [{ type: "text", text: textContent }],
@@ -388,7 +747,6 @@ Examples:
             displayName: branch.displayName,
             state: branch.state,
             parentId: branch.parentId,
-            createdAt: branch.createdAt,
             endpoints: branch.endpoints,
           },
         };
@@ -4,8 +4,18 @@
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { TiDBCloudClient, formatApiError } from "../api/client.js";
-import type { Cluster } from "../api/types.js";
+import {
+  TiDBCloudClient,
+  formatApiError,
+  DEFAULT_LIST_ALL_LIMIT,
+} from "../api/client.js";
+import {
+  ClusterState,
+  type AutomatedBackupPolicy,
+  type Cluster,
+  type ListClustersResponse,
+} from "../api/types.js";
+import { createProgressReporter, type ToolExtra } from "./progress.js";
 
 // ============================================================================
 // Zod Schemas
@@ -23,6 +33,21 @@ const ListClustersInputSchema = z
       .string()
       .optional()
       .describe("Token for fetching the next page of results"),
+    all: z
+      .boolean()
+      .optional()
+      .describe(
+        "Fetch every page instead of a single one (pageSize and pageToken are ignored)",
+      ),
+    maxResults: z
+      .number()
+      .int()
+      .min(1)
+      .max(10000)
+      .optional()
+      .describe(
+        `Maximum number of clusters returned when all is true (default ${DEFAULT_LIST_ALL_LIMIT})`,
+      ),
   })
   .strict();
 
@@ -65,6 +90,12 @@ const CreateClusterInputSchema = z
       .record(z.string())
       .optional()
       .describe("Key-value labels for the cluster"),
+    waitUntilReady: z
+      .boolean()
+      .optional()
+      .describe(
+        "Wait for the cluster to become ACTIVE before returning (up to 10 minutes)",
+      ),
   })
   .strict();
 
@@ -90,6 +121,18 @@ const UpdateClusterInputSchema = z
       .record(z.string())
       .optional()
       .describe("Key-value labels for the cluster"),
+    backupStartTime: z
+      .string()
+      .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM in UTC, e.g. '03:00'")
+      .optional()
+      .describe("Daily automated backup start time in UTC (HH:MM)"),
+    backupRetentionDays: z
+      .number()
+      .int()
+      .min(1)
+      .max(30)
+      .optional()
+      .describe("Number of days to keep automated backups"),
   })
   .strict();
 
@@ -104,11 +147,41 @@ const DeleteClusterInputSchema = z
   })
   .strict();
 
+const WaitForClusterInputSchema = z
+  .object({
+    cluster: z
+      .string()
+      .min(1, "Cluster name or ID is required")
+      .describe(
+        "The cluster name or ID to wait for. You can use the display name (e.g., 'my-cluster') or the cluster ID.",
+      ),
+    targetState: z
+      .nativeEnum(ClusterState)
+      .optional()
+      .default(ClusterState.ACTIVE)
+      .describe("The state to wait for (default: ACTIVE)"),
+    timeoutSeconds: z
+      .number()
+      .int()
+      .min(1)
+      .max(1800)
+      .optional()
+      .default(600)
+      .describe("Maximum time to wait in seconds (1-1800, default 600)"),
+  })
+  .strict();
+
 type ListClustersInput = z.infer<typeof ListClustersInputSchema>;
 type GetClusterInput = z.infer<typeof GetClusterInputSchema>;
 type CreateClusterInput = z.infer<typeof CreateClusterInputSchema>;
 type UpdateClusterInput = z.infer<typeof UpdateClusterInputSchema>;
 type DeleteClusterInput = z.infer<typeof DeleteClusterInputSchema>;
+type WaitForClusterInput = z.infer<typeof WaitForClusterInputSchema>;
+
+/**
+ * Default time to wait when a create tool is called with waitUntilReady
+ */
+const WAIT_UNTIL_READY_TIMEOUT_MS = 10 * 60 * 1000;
 
 // ============================================================================
 // Formatting Functions
@@ -146,6 +219,12 @@ function formatClusterOutput(cluster: Cluster, title: string): string {
     }
   }
 
+  if (cluster.automatedBackupPolicy) {
+    lines.push(
+      `**Automated Backups:** daily at ${cluster.automatedBackupPolicy.startTime} UTC, kept ${cluster.automatedBackupPolicy.retentionDays} day(s)`,
+    );
+  }
+
   if (cluster.usage) {
     lines.push("");
     lines.push("## Usage");
@@ -181,6 +260,7 @@ function formatClusterListOutput(
   clusters: Cluster[],
   nextPageToken?: string,
   totalSize?: number,
+  truncated?: boolean,
 ): string {
   if (clusters.length === 0) {
     return "No clusters found.";
@@ -214,6 +294,13 @@ function formatClusterListOutput(
     );
   }
 
+  if (truncated) {
+    lines.push("---");
+    lines.push(
+      `Stopped after ${clusters.length} clusters. Increase maxResults to fetch more.`,
+    );
+  }
+
   return lines.join("\n");
 }
 
@@ -239,10 +326,13 @@ export function registerClusterTools(
 
 Returns a paginated list of clusters with their basic information including
 cluster ID, display name, state, region, and connection details.
+Set all=true to follow pagination and return every cluster in one call.
 
 Args:
   - pageSize (number, optional): Number of clusters per page (1-100, default 10)
   - pageToken (string, optional): Token for fetching the next page
+  - all (boolean, optional): Fetch every page (ignores pageSize/pageToken)
+  - maxResults (number, optional): Cap on clusters returned when all=true (default ${DEFAULT_LIST_ALL_LIMIT})
 
 Returns:
   List of clusters with their details and pagination info.`,
@@ -256,15 +346,24 @@ Returns:
     },
     async (params: ListClustersInput) => {
       try {
-        const response = await client.listClusters(
-          params.pageSize,
-          params.pageToken,
-        );
+        let response: ListClustersResponse;
+        let truncated = false;
+        if (params.all) {
+          const result = await client.listAllClusters(params.maxResults);
+          response = { clusters: result.clusters };
+          truncated = result.truncated;
+        } else {
+          response = await client.listClusters(
+            params.pageSize,
+            params.pageToken,
+          );
+        }
 
         const textContent = formatClusterListOutput(
           response.clusters,
           response.nextPageToken,
           response.totalSize,
+          truncated,
         );
 
         return {
@@ -279,6 +378,7 @@ Returns:
             })),
             nextPageToken: response.nextPageToken,
             totalSize: response.totalSize,
+            truncated,
           },
         };
       } catch (error) {
@@ -353,10 +453,11 @@ Args:
   - rootPassword (string, optional): Root password. Auto-generated if not provided
   - spendingLimitMonthly (number, optional): Monthly spending limit in USD
   - labels (object, optional): Key-value labels for the cluster
+  - waitUntilReady (boolean, optional): Wait until the cluster is ACTIVE before returning
 
 Returns:
-  Created cluster details with CREATING state. Use tidbcloud_get_cluster to
-  check when it becomes ACTIVE.`,
+  Created cluster details with CREATING state. Use tidbcloud_wait_for_cluster
+  (or waitUntilReady) to wait until it becomes ACTIVE.`,
       inputSchema: CreateClusterInputSchema,
       annotations: {
         readOnlyHint: false,
@@ -365,7 +466,7 @@ Returns:
         openWorldHint: true,
       },
     },
-    async (params: CreateClusterInput) => {
+    async (params: CreateClusterInput, extra: ToolExtra) => {
       try {
         const cluster = await client.createCluster({
           displayName: params.displayName,
@@ -377,6 +478,42 @@ Returns:
           labels: params.labels,
         });
 
+        let waitError: string | undefined;
+        if (params.waitUntilReady) {
+          const report = createProgressReporter(
+            extra,
+            WAIT_UNTIL_READY_TIMEOUT_MS,
+          );
+          try {
+            const ready = await client.waitForClusterState(
+              cluster.clusterId,
+              ClusterState.ACTIVE,
+              {
+                timeoutMs: WAIT_UNTIL_READY_TIMEOUT_MS,
+                signal: extra.signal,
+                onPoll: (state, elapsedMs) =>
+                  report(`Cluster is ${state}`, elapsedMs),
+              },
+            );
+            // The root password is only returned by the create call
+            const textContent = formatClusterOutput(
+              { ...ready, rootPassword: cluster.rootPassword },
+              "Cluster Created",
+            );
+
+            return {
+              content: [{ type: "text", text: textContent }],
+              structuredContent: {
+                ...ready,
+                rootPassword: cluster.rootPassword,
+              },
+            };
+          } catch (error) {
+            // Still report the created cluster so the password is not lost
+            waitError = formatApiError(error);
+          }
+        }
+
         let textContent = formatClusterOutput(
           cluster,
           "Cluster Creation Initiated",
@@ -385,7 +522,77 @@ Returns:
         textContent +=
           "> **Note:** The cluster is being created. This typically takes 1-2 minutes.\n";
         textContent +=
-          "> Use `tidbcloud_get_cluster` to check when state changes from CREATING to ACTIVE.";
+          "> Use `tidbcloud_wait_for_cluster` to wait until the state changes from CREATING to ACTIVE.";
+        if (waitError) {
+          textContent += `\n\n> **Wait failed:** ${waitError}`;
+        }
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: { ...cluster },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // Wait For Cluster
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_wait_for_cluster",
+    {
+      title: "Wait For TiDB Cloud Cluster",
+      description: `Waits until a TiDB Cloud cluster reaches a target state.
+
+Polls the cluster with backoff until it reaches the target state (ACTIVE by
+default), enters a state it cannot recover from, or the timeout elapses.
+Sends MCP progress notifications while waiting if the client requests them.
+
+Use this after tidbcloud_create_cluster instead of repeatedly calling
+tidbcloud_get_cluster.
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - targetState (string, optional): CREATING, ACTIVE, PAUSED, RESUMING, MODIFYING or DELETING (default ACTIVE)
+  - timeoutSeconds (number, optional): Maximum time to wait (1-1800, default 600)
+
+Returns:
+  Cluster details once the target state is reached, or an error describing
+  the last observed state.`,
+      inputSchema: WaitForClusterInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: WaitForClusterInput, extra: ToolExtra) => {
+      try {
+        // Resolve cluster name to ID
+        const clusterId = await client.resolveClusterId(params.cluster);
+        const timeoutMs = params.timeoutSeconds * 1000;
+        const report = createProgressReporter(extra, timeoutMs);
+
+        const cluster = await client.waitForClusterState(
+          clusterId,
+          params.targetState,
+          {
+            timeoutMs,
+            signal: extra.signal,
+            onPoll: (state, elapsedMs) =>
+              report(`Cluster is ${state}`, elapsedMs),
+          },
+        );
+
+        const textContent = formatClusterOutput(
+          cluster,
+          `Cluster Is ${cluster.state}`,
+        );
 
         return {
           content: [{ type: "text", text: textContent }],
@@ -408,13 +615,16 @@ Returns:
       title: "Update TiDB Cloud Cluster",
       description: `Updates an existing TiDB Cloud cluster's configuration.
 
-You can update the display name, spending limit, and labels.
+You can update the display name, spending limit, labels, and automated
+backup policy.
 
 Args:
   - cluster (string, required): The cluster name or ID to update
   - displayName (string, optional): New display name (max 64 chars)
   - spendingLimitMonthly (number, optional): Monthly spending limit in USD
   - labels (object, optional): Key-value labels for the cluster
+  - backupStartTime (string, optional): Daily backup start time in UTC (HH:MM)
+  - backupRetentionDays (number, optional): Days to keep automated backups
 
 Returns:
   Updated cluster details.`,
@@ -430,11 +640,28 @@ Returns:
       try {
         // Resolve cluster name to ID
         const clusterId = await client.resolveClusterId(params.cluster);
+
+        // The API replaces the whole policy, so fill in the unchanged half
+        let automatedBackupPolicy: AutomatedBackupPolicy | undefined;
+        if (
+          params.backupStartTime !== undefined ||
+          params.backupRetentionDays !== undefined
+        ) {
+          const current = (await client.getCluster(clusterId))
+            .automatedBackupPolicy;
+          automatedBackupPolicy = {
+            startTime: params.backupStartTime ?? current?.startTime ?? "00:00",
+            retentionDays:
+              params.backupRetentionDays ?? current?.retentionDays ?? 7,
+          };
+        }
+
         const cluster = await client.updateCluster(clusterId, {
           displayName: params.displayName,
           spendingLimit: params.spendingLimitMonthly
             ? { monthly: params.spendingLimitMonthly }
             : undefined,
+          automatedBackupPolicy,
           labels: params.labels,
         });
 
@@ -0,0 +1,242 @@
+/**
+ * Database connection handling shared by the database tools
+ */
+
+import { z } from "zod";
+import {
+    AmbiguousResourceError,
+    ResourceNotFoundError,
+    TiDBCloudApiError,
+    formatApiError,
+    type TiDBCloudClient,
+} from "../api/client.js";
+import {
+    TiDBDatabase,
+    TiDBDatabaseError,
+    formatDatabaseError,
+} from "../db/client.js";
+import type { DatabaseConfig } from "../db/types.js";
+
+// ============================================================================
+// Zod Schemas for Connection Override
+// ============================================================================
+
+export const ConnectionOverrideSchema = z.object({
+    host: z
+        .string()
+        .optional()
+        .describe("Database host (overrides environment variable)"),
+    username: z
+        .string()
+        .optional()
+        .describe("Database username (overrides environment variable)"),
+    password: z
+        .string()
+        .optional()
+        .describe("Database password (overrides environment variable)"),
+});
+
+/**
+ * A database to connect to, given as a cluster or branch of TiDB Cloud or
+ * as a host
+ */
+export const EndpointSchema = z
+    .object({
+        cluster: z
+            .string()
+            .optional()
+            .describe("Cluster name or ID; connects to its public endpoint"),
+        branch: z
+            .string()
+            .optional()
+            .describe(
+                "Branch name or ID of the cluster; connects to the branch instead",
+            ),
+        host: z
+            .string()
+            .optional()
+            .describe("Database host, instead of cluster and branch"),
+        username: z
+            .string()
+            .optional()
+            .describe("Database username for this endpoint"),
+        password: z
+            .string()
+            .optional()
+            .describe("Database password for this endpoint"),
+        database: z
+            .string()
+            .optional()
+            .describe("Database on this endpoint, if it has another name"),
+    })
+    .strict();
+
+export type Endpoint = z.infer<typeof EndpointSchema>;
+
+/**
+ * An endpoint connected to, with the database to work in on it
+ */
+export interface ConnectedEndpoint {
+    db: TiDBDatabase;
+    label: string;
+    database: string;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Resolves database configuration from defaults and overrides
+ */
+export function resolveConfig(
+    defaultConfig: DatabaseConfig | undefined,
+    overrides: { host?: string; username?: string; password?: string },
+): DatabaseConfig {
+    const host = overrides.host ?? defaultConfig?.host;
+    const username = overrides.username ?? defaultConfig?.username;
+    const password = overrides.password ?? defaultConfig?.password;
+
+    if (!host || !username || !password) {
+        throw new TiDBDatabaseError(
+            "Database connection not configured. " +
+                "The user has two options: " +
+                "(1) Provide host, username, and password in this conversation, or " +
+                "(2) Configure credentials in Claude Desktop config using mcp-remote --header flags " +
+                "(recommended for persistent setup - credentials stay local, never stored on server). " +
+                "Use tidbcloud_get_cluster to retrieve the host and port for the cluster.",
+        );
+    }
+
+    return {
+        host,
+        username,
+        password,
+        database: defaultConfig?.database,
+    };
+}
+
+/**
+ * Applies the user prefix of a TiDB Cloud cluster or branch to a username.
+ * Branches have their own prefix, so "parent.root" becomes "branch.root".
+ */
+function withUserPrefix(username: string, prefix: string): string {
+    const dot = username.indexOf(".");
+    return `${prefix}.${dot === -1 ? username : username.slice(dot + 1)}`;
+}
+
+/**
+ * Resolves an endpoint to database configuration. Clusters and branches are
+ * looked up through the API for their public host and user prefix; missing
+ * credentials fall back to the shared overrides, then to the defaults.
+ * @param client - TiDB Cloud API client
+ * @param defaultConfig - Configured database connection
+ * @param endpoint - The endpoint to resolve
+ * @param overrides - Credentials shared by all endpoints of the call
+ * @returns The configuration and a label naming the endpoint
+ */
+export async function resolveEndpoint(
+    client: TiDBCloudClient,
+    defaultConfig: DatabaseConfig | undefined,
+    endpoint: Endpoint,
+    overrides: { username?: string; password?: string },
+): Promise<{ config: DatabaseConfig; label: string }> {
+    if (endpoint.branch && !endpoint.cluster) {
+        throw new TiDBDatabaseError(
+            "A branch endpoint also needs the cluster it belongs to.",
+        );
+    }
+
+    let host = endpoint.host;
+    let userPrefix: string | undefined;
+    let label = endpoint.host ?? "";
+    if (!host && endpoint.cluster) {
+        const clusterId = await client.resolveClusterId(endpoint.cluster);
+        if (endpoint.branch) {
+            const branchId = await client.resolveBranchId(
+                clusterId,
+                endpoint.branch,
+            );
+            const branch = await client.getBranch(clusterId, branchId);
+            host = branch.endpoints?.public?.host;
+            userPrefix = branch.userPrefix;
+            label = `branch ${branch.displayName} of cluster ${clusterId}`;
+        } else {
+            const cluster = await client.getCluster(clusterId);
+            if (cluster.endpoints?.public?.disabled) {
+                throw new TiDBDatabaseError(
+                    `The public endpoint of cluster ${cluster.displayName} is disabled.`,
+                );
+            }
+            host = cluster.endpoints?.public?.host;
+            userPrefix = cluster.userPrefix;
+            label = `cluster ${cluster.displayName}`;
+        }
+        if (!host) {
+            throw new TiDBDatabaseError(
+                `No public endpoint found for ${label}. It may still be creating; check its state with tidbcloud_get_cluster or tidbcloud_get_branch.`,
+            );
+        }
+    }
+
+    const username = overrides.username ?? defaultConfig?.username;
+    const config = resolveConfig(defaultConfig, {
+        host,
+        // A username given for this endpoint is used as is
+        username:
+            endpoint.username ??
+            (username && userPrefix
+                ? withUserPrefix(username, userPrefix)
+                : username),
+        password: endpoint.password ?? overrides.password,
+    });
+    return { config, label: label || config.host };
+}
+
+/**
+ * Connects to an endpoint. The database is the one given for the endpoint,
+ * then the shared one, then the configured default.
+ * @param client - TiDB Cloud API client
+ * @param defaultConfig - Configured database connection
+ * @param endpoint - The endpoint to connect to
+ * @param shared - Credentials and database shared by all endpoints of the call
+ * @returns The connection, a label naming the endpoint and the database
+ */
+export async function connectEndpoint(
+    client: TiDBCloudClient,
+    defaultConfig: DatabaseConfig | undefined,
+    endpoint: Endpoint,
+    shared: { username?: string; password?: string; database?: string },
+): Promise<ConnectedEndpoint> {
+    const { config, label } = await resolveEndpoint(
+        client,
+        defaultConfig,
+        endpoint,
+        shared,
+    );
+    const database =
+        endpoint.database ?? shared.database ?? defaultConfig?.database;
+    if (!database) {
+        throw new TiDBDatabaseError(
+            "No database given and no default database configured. Pass the database parameter.",
+        );
+    }
+    return { db: new TiDBDatabase(config), label, database };
+}
+
+/**
+ * Formats errors from resolving or using an endpoint, which come from either
+ * the TiDB Cloud API or the database
+ */
+export function formatEndpointError(error: unknown): string {
+    if (
+        error instanceof ResourceNotFoundError ||
+        error instanceof AmbiguousResourceError
+    ) {
+        return error.message;
+    }
+    if (error instanceof TiDBCloudApiError) {
+        return formatApiError(error);
+    }
+    return formatDatabaseError(error);
+}
@@ -7,29 +7,77 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import {
     TiDBDatabase,
     TiDBDatabaseError,
-    isReadOnlyQuery,
+    DEFAULT_QUERY_LIMITS,
     formatDatabaseError,
 } from "../db/client.js";
-import type { DatabaseConfig } from "../db/types.js";
+import {
+    applyRowLimit,
+    bindParameters,
+    classifySql,
+    formatStatementCategory,
+} from "../db/sql.js";
+import { PREVIEW_SAMPLE_ROWS, previewImpact } from "../db/preview.js";
+import { ConnectionOverrideSchema, resolveConfig } from "./connection.js";
+import {
+    formatByteSize,
+    formatQueryResultsAsTable,
+    summarizeStatement,
+} from "./format.js";
+import type {
+    ClassifiedStatement,
+    DatabaseConfig,
+    ImpactPreview,
+    QueryLimits,
+    SqlParameters,
+    SqlValue,
+} from "../db/types.js";
 
 // ============================================================================
-// Zod Schemas for Connection Override
+// Zod Schemas for Query Parameters
 // ============================================================================
 
-const ConnectionOverrideSchema = z.object({
-    host: z
-        .string()
-        .optional()
-        .describe("Database host (overrides environment variable)"),
-    username: z
-        .string()
-        .optional()
-        .describe("Database username (overrides environment variable)"),
-    password: z
-        .string()
-        .optional()
-        .describe("Database password (overrides environment variable)"),
-});
+const SqlValueSchema = z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.null(),
+    z
+        .object({
+            type: z.literal("date"),
+            value: z
+                .string()
+                .describe(
+                    "ISO 8601 date or timestamp, e.g. '2024-01-15T10:30:00Z'",
+                ),
+        })
+        .strict(),
+    z
+        .object({
+            type: z.literal("binary"),
+            base64: z.string().describe("Base64-encoded bytes"),
+        })
+        .strict(),
+    z
+        .object({
+            type: z.literal("decimal"),
+            value: z
+                .string()
+                .regex(/^-?\d+(\.\d+)?$/, "Must be a decimal number")
+                .describe(
+                    "Exact numeric value, for integers beyond 2^53 or decimals",
+                ),
+        })
+        .strict(),
+]);
+
+const SqlParametersSchema = z
+    .union([z.array(SqlValueSchema), z.record(SqlValueSchema)])
+    .describe(
+        "Values for ? placeholders (array) or :name placeholders (object). " +
+            "Plain JSON values bind as strings, numbers, booleans and NULL; use " +
+            '{"type":"date","value":...}, {"type":"binary","base64":...} or ' +
+            '{"type":"decimal","value":...} for other types.',
+    );
 
 // ============================================================================
 // Tool Input Schemas
@@ -51,13 +99,63 @@ const DbQueryInputSchema = ConnectionOverrideSchema.extend({
         .describe(
             "The read-only SQL query to execute (SELECT, SHOW, DESCRIBE, EXPLAIN)",
         ),
+    parameters: SqlParametersSchema.optional(),
     database: z.string().optional().describe("Database to use for the query"),
+    maxRows: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe(
+            "Rows to return in this page (capped by the server's configured maximum)",
+        ),
+    offset: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe(
+            "Rows to skip, for fetching the next page. Use nextOffset from the previous result",
+        ),
 }).strict();
 
 const DbExecuteInputSchema = ConnectionOverrideSchema.extend({
     sql: z
-        .union([z.string(), z.array(z.string())])
-        .describe("SQL statement(s) to execute (INSERT, UPDATE, DELETE, DDL)"),
+        .union([
+            z.string(),
+            z.array(
+                z.union([
+                    z.string(),
+                    z
+                        .object({
+                            sql: z.string().min(1),
+                            parameters: SqlParametersSchema.optional(),
+                        })
+                        .strict(),
+                ]),
+            ),
+        ])
+        .describe(
+            "SQL statement(s) to execute (INSERT, UPDATE, DELETE, DDL). " +
+                "Array items may be { sql, parameters } to bind values per statement.",
+        ),
+    parameters: SqlParametersSchema.optional().describe(
+        "Values for placeholders when sql is a single string",
+    ),
+    atomic: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+            "Run all statements in one transaction and roll back if any fails",
+        ),
+    preview: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+            "Show what the statements would affect without executing them",
+        ),
     database: z
         .string()
         .optional()
@@ -125,6 +223,8 @@ const DbRemoveUserInputSchema = z
     .strict();
 
 // Type definitions
+type SqlValueInput = z.infer<typeof SqlValueSchema>;
+type SqlParametersInput = z.infer<typeof SqlParametersSchema>;
 type ShowDatabasesInput = z.infer<typeof ShowDatabasesInputSchema>;
 type ShowTablesInput = z.infer<typeof ShowTablesInputSchema>;
 type DbQueryInput = z.infer<typeof DbQueryInputSchema>;
@@ -137,64 +237,170 @@ type DbRemoveUserInput = z.infer<typeof DbRemoveUserInputSchema>;
 // ============================================================================
 
 /**
- * Resolves database configuration from defaults and overrides
+ * Converts a tool parameter value into the value bound to the placeholder
  */
-function resolveConfig(
-    defaultConfig: DatabaseConfig | undefined,
-    overrides: { host?: string; username?: string; password?: string },
-): DatabaseConfig {
-    const host = overrides.host ?? defaultConfig?.host;
-    const username = overrides.username ?? defaultConfig?.username;
-    const password = overrides.password ?? defaultConfig?.password;
-
-    if (!host || !username || !password) {
-        throw new TiDBDatabaseError(
-            "Database connection not configured. " +
-                "The user has two options: " +
-                "(1) Provide host, username, and password in this conversation, or " +
-                "(2) Configure credentials in Claude Desktop config using mcp-remote --header flags " +
-                "(recommended for persistent setup - credentials stay local, never stored on server). " +
-                "Use tidbcloud_get_cluster to retrieve the host and port for the cluster.",
-        );
+function toSqlValue(value: SqlValueInput): SqlValue {
+    if (value === null || typeof value !== "object") {
+        return value;
     }
+    switch (value.type) {
+        case "date": {
+            const date = new Date(value.value);
+            if (Number.isNaN(date.getTime())) {
+                throw new TiDBDatabaseError(`Invalid date: ${value.value}`);
+            }
+            return date;
+        }
+        case "binary":
+            if (!/^[A-Za-z0-9+/]*={0,2}$/.test(value.base64)) {
+                throw new TiDBDatabaseError("Invalid base64 in binary value");
+            }
+            return new Uint8Array(Buffer.from(value.base64, "base64"));
+        case "decimal":
+            // Integers stay exact as bigint; MySQL converts a quoted
+            // fraction to an exact DECIMAL in numeric context
+            return value.value.includes(".")
+                ? value.value
+                : BigInt(value.value);
+    }
+}
 
-    return {
-        host,
-        username,
-        password,
-        database: defaultConfig?.database,
-    };
+/**
+ * Converts tool parameters into values for TiDBDatabase
+ */
+function toSqlParameters(
+    parameters: SqlParametersInput | undefined,
+): SqlParameters | undefined {
+    if (!parameters) {
+        return undefined;
+    }
+    if (Array.isArray(parameters)) {
+        return parameters.map(toSqlValue);
+    }
+    return Object.fromEntries(
+        Object.entries(parameters).map(([name, value]) => [
+            name,
+            toSqlValue(value),
+        ]),
+    );
+}
+
+/**
+ * Explains why SQL text was rejected by db_query, or returns undefined if it
+ * is a single read-only statement
+ */
+function getReadOnlyViolation(
+    statements: ClassifiedStatement[],
+): string | undefined {
+    if (statements.length === 0) {
+        return "No SQL statement found.";
+    }
+    if (statements.length > 1) {
+        return `db_query runs exactly one statement, but ${statements.length} were given. Run them one at a time.`;
+    }
+
+    const [statement] = statements;
+    if (statement.readOnly) {
+        return undefined;
+    }
+    if (statement.reason) {
+        return `The ${statement.keyword} statement ${statement.reason}. Use db_execute instead.`;
+    }
+    return `${statement.keyword || "This"} is a ${formatStatementCategory(statement.category)} statement. Only read-only queries (SELECT, SHOW, DESCRIBE, EXPLAIN) are allowed. Use db_execute for data modification.`;
+}
+
+/**
+ * Cuts a cell value that is longer than the limit, noting how much was cut
+ */
+function truncateCell(value: unknown, maxLength: number): unknown {
+    if (typeof value !== "string" || value.length <= maxLength) {
+        return value;
+    }
+    return `${value.slice(0, maxLength)}… [${value.length - maxLength} more chars]`;
 }
 
 /**
- * Formats query results as a markdown table
+ * Takes as many rows as fit into the row and size budgets. At least one row
+ * is always taken so paging can make progress.
  */
-function formatQueryResultsAsTable(
+function takeResultPage(
     columns: string[],
     rows: Record<string, unknown>[],
-): string {
-    if (rows.length === 0) {
-        return "No results returned.";
-    }
+    maxRows: number,
+    limits: QueryLimits,
+): { rows: Record<string, unknown>[]; truncatedCells: number } {
+    const page: Record<string, unknown>[] = [];
+    let truncatedCells = 0;
+    let bytes = 0;
+
+    for (const row of rows.slice(0, maxRows)) {
+        const truncated: Record<string, unknown> = {};
+        for (const column of columns) {
+            truncated[column] = truncateCell(row[column], limits.maxCellLength);
+            if (truncated[column] !== row[column]) {
+                truncatedCells++;
+            }
+        }
 
-    const lines: string[] = [];
-
-    // Header row
-    lines.push("| " + columns.join(" | ") + " |");
-    // Separator row
-    lines.push("| " + columns.map(() => "---").join(" | ") + " |");
-    // Data rows
-    for (const row of rows) {
-        const values = columns.map((col) => {
-            const value = row[col];
-            if (value === null) return "NULL";
-            if (value === undefined) return "";
-            return String(value);
-        });
-        lines.push("| " + values.join(" | ") + " |");
+        bytes += new TextEncoder().encode(JSON.stringify(truncated)).length;
+        if (page.length > 0 && bytes > limits.maxBytes) {
+            break;
+        }
+        page.push(truncated);
     }
 
-    return lines.join("\n");
+    return { rows: page, truncatedCells };
+}
+
+/**
+ * Formats the impact preview of a statement as report lines
+ */
+function formatImpactPreview(
+    preview: ImpactPreview,
+    limits: QueryLimits,
+): string[] {
+    switch (preview.kind) {
+        case "rows": {
+            const { columns, rows } = preview.sample;
+            const lines = [`- Rows matched: ${preview.matchedRows}`];
+            if (rows.length > 0) {
+                const page = takeResultPage(columns, rows, rows.length, limits);
+                lines.push(
+                    `- Sample of matching rows (${page.rows.length} of ${preview.matchedRows}):`,
+                    "",
+                    formatQueryResultsAsTable(columns, page.rows),
+                );
+            }
+            return lines;
+        }
+
+        case "tables":
+            return preview.tables.flatMap((table) => {
+                const name = table.database
+                    ? `${table.database}.${table.table}`
+                    : table.table;
+                if (!table.exists) {
+                    return [`- Table \`${name}\` does not exist yet`];
+                }
+                return [
+                    `- Table \`${name}\`: ~${table.estimatedRows} rows, ${formatByteSize(table.dataBytes ?? 0)} data, ${formatByteSize(table.indexBytes ?? 0)} indexes`,
+                    "",
+                    "```sql",
+                    `${table.createStatement};`,
+                    "```",
+                ];
+            });
+
+        case "database":
+            return preview.exists
+                ? [
+                      `- Database \`${preview.database}\`: ${preview.tableCount} table(s), ~${preview.estimatedRows} rows, ${formatByteSize(preview.totalBytes)}`,
+                  ]
+                : [`- Database \`${preview.database}\` does not exist`];
+
+        case "none":
+            return [`- ${preview.reason}`];
+    }
 }
 
 // ============================================================================
@@ -207,7 +413,10 @@ function formatQueryResultsAsTable(
 export function registerDatabaseTools(
     server: McpServer,
     defaultConfig: DatabaseConfig | undefined,
+    queryLimits: Partial<QueryLimits> = {},
 ): void {
+    const limits: QueryLimits = { ...DEFAULT_QUERY_LIMITS, ...queryLimits };
+
     // ========================================================================
     // show_databases
     // ========================================================================
@@ -374,22 +583,36 @@ Returns:
             title: "Database Query",
             description: `Executes a read-only SQL query against the TiDB Cloud cluster.
 
-Only SELECT, SHOW, DESCRIBE, and EXPLAIN statements are allowed.
+Only a single SELECT, SHOW, DESCRIBE, or EXPLAIN statement is allowed.
+Statements with side effects (SELECT ... FOR UPDATE, INTO OUTFILE, SLEEP(),
+EXPLAIN ANALYZE of a write) are rejected.
 Results are returned as a formatted markdown table.
 
+Large results are paged: at most maxRows rows (and a bounded number of bytes)
+are returned per call, and long cell values are cut. When a result is
+truncated, call again with the returned nextOffset. Add ORDER BY for stable
+pages.
+
+Always pass user-supplied values through parameters instead of writing them
+into the SQL text: "SELECT * FROM users WHERE email = ?" with parameters
+["a@example.com"], or ":email" with {"email": "a@example.com"}.
+
 **IMPORTANT: Database credentials required.** You MUST ask the user to choose:
 1. Provide credentials in this conversation (ask for username/password)
 2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
 
 Args:
   - sql (string, required): The read-only SQL query to execute
+  - parameters (array | object, optional): Values for ? or :name placeholders
   - database (string, optional): Database to use for the query
+  - maxRows (number, optional): Rows per page (capped by the server maximum)
+  - offset (number, optional): Rows to skip, for fetching the next page
   - host (string, optional): Database host
   - username (string, optional): Database username
   - password (string, optional): Database password
 
 Returns:
-  Query results as a markdown table.`,
+  Query results as a markdown table, with nextOffset when truncated.`,
             inputSchema: DbQueryInputSchema,
             annotations: {
                 readOnlyHint: true,
@@ -400,45 +623,98 @@ Returns:
         },
         async (params: DbQueryInput) => {
             try {
+                // Bind parameters first so the final SQL is what gets
+                // validated and paged
+                const parameters = toSqlParameters(params.parameters);
+                const sql = parameters
+                    ? bindParameters(params.sql, parameters)
+                    : params.sql;
+
                 // Validate read-only query
-                if (!isReadOnlyQuery(params.sql)) {
+                const violation = getReadOnlyViolation(classifySql(sql));
+                if (violation) {
                     return {
                         content: [
-                            {
-                                type: "text",
-                                text: "Error: Only read-only queries (SELECT, SHOW, DESCRIBE, EXPLAIN) are allowed. Use db_execute for data modification.",
-                            },
+                            { type: "text", text: `Error: ${violation}` },
                         ],
                     };
                 }
 
                 const config = resolveConfig(defaultConfig, params);
                 const db = new TiDBDatabase(config);
+
+                const maxRows = Math.min(
+                    params.maxRows ?? limits.maxRows,
+                    limits.maxRows,
+                );
+                const offset = params.offset ?? 0;
+
+                // Let the server do the paging where possible; fetch one
+                // extra row to learn whether there is another page
+                const limitedSql = applyRowLimit(sql, offset, maxRows + 1);
                 const result = await db.query(
-                    params.sql,
+                    limitedSql ?? sql,
                     undefined,
                     params.database,
                 );
+                const available = limitedSql
+                    ? result.rows
+                    : result.rows.slice(offset);
 
-                const tableOutput = formatQueryResultsAsTable(
+                const page = takeResultPage(
                     result.columns,
-                    result.rows,
+                    available,
+                    maxRows,
+                    limits,
                 );
+                const truncated = page.rows.length < available.length;
+                const nextOffset = truncated
+                    ? offset + page.rows.length
+                    : undefined;
+                // The exact remainder is only known when every row was fetched
+                const remainingRows =
+                    truncated && !limitedSql
+                        ? available.length - page.rows.length
+                        : undefined;
 
-                const textContent = [
+                const lines = [
                     "# Query Results",
                     "",
-                    `Returned ${result.rowCount} row(s).`,
+                    page.rows.length > 0 && offset > 0
+                        ? `Returned ${page.rows.length} row(s) (rows ${offset + 1}-${offset + page.rows.length}).`
+                        : `Returned ${page.rows.length} row(s).`,
                     "",
-                    tableOutput,
-                ].join("\n");
+                    formatQueryResultsAsTable(result.columns, page.rows),
+                ];
+
+                if (truncated) {
+                    const remainder =
+                        remainingRows !== undefined
+                            ? `${remainingRows} more row(s)`
+                            : "more rows available";
+                    lines.push("");
+                    lines.push(
+                        `> **Truncated:** ${remainder}. Call db_query again with offset: ${nextOffset} to fetch the next page.`,
+                    );
+                }
+                if (page.truncatedCells > 0) {
+                    lines.push("");
+                    lines.push(
+                        `> ${page.truncatedCells} cell value(s) longer than ${limits.maxCellLength} characters were cut.`,
+                    );
+                }
 
                 return {
-                    content: [{ type: "text", text: textContent }],
+                    content: [{ type: "text", text: lines.join("\n") }],
                     structuredContent: {
                         columns: result.columns,
-                        rows: result.rows,
-                        rowCount: result.rowCount,
+                        rows: page.rows,
+                        rowCount: page.rows.length,
+                        offset,
+                        truncated,
+                        nextOffset,
+                        remainingRows,
+                        truncatedCells: page.truncatedCells,
                     },
                 };
             } catch (error) {
@@ -461,7 +737,18 @@ Returns:
             description: `Executes SQL statements that modify data or schema.
 
 Use this for INSERT, UPDATE, DELETE, CREATE, ALTER, DROP, and other DDL/DML statements.
-Can execute a single statement or multiple statements in sequence.
+Can execute a single statement or multiple statements in sequence. A string
+may contain several statements separated by semicolons; each statement is
+classified (Read, DML, DDL, DCL, Transaction, Admin) and reported separately.
+Execution stops at the first failing statement. By default each statement
+commits on its own; set atomic to run the batch in a single transaction that
+is rolled back if any statement fails. Bind values with parameters instead of
+writing them into the SQL text.
+
+Set preview to see what the statements would affect without running them:
+the number of rows an UPDATE or DELETE matches with a sample of them, or the
+current definition and size of the tables a DDL statement changes. Preview
+destructive statements and confirm with the user before executing them.
 
 **WARNING:** This tool can modify or delete data. Use with caution.
 
@@ -470,14 +757,24 @@ Can execute a single statement or multiple statements in sequence.
 2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
 
 Args:
-  - sql (string | string[], required): SQL statement(s) to execute
+  - sql (string | array, required): SQL statement(s) to execute. Array items
+    may be strings or { sql, parameters } objects
+  - parameters (array | object, optional): Values for placeholders when sql
+    is a single string
+  - atomic (boolean, optional): Run all statements in one transaction
+    (default: false). DDL, DCL and transaction statements are rejected
+    because they commit implicitly
+  - preview (boolean, optional): Only report the impact of the statements,
+    without executing them (default: false)
   - database (string, optional): Database to use
   - host (string, optional): Database host
   - username (string, optional): Database username
   - password (string, optional): Database password
 
 Returns:
-  Number of rows affected by each statement.`,
+  Category, status and number of rows affected for each statement, and
+  whether the batch was rolled back. With preview, the impact of each
+  statement instead.`,
             inputSchema: DbExecuteInputSchema,
             annotations: {
                 readOnlyHint: false,
@@ -491,28 +788,176 @@ Returns:
                 const config = resolveConfig(defaultConfig, params);
                 const db = new TiDBDatabase(config);
 
-                const statements = Array.isArray(params.sql)
-                    ? params.sql
-                    : [params.sql];
+                if (Array.isArray(params.sql) && params.parameters) {
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: "Error: Top-level parameters only apply when sql is a single string. Use { sql, parameters } items to bind values per statement.",
+                            },
+                        ],
+                    };
+                }
+
+                // Bind each input, then split it into individual statements
+                // so each one is classified and reported separately
+                const inputs = Array.isArray(params.sql)
+                    ? params.sql.map((item) =>
+                          typeof item === "string" ? { sql: item } : item,
+                      )
+                    : [{ sql: params.sql, parameters: params.parameters }];
+                const statements = inputs.flatMap((input) => {
+                    const parameters = toSqlParameters(input.parameters);
+                    return classifySql(
+                        parameters
+                            ? bindParameters(input.sql, parameters)
+                            : input.sql,
+                    );
+                });
+
+                if (statements.length === 0) {
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: "Error: No SQL statement found.",
+                            },
+                        ],
+                    };
+                }
+
+                if (params.preview) {
+                    const lines = [
+                        "# Execution Preview",
+                        "",
+                        "Nothing was executed. Review the impact below, then run db_execute again without preview to apply the statements.",
+                        "",
+                    ];
+                    if (statements.length > 1) {
+                        lines.push(
+                            "Each statement is previewed against the current data, so changes made by earlier statements in the batch are not reflected.",
+                            "",
+                        );
+                    }
+
+                    const previews: (
+                        ImpactPreview | { kind: "error"; error: string }
+                    )[] = [];
+                    for (let i = 0; i < statements.length; i++) {
+                        const statement = statements[i];
+                        lines.push(
+                            `**Statement ${i + 1}** (${formatStatementCategory(statement.category)}: ${statement.keyword || "?"}): \`${summarizeStatement(statement.sql)}\``,
+                        );
+                        try {
+                            const preview = await previewImpact(
+                                db,
+                                statement,
+                                params.database,
+                            );
+                            previews.push(preview);
+                            lines.push(...formatImpactPreview(preview, limits));
+                        } catch (error) {
+                            const message = formatDatabaseError(error);
+                            previews.push({ kind: "error", error: message });
+                            lines.push(`- Preview failed: ${message}`);
+                        }
+                        lines.push("");
+                    }
+
+                    return {
+                        content: [{ type: "text", text: lines.join("\n") }],
+                        structuredContent: {
+                            statementCount: statements.length,
+                            preview: true,
+                            sampleSize: PREVIEW_SAMPLE_ROWS,
+                            statements: statements.map((statement, i) => ({
+                                sql: statement.sql,
+                                category: statement.category,
+                                keyword: statement.keyword,
+                                impact: previews[i],
+                            })),
+                        },
+                    };
+                }
+
+                // DDL, DCL and transaction control commit the open
+                // transaction implicitly, so they can't be rolled back
+                if (params.atomic) {
+                    const index = statements.findIndex((statement) =>
+                        ["ddl", "dcl", "transaction"].includes(
+                            statement.category,
+                        ),
+                    );
+                    if (index !== -1) {
+                        const statement = statements[index];
+                        return {
+                            content: [
+                                {
+                                    type: "text",
+                                    text: `Error: Statement ${index + 1} (${formatStatementCategory(statement.category)}: ${statement.keyword || "?"}) cannot run in an atomic batch because it commits implicitly. Run it separately or set atomic to false.`,
+                                },
+                            ],
+                        };
+                    }
+                }
 
-                const results = await db.executeMultiple(
-                    statements,
+                const batch = await db.executeMultiple(
+                    statements.map((statement) => statement.sql),
                     params.database,
+                    params.atomic,
                 );
+                const { results, failure, rolledBack, commitError } = batch;
+                const failed = Boolean(failure || commitError);
+
+                const statusOf = (i: number): string => {
+                    if (failure?.index === i) {
+                        return "failed";
+                    }
+                    if (!results[i]) {
+                        return "skipped";
+                    }
+                    return rolledBack ? "rolled_back" : "executed";
+                };
+
+                let summary: string;
+                if (commitError) {
+                    summary = `All ${statements.length} statement(s) ran, but the transaction could not be committed: ${commitError} No changes were applied.`;
+                } else if (failure && batch.atomic) {
+                    summary = `Statement ${failure.index + 1} of ${statements.length} failed. The transaction was rolled back; no changes were applied.`;
+                } else if (failure) {
+                    summary = `Statement ${failure.index + 1} of ${statements.length} failed. Statements before it were executed; statements after it were not.`;
+                } else if (batch.atomic) {
+                    summary = `Executed and committed ${statements.length} statement(s) in one transaction.`;
+                } else {
+                    summary = `Executed ${statements.length} statement(s).`;
+                }
 
                 const lines = [
-                    "# Execution Results",
+                    failed ? "# Execution Failed" : "# Execution Results",
                     "",
-                    `Executed ${statements.length} statement(s).`,
+                    summary,
                     "",
                 ];
 
-                for (let i = 0; i < results.length; i++) {
+                for (let i = 0; i < statements.length; i++) {
+                    const statement = statements[i];
                     const result = results[i];
-                    lines.push(`**Statement ${i + 1}:**`);
-                    lines.push(`- Rows affected: ${result.rowsAffected}`);
-                    if (result.lastInsertId !== undefined) {
-                        lines.push(`- Last insert ID: ${result.lastInsertId}`);
+                    lines.push(
+                        `**Statement ${i + 1}** (${formatStatementCategory(statement.category)}: ${statement.keyword || "?"}): \`${summarizeStatement(statement.sql)}\``,
+                    );
+                    if (result) {
+                        lines.push(
+                            `- Rows affected: ${result.rowsAffected}${rolledBack ? " (rolled back)" : ""}`,
+                        );
+                        if (result.lastInsertId !== undefined && !rolledBack) {
+                            lines.push(
+                                `- Last insert ID: ${result.lastInsertId}`,
+                            );
+                        }
+                    } else if (failure?.index === i) {
+                        lines.push(`- Error: ${failure.message}`);
+                    } else {
+                        lines.push("- Not executed");
                     }
                     lines.push("");
                 }
@@ -521,9 +966,23 @@ Returns:
                     content: [{ type: "text", text: lines.join("\n") }],
                     structuredContent: {
                         statementCount: statements.length,
-                        results: results.map((r) => ({
-                            rowsAffected: r.rowsAffected,
-                            lastInsertId: r.lastInsertId,
+                        success: !failed,
+                        atomic: batch.atomic,
+                        rolledBack,
+                        commitError,
+                        results: statements.map((statement, i) => ({
+                            sql: statement.sql,
+                            category: statement.category,
+                            keyword: statement.keyword,
+                            status: statusOf(i),
+                            rowsAffected: results[i]?.rowsAffected,
+                            lastInsertId: rolledBack
+                                ? undefined
+                                : results[i]?.lastInsertId,
+                            error:
+                                failure?.index === i
+                                    ? failure.message
+                                    : undefined,
                         })),
                     },
                 };
@@ -548,6 +1007,9 @@ Returns:
 
 Creates a user with the specified username, password, and host restriction.
 
+Prefer tidbcloud_create_sql_user, which only needs API keys. Use this tool
+when a custom host restriction is required.
+
 **IMPORTANT: Admin credentials required.** You MUST ask the user to choose:
 1. Provide credentials in this conversation (ask for admin username/password)
 2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
@@ -580,9 +1042,11 @@ Returns:
                 const db = new TiDBDatabase(config);
 
                 const userHost = params.userHost ?? "%";
-                const sql = `CREATE USER '${params.username}'@'${userHost}' IDENTIFIED BY '${params.password}'`;
-
-                await db.execute(sql);
+                await db.execute("CREATE USER ?@? IDENTIFIED BY ?", [
+                    params.username,
+                    userHost,
+                    params.password,
+                ]);
 
                 const textContent = [
                     "# User Created Successfully",
@@ -622,6 +1086,8 @@ Returns:
 
 **WARNING:** This action is irreversible. The user will be permanently deleted.
 
+Prefer tidbcloud_delete_sql_user, which only needs API keys.
+
 **IMPORTANT: Admin credentials required.** You MUST ask the user to choose:
 1. Provide credentials in this conversation (ask for admin username/password)
 2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
@@ -653,9 +1119,7 @@ Returns:
                 const db = new TiDBDatabase(config);
 
                 const userHost = params.userHost ?? "%";
-                const sql = `DROP USER '${params.username}'@'${userHost}'`;
-
-                await db.execute(sql);
+                await db.execute("DROP USER ?@?", [params.username, userHost]);
 
                 const textContent = [
                     "# User Removed Successfully",
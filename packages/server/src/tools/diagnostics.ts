@@ -0,0 +1,901 @@
+/**
+ * Query performance diagnostic tools for TiDB Cloud MCP Server
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+    TiDBDatabase,
+    TiDBDatabaseError,
+    formatDatabaseError,
+} from "../db/client.js";
+import { adviseIndexes } from "../db/advisor.js";
+import {
+    getStatementPlans,
+    listSlowQueries,
+    listTopStatements,
+} from "../db/diagnostics.js";
+import {
+    findPlanIssues,
+    parsePlan,
+    parsePlanText,
+    walkPlan,
+} from "../db/plan.js";
+import { classifySql } from "../db/sql.js";
+import type {
+    DatabaseConfig,
+    IndexCandidate,
+    PlanIssue,
+    PlanNode,
+    WorkloadQuery,
+} from "../db/types.js";
+import { ConnectionOverrideSchema, resolveConfig } from "./connection.js";
+import {
+    formatByteSize,
+    formatDuration,
+    formatQueryResultsAsTable,
+    summarizeStatement,
+} from "./format.js";
+
+// ============================================================================
+// Zod Schemas
+// ============================================================================
+
+const ExplainQueryInputSchema = ConnectionOverrideSchema.extend({
+    sql: z
+        .string()
+        .min(1, "SQL query is required")
+        .describe("The query to explain, without the EXPLAIN keyword"),
+    analyze: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+            "Run the query with EXPLAIN ANALYZE to get actual row counts and timings (SELECT only)",
+        ),
+    database: z
+        .string()
+        .optional()
+        .describe("Database to run the query against"),
+}).strict();
+
+const WindowMinutesSchema = z
+    .number()
+    .int()
+    .min(1)
+    .max(10080)
+    .optional()
+    .default(60)
+    .describe("How far back to look, in minutes (default: 60, max: 7 days)");
+
+const ListTopStatementsInputSchema = ConnectionOverrideSchema.extend({
+    rankBy: z
+        .enum(["total_latency", "avg_latency", "ru", "executions"])
+        .optional()
+        .default("total_latency")
+        .describe(
+            "Metric to rank statements by: total_latency (default), avg_latency, ru (request units) or executions",
+        ),
+    windowMinutes: WindowMinutesSchema,
+    limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .default(10)
+        .describe("Number of statements to return (default: 10)"),
+    database: z
+        .string()
+        .optional()
+        .describe("Only include statements run against this database"),
+}).strict();
+
+const GetStatementPlanInputSchema = ConnectionOverrideSchema.extend({
+    digest: z
+        .string()
+        .min(1, "Statement digest is required")
+        .describe("Digest of the statement, from list_top_statements"),
+    planDigest: z
+        .string()
+        .optional()
+        .describe("Only return the plan with this digest"),
+}).strict();
+
+const ListSlowQueriesInputSchema = ConnectionOverrideSchema.extend({
+    windowMinutes: WindowMinutesSchema,
+    limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .default(20)
+        .describe("Number of queries to return (default: 20)"),
+    digest: z
+        .string()
+        .optional()
+        .describe("Only include executions of the statement with this digest"),
+    database: z
+        .string()
+        .optional()
+        .describe("Only include queries run against this database"),
+    minQueryTimeMs: z
+        .number()
+        .min(0)
+        .optional()
+        .describe("Only include queries that took at least this long"),
+}).strict();
+
+const AdviseIndexesInputSchema = ConnectionOverrideSchema.extend({
+    queries: z
+        .array(z.string().min(1))
+        .min(1)
+        .max(20)
+        .optional()
+        .describe(
+            "The queries to optimize for (default: the top statements of the statement summary)",
+        ),
+    windowMinutes: WindowMinutesSchema,
+    topStatements: z
+        .number()
+        .int()
+        .min(1)
+        .max(20)
+        .optional()
+        .default(10)
+        .describe(
+            "Number of top statements to use when no queries are given (default: 10)",
+        ),
+    maxCandidates: z
+        .number()
+        .int()
+        .min(1)
+        .max(10)
+        .optional()
+        .default(5)
+        .describe("Maximum number of indexes to propose (default: 5)"),
+    database: z
+        .string()
+        .optional()
+        .describe(
+            "Database to plan the queries in; with top statements, only statements run against it",
+        ),
+}).strict();
+
+type ExplainQueryInput = z.infer<typeof ExplainQueryInputSchema>;
+type ListTopStatementsInput = z.infer<typeof ListTopStatementsInputSchema>;
+type GetStatementPlanInput = z.infer<typeof GetStatementPlanInputSchema>;
+type ListSlowQueriesInput = z.infer<typeof ListSlowQueriesInputSchema>;
+type AdviseIndexesInput = z.infer<typeof AdviseIndexesInputSchema>;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Formats the operator tree as indented text, one operator per line
+ */
+function formatPlanTree(root: PlanNode): string {
+    const lines: string[] = [];
+    walkPlan(root, (node, depth) => {
+        const rows =
+            node.actRows !== undefined
+                ? `est ${node.estRows} / act ${node.actRows} rows`
+                : `est ${node.estRows} rows`;
+        const details = [
+            rows,
+            node.task,
+            node.accessObject,
+            node.timeMs !== undefined ? formatDuration(node.timeMs) : "",
+        ].filter(Boolean);
+        lines.push(
+            `${"  ".repeat(depth)}${node.id}${node.role ? `(${node.role})` : ""}  ${details.join("  ")}`,
+        );
+    });
+    return lines.join("\n");
+}
+
+/**
+ * Shortens SQL text for a markdown table cell
+ */
+function formatSqlCell(sql: string): string {
+    return summarizeStatement(sql, 100).replace(/\|/g, "\\|");
+}
+
+/**
+ * Formats plan issues as a markdown list, warnings first
+ */
+function formatPlanIssues(issues: PlanIssue[]): string {
+    if (issues.length === 0) {
+        return "No issues found.";
+    }
+    return [...issues]
+        .sort((a, b) =>
+            a.severity === b.severity ? 0 : a.severity === "warning" ? -1 : 1,
+        )
+        .map(
+            (issue) =>
+                `- **${issue.severity === "warning" ? "Warning" : "Info"}** (${issue.operator}): ${issue.message}`,
+        )
+        .join("\n");
+}
+
+/**
+ * Formats an estimated cost, which can run into the billions
+ */
+function formatCost(cost: number): string {
+    return Math.round(cost).toLocaleString("en-US");
+}
+
+/**
+ * Formats a proposed index with its estimated effect on each query
+ */
+function formatIndexCandidate(
+    candidate: IndexCandidate,
+    position: number,
+): string {
+    const lines = [
+        `## ${position}. \`${candidate.name}\` on \`${candidate.table}\` (${candidate.columns.join(", ")})`,
+        "",
+        `- Why: ${candidate.reason}`,
+        `- Estimated improvement: ${(candidate.improvement * 100).toFixed(1)}% of the workload cost`,
+        "",
+    ];
+    if (candidate.benefits.length > 0) {
+        lines.push(
+            formatQueryResultsAsTable(
+                ["Query", "Cost before", "Cost with index", "Used"],
+                candidate.benefits.map((benefit) => ({
+                    Query: benefit.query + 1,
+                    "Cost before": formatCost(benefit.costBefore),
+                    "Cost with index": formatCost(benefit.costAfter),
+                    Used: benefit.used ? "yes" : "no",
+                })),
+            ),
+            "",
+        );
+    }
+    lines.push("```sql", candidate.ddl, "```", "");
+    return lines.join("\n");
+}
+
+// ============================================================================
+// Tool Registration
+// ============================================================================
+
+/**
+ * Registers query performance diagnostic tools with the MCP server
+ */
+export function registerDiagnosticTools(
+    server: McpServer,
+    defaultConfig: DatabaseConfig | undefined,
+): void {
+    // ========================================================================
+    // explain_query
+    // ========================================================================
+    server.registerTool(
+        "explain_query",
+        {
+            title: "Explain Query",
+            description: `Shows and interprets the execution plan of a query.
+
+Runs EXPLAIN (or EXPLAIN ANALYZE) for the query, parses TiDB's plan tree and
+flags common problems:
+- Full table and index scans on TiKV
+- Coprocessor task hotspots (one task much slower than the average)
+- Estimated rows far from actual rows (EXPLAIN ANALYZE only)
+- Tables without statistics (stats:pseudo)
+
+EXPLAIN only plans the query. EXPLAIN ANALYZE executes it, so it is only
+allowed for read-only SELECT queries.
+
+**IMPORTANT: Database credentials required.** You MUST ask the user to choose:
+1. Provide credentials in this conversation (ask for username/password)
+2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
+
+Args:
+  - sql (string, required): The query to explain, without EXPLAIN
+  - analyze (boolean, optional): Use EXPLAIN ANALYZE (default: false)
+  - database (string, optional): Database to use
+  - host (string, optional): Database host
+  - username (string, optional): Database username
+  - password (string, optional): Database password
+
+Returns:
+  The plan as an indented operator tree with the issues found, and the
+  parsed plan as structured content.`,
+            inputSchema: ExplainQueryInputSchema,
+            annotations: {
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true,
+                openWorldHint: true,
+            },
+        },
+        async (params: ExplainQueryInput) => {
+            try {
+                const statements = classifySql(params.sql);
+                if (statements.length !== 1) {
+                    throw new TiDBDatabaseError(
+                        `explain_query explains exactly one statement, but ${statements.length} were given.`,
+                    );
+                }
+
+                const [statement] = statements;
+                if (
+                    ["EXPLAIN", "DESC", "DESCRIBE"].includes(
+                        statement.keyword.split(" ")[0],
+                    )
+                ) {
+                    throw new TiDBDatabaseError(
+                        "Pass the query without the EXPLAIN keyword.",
+                    );
+                }
+
+                // EXPLAIN ANALYZE runs the statement
+                if (
+                    params.analyze &&
+                    !(
+                        statement.readOnly &&
+                        ["SELECT", "TABLE", "VALUES"].includes(
+                            statement.keyword,
+                        )
+                    )
+                ) {
+                    throw new TiDBDatabaseError(
+                        `EXPLAIN ANALYZE executes the query, so it is only allowed for read-only SELECT queries${statement.reason ? ` (this ${statement.keyword} ${statement.reason})` : ""}. Set analyze to false to see the estimated plan.`,
+                    );
+                }
+
+                const config = resolveConfig(defaultConfig, params);
+                const db = new TiDBDatabase(config);
+                const result = await db.query(
+                    `${params.analyze ? "EXPLAIN ANALYZE" : "EXPLAIN"} ${statement.sql}`,
+                    undefined,
+                    params.database,
+                );
+
+                const plan = parsePlan(result.rows);
+                if (!plan) {
+                    throw new TiDBDatabaseError("EXPLAIN returned no plan.");
+                }
+                const issues = findPlanIssues(plan);
+
+                const lines = [
+                    `# Query Plan (${params.analyze ? "EXPLAIN ANALYZE" : "EXPLAIN"})`,
+                    "",
+                ];
+                if (plan.timeMs !== undefined) {
+                    lines.push(
+                        `Execution time: ${formatDuration(plan.timeMs)}`,
+                        "",
+                    );
+                }
+                lines.push(
+                    "## Findings",
+                    "",
+                    formatPlanIssues(issues),
+                    "",
+                    "## Plan",
+                    "",
+                    "```",
+                    formatPlanTree(plan),
+                    "```",
+                );
+                if (!params.analyze) {
+                    lines.push(
+                        "",
+                        "Row counts are estimates. Use analyze for actual row counts and timings.",
+                    );
+                }
+
+                return {
+                    content: [{ type: "text", text: lines.join("\n") }],
+                    structuredContent: {
+                        analyzed: params.analyze,
+                        executionTimeMs: plan.timeMs,
+                        issues,
+                        plan,
+                    },
+                };
+            } catch (error) {
+                return {
+                    content: [
+                        { type: "text", text: formatDatabaseError(error) },
+                    ],
+                };
+            }
+        },
+    );
+
+    // ========================================================================
+    // list_top_statements
+    // ========================================================================
+    server.registerTool(
+        "list_top_statements",
+        {
+            title: "List Top Statements",
+            description: `Lists the most expensive SQL statements of a recent time window.
+
+Reads the statement summary, which aggregates executions of the same
+normalized statement (digest) across all TiDB instances. Statements can be
+ranked by total latency, average latency, request units (RU) or executions.
+Statistics are kept per 30-minute summary window, so windows partially inside
+the requested range count in full.
+
+Use get_statement_plan with a digest to see the plans a statement used, and
+list_slow_queries for individual slow executions.
+
+**IMPORTANT: Database credentials required.** You MUST ask the user to choose:
+1. Provide credentials in this conversation (ask for username/password)
+2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
+
+Args:
+  - rankBy (string, optional): total_latency (default), avg_latency, ru or
+    executions
+  - windowMinutes (number, optional): How far back to look (default: 60)
+  - limit (number, optional): Number of statements (default: 10, max: 100)
+  - database (string, optional): Only statements run against this database
+  - host (string, optional): Database host
+  - username (string, optional): Database username
+  - password (string, optional): Database password
+
+Returns:
+  Digest, executions, latency, RU and a sample of each statement.`,
+            inputSchema: ListTopStatementsInputSchema,
+            annotations: {
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true,
+                openWorldHint: true,
+            },
+        },
+        async (params: ListTopStatementsInput) => {
+            try {
+                const config = resolveConfig(defaultConfig, params);
+                const db = new TiDBDatabase(config);
+                const statements = await listTopStatements(db, {
+                    rankBy: params.rankBy,
+                    windowMinutes: params.windowMinutes,
+                    limit: params.limit,
+                    database: params.database,
+                });
+
+                const lines = [
+                    `# Top Statements by ${params.rankBy.replace("_", " ")}`,
+                    "",
+                    `Last ${params.windowMinutes} minute(s)${params.database ? ` in \`${params.database}\`` : ""}: ${statements.length} statement(s).`,
+                    "",
+                ];
+                if (statements.length > 0) {
+                    lines.push(
+                        formatQueryResultsAsTable(
+                            [
+                                "#",
+                                "Statement",
+                                "Executions",
+                                "Total",
+                                "Avg",
+                                "Max",
+                                "RU",
+                                "Plans",
+                                "Digest",
+                            ],
+                            statements.map((statement, i) => ({
+                                "#": i + 1,
+                                Statement: formatSqlCell(statement.digestText),
+                                Executions: statement.executions,
+                                Total: formatDuration(statement.totalLatencyMs),
+                                Avg: formatDuration(statement.avgLatencyMs),
+                                Max: formatDuration(statement.maxLatencyMs),
+                                RU: Math.round(statement.totalRu),
+                                Plans: statement.planCount,
+                                Digest: statement.digest,
+                            })),
+                        ),
+                    );
+                }
+
+                return {
+                    content: [{ type: "text", text: lines.join("\n") }],
+                    structuredContent: {
+                        rankBy: params.rankBy,
+                        windowMinutes: params.windowMinutes,
+                        statements,
+                    },
+                };
+            } catch (error) {
+                return {
+                    content: [
+                        { type: "text", text: formatDatabaseError(error) },
+                    ],
+                };
+            }
+        },
+    );
+
+    // ========================================================================
+    // get_statement_plan
+    // ========================================================================
+    server.registerTool(
+        "get_statement_plan",
+        {
+            title: "Get Statement Plan",
+            description: `Shows the execution plans a statement has used, by statement digest.
+
+Reads the statement summary for the digest returned by list_top_statements or
+list_slow_queries. A statement that switched plans has one entry per plan
+digest, with the executions and latency of each, so plan regressions stand
+out. Each plan is checked for full scans and missing statistics like
+explain_query does.
+
+**IMPORTANT: Database credentials required.** You MUST ask the user to choose:
+1. Provide credentials in this conversation (ask for username/password)
+2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
+
+Args:
+  - digest (string, required): Digest of the statement
+  - planDigest (string, optional): Only return this plan
+  - host (string, optional): Database host
+  - username (string, optional): Database username
+  - password (string, optional): Database password
+
+Returns:
+  Each plan with its digest, statistics, issues found and plan text.`,
+            inputSchema: GetStatementPlanInputSchema,
+            annotations: {
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true,
+                openWorldHint: true,
+            },
+        },
+        async (params: GetStatementPlanInput) => {
+            try {
+                const config = resolveConfig(defaultConfig, params);
+                const db = new TiDBDatabase(config);
+                const plans = await getStatementPlans(
+                    db,
+                    params.digest,
+                    params.planDigest,
+                );
+
+                if (plans.length === 0) {
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Error: No plans found for digest ${params.digest}${params.planDigest ? ` and plan digest ${params.planDigest}` : ""}. The statement may have aged out of the statement summary.`,
+                            },
+                        ],
+                    };
+                }
+
+                const results = plans.map((plan) => {
+                    const root = parsePlan(parsePlanText(plan.plan));
+                    return {
+                        ...plan,
+                        issues: root ? findPlanIssues(root) : [],
+                    };
+                });
+
+                const lines = [
+                    `# Plans of Statement ${params.digest}`,
+                    "",
+                    "```sql",
+                    plans[0].sampleText,
+                    "```",
+                    "",
+                ];
+                for (const plan of results) {
+                    lines.push(
+                        `## Plan ${plan.planDigest || "(unknown digest)"}`,
+                        "",
+                        `- Executions: ${plan.executions}`,
+                        `- Avg latency: ${formatDuration(plan.avgLatencyMs)} (max ${formatDuration(plan.maxLatencyMs)})`,
+                        `- Seen: ${plan.firstSeen} to ${plan.lastSeen}`,
+                        "",
+                        formatPlanIssues(plan.issues),
+                        "",
+                        "```",
+                        plan.plan.trim(),
+                        "```",
+                        "",
+                    );
+                }
+
+                return {
+                    content: [{ type: "text", text: lines.join("\n") }],
+                    structuredContent: {
+                        digest: params.digest,
+                        plans: results,
+                    },
+                };
+            } catch (error) {
+                return {
+                    content: [
+                        { type: "text", text: formatDatabaseError(error) },
+                    ],
+                };
+            }
+        },
+    );
+
+    // ========================================================================
+    // list_slow_queries
+    // ========================================================================
+    server.registerTool(
+        "list_slow_queries",
+        {
+            title: "List Slow Queries",
+            description: `Lists the slowest query executions of a recent time window.
+
+Reads the slow query log of all TiDB instances, slowest first. Each sample
+shows the query text with its literals, how long it took, the keys it
+processed, its memory use and the indexes it used. TiDB's internal queries
+are left out. Only queries slower than the slow log threshold
+(tidb_slow_log_threshold, 300 ms by default) are recorded.
+
+**IMPORTANT: Database credentials required.** You MUST ask the user to choose:
+1. Provide credentials in this conversation (ask for username/password)
+2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
+
+Args:
+  - windowMinutes (number, optional): How far back to look (default: 60)
+  - limit (number, optional): Number of queries (default: 20, max: 100)
+  - digest (string, optional): Only executions of this statement
+  - database (string, optional): Only queries run against this database
+  - minQueryTimeMs (number, optional): Only queries at least this slow
+  - host (string, optional): Database host
+  - username (string, optional): Database username
+  - password (string, optional): Database password
+
+Returns:
+  Time, duration, database, keys, memory and query text of each execution.`,
+            inputSchema: ListSlowQueriesInputSchema,
+            annotations: {
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true,
+                openWorldHint: true,
+            },
+        },
+        async (params: ListSlowQueriesInput) => {
+            try {
+                const config = resolveConfig(defaultConfig, params);
+                const db = new TiDBDatabase(config);
+                const queries = await listSlowQueries(db, {
+                    windowMinutes: params.windowMinutes,
+                    limit: params.limit,
+                    digest: params.digest,
+                    database: params.database,
+                    minQueryTimeMs: params.minQueryTimeMs,
+                });
+
+                const lines = [
+                    "# Slow Queries",
+                    "",
+                    `Last ${params.windowMinutes} minute(s): ${queries.length} slow quer${queries.length === 1 ? "y" : "ies"}.`,
+                    "",
+                ];
+                if (queries.length > 0) {
+                    lines.push(
+                        formatQueryResultsAsTable(
+                            [
+                                "Time",
+                                "Duration",
+                                "DB",
+                                "Query",
+                                "Processed keys",
+                                "Memory",
+                                "RU",
+                                "OK",
+                                "Digest",
+                            ],
+                            queries.map((query) => ({
+                                Time: query.time,
+                                Duration: formatDuration(query.queryTimeMs),
+                                DB: query.database,
+                                Query: formatSqlCell(query.query),
+                                "Processed keys": query.processedKeys,
+                                Memory: formatByteSize(query.maxMemoryBytes),
+                                RU: Math.round(query.ru),
+                                OK: query.succeeded ? "yes" : "no",
+                                Digest: query.digest,
+                            })),
+                        ),
+                    );
+                }
+
+                return {
+                    content: [{ type: "text", text: lines.join("\n") }],
+                    structuredContent: {
+                        windowMinutes: params.windowMinutes,
+                        queries,
+                    },
+                };
+            } catch (error) {
+                return {
+                    content: [
+                        { type: "text", text: formatDatabaseError(error) },
+                    ],
+                };
+            }
+        },
+    );
+
+    // ========================================================================
+    // advise_indexes
+    // ========================================================================
+    server.registerTool(
+        "advise_indexes",
+        {
+            title: "Advise Indexes",
+            description: `Proposes indexes for a workload and estimates their benefit.
+
+The workload is the given queries or, without queries, the top statements of
+the statement summary (weighted by their executions). Each query is planned
+with EXPLAIN; full table scans on TiKV lead to candidate indexes built from
+the equality filters and join keys on the table, followed by one range
+filter or the sort keys. Candidates already covered by an existing index are
+left out.
+
+The benefit of each candidate is estimated by planning the queries again with
+the candidate as a hypothetical index (HYPO_INDEX hint), which is
+never built, and comparing the optimizer's cost. Nothing is executed.
+
+Apply the proposed DDL on a branch first: create one with
+tidbcloud_create_branch, run the DDL there with db_execute and compare plans
+with explain_query before changing the main cluster.
+
+**IMPORTANT: Database credentials required.** You MUST ask the user to choose:
+1. Provide credentials in this conversation (ask for username/password)
+2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
+
+Args:
+  - queries (string[], optional): The queries to optimize for (max: 20)
+  - windowMinutes (number, optional): Without queries, how far back to look
+    for top statements (default: 60)
+  - topStatements (number, optional): Without queries, how many top
+    statements to use (default: 10, max: 20)
+  - maxCandidates (number, optional): Maximum indexes to propose (default: 5)
+  - database (string, optional): Database to plan the queries in
+  - host (string, optional): Database host
+  - username (string, optional): Database username
+  - password (string, optional): Database password
+
+Returns:
+  The proposed indexes, best first, with their estimated effect on each
+  query and ready-to-run CREATE INDEX statements.`,
+            inputSchema: AdviseIndexesInputSchema,
+            annotations: {
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true,
+                openWorldHint: true,
+            },
+        },
+        async (params: AdviseIndexesInput) => {
+            try {
+                const config = resolveConfig(defaultConfig, params);
+                const db = new TiDBDatabase(config);
+
+                let workload: WorkloadQuery[];
+                if (params.queries) {
+                    workload = params.queries.map((sql) => ({
+                        sql,
+                        database: params.database,
+                    }));
+                } else {
+                    const statements = await listTopStatements(db, {
+                        rankBy: "total_latency",
+                        windowMinutes: params.windowMinutes,
+                        limit: params.topStatements,
+                        database: params.database,
+                    });
+                    workload = statements
+                        .filter(
+                            (statement) =>
+                                ["Select", "Update", "Delete"].includes(
+                                    statement.statementType,
+                                ) && statement.sampleText !== "",
+                        )
+                        .map((statement) => ({
+                            sql: statement.sampleText,
+                            database: statement.database || params.database,
+                            weight: statement.executions,
+                        }));
+                    if (workload.length === 0) {
+                        throw new TiDBDatabaseError(
+                            `No SELECT, UPDATE or DELETE statements found in the statement summary of the last ${params.windowMinutes} minute(s). Pass queries instead.`,
+                        );
+                    }
+                }
+
+                const advice = await adviseIndexes(
+                    db,
+                    workload,
+                    params.maxCandidates,
+                );
+
+                const lines = [
+                    "# Index Advice",
+                    "",
+                    `Analyzed ${workload.length - advice.skipped.length} of ${workload.length} quer${workload.length === 1 ? "y" : "ies"}${params.queries ? "" : " from the statement summary"}.`,
+                    "",
+                    "## Workload",
+                    "",
+                    formatQueryResultsAsTable(
+                        ["Query", "SQL", "Cost"],
+                        workload.map((query, i) => ({
+                            Query: i + 1,
+                            SQL: formatSqlCell(query.sql),
+                            Cost:
+                                advice.baselineCosts[i] !== undefined
+                                    ? formatCost(advice.baselineCosts[i])
+                                    : "-",
+                        })),
+                    ),
+                    "",
+                ];
+
+                if (advice.skipped.length === workload.length) {
+                    lines.push("None of the queries could be analyzed.", "");
+                } else if (advice.candidates.length === 0) {
+                    lines.push(
+                        "No index candidates: the queries don't scan TiKV tables in full, or existing indexes already cover their filters.",
+                        "",
+                    );
+                } else {
+                    lines.push(
+                        ...advice.candidates.map((candidate, i) =>
+                            formatIndexCandidate(candidate, i + 1),
+                        ),
+                    );
+                    if (
+                        advice.candidates.every((candidate) =>
+                            candidate.benefits.every(
+                                (benefit) => !benefit.used,
+                            ),
+                        )
+                    ) {
+                        lines.push(
+                            "The optimizer chose none of the candidates. The cluster may not support hypothetical indexes, or the tables may be too small to benefit.",
+                            "",
+                        );
+                    }
+                    lines.push(
+                        "**Next step:** apply the DDL on a branch first (tidbcloud_create_branch, then db_execute against the branch) and compare plans with explain_query before changing the main cluster.",
+                        "",
+                    );
+                }
+
+                if (advice.skipped.length > 0) {
+                    lines.push("## Skipped Queries", "");
+                    for (const skip of advice.skipped) {
+                        lines.push(`- Query ${skip.query + 1}: ${skip.reason}`);
+                    }
+                }
+
+                return {
+                    content: [{ type: "text", text: lines.join("\n") }],
+                    structuredContent: {
+                        workload: workload.map((query, i) => ({
+                            ...query,
+                            cost: advice.baselineCosts[i],
+                        })),
+                        candidates: advice.candidates,
+                        skipped: advice.skipped,
+                    },
+                };
+            } catch (error) {
+                return {
+                    content: [
+                        { type: "text", text: formatDatabaseError(error) },
+                    ],
+                };
+            }
+        },
+    );
+}
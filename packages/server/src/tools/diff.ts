@@ -0,0 +1,483 @@
+/**
+ * Schema and data comparison tools for TiDB Cloud MCP Server
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { TiDBCloudClient } from "../api/client.js";
+import { diffTableData } from "../db/checksum.js";
+import { diffSchemas } from "../db/diff.js";
+import type { DatabaseConfig, SchemaChange } from "../db/types.js";
+import {
+    EndpointSchema,
+    connectEndpoint,
+    formatEndpointError,
+    type ConnectedEndpoint,
+    type Endpoint,
+} from "./connection.js";
+import { formatQueryResultsAsTable } from "./format.js";
+
+// ============================================================================
+// Zod Schemas
+// ============================================================================
+
+const DiffSchemaInputSchema = z
+    .object({
+        source: EndpointSchema.describe(
+            "Endpoint with the desired schema, e.g. the branch a migration was tested on",
+        ),
+        target: EndpointSchema.describe(
+            "Endpoint to compare with, e.g. the parent cluster; the DDL applies to it",
+        ),
+        database: z
+            .string()
+            .optional()
+            .describe(
+                "The database to compare (defaults to the configured database)",
+            ),
+        username: z
+            .string()
+            .optional()
+            .describe("Database username for both endpoints"),
+        password: z
+            .string()
+            .optional()
+            .describe("Database password for both endpoints"),
+    })
+    .strict();
+
+const DiffTableDataInputSchema = z
+    .object({
+        source: EndpointSchema.describe(
+            "Endpoint with the changed data, e.g. the branch a script ran on",
+        ),
+        target: EndpointSchema.describe(
+            "Endpoint to compare with, e.g. the parent cluster",
+        ),
+        table: z
+            .string()
+            .min(1, "Table name is required")
+            .describe("The table to compare"),
+        database: z
+            .string()
+            .optional()
+            .describe(
+                "The database of the table (defaults to the configured database)",
+            ),
+        chunkSize: z
+            .number()
+            .int()
+            .min(100)
+            .max(100000)
+            .optional()
+            .default(10000)
+            .describe("Rows per checksum chunk (default: 10000)"),
+        sampleSize: z
+            .number()
+            .int()
+            .min(0)
+            .max(20)
+            .optional()
+            .default(5)
+            .describe(
+                "Sample rows returned per kind of change (default: 5, max: 20)",
+            ),
+        username: z
+            .string()
+            .optional()
+            .describe("Database username for both endpoints"),
+        password: z
+            .string()
+            .optional()
+            .describe("Database password for both endpoints"),
+    })
+    .strict();
+
+type DiffSchemaInput = z.infer<typeof DiffSchemaInputSchema>;
+type DiffTableDataInput = z.infer<typeof DiffTableDataInputSchema>;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Connects to the source and target endpoints of a comparison, with the
+ * database to compare on each
+ */
+async function connectEndpoints(
+    client: TiDBCloudClient,
+    defaultConfig: DatabaseConfig | undefined,
+    params: {
+        source: Endpoint;
+        target: Endpoint;
+        database?: string;
+        username?: string;
+        password?: string;
+    },
+): Promise<Record<"source" | "target", ConnectedEndpoint>> {
+    const shared = {
+        username: params.username,
+        password: params.password,
+        database: params.database,
+    };
+    const [source, target] = await Promise.all([
+        connectEndpoint(client, defaultConfig, params.source, shared),
+        connectEndpoint(client, defaultConfig, params.target, shared),
+    ]);
+    return { source, target };
+}
+
+/**
+ * Formats schema changes as a markdown table
+ */
+function formatSchemaChanges(changes: SchemaChange[]): string {
+    return formatQueryResultsAsTable(
+        ["Change", "Object", "Table", "Name", "Details"],
+        changes.map((change) => ({
+            Change: change.change,
+            Object: change.object,
+            Table: change.table,
+            Name: change.name ?? "",
+            Details: (change.details ?? "").replace(/\|/g, "\\|"),
+        })),
+    );
+}
+
+/**
+ * Formats sample rows as a markdown table
+ */
+function formatSampleRows(
+    columns: string[],
+    rows: (Record<string, unknown> | undefined)[],
+): string {
+    return formatQueryResultsAsTable(
+        columns,
+        rows
+            .filter((row): row is Record<string, unknown> => row !== undefined)
+            .map((row) =>
+                Object.fromEntries(
+                    columns.map((column) => [
+                        column,
+                        typeof row[column] === "string"
+                            ? (row[column] as string).replace(/\|/g, "\\|")
+                            : row[column],
+                    ]),
+                ),
+            ),
+    );
+}
+
+/**
+ * Formats a key as "column=value" pairs
+ */
+function formatKey(key: Record<string, unknown>): string {
+    return Object.entries(key)
+        .map(([column, value]) => `${column}=${JSON.stringify(value)}`)
+        .join(", ");
+}
+
+// ============================================================================
+// Tool Registration
+// ============================================================================
+
+/**
+ * Registers schema and data comparison tools with the MCP server
+ */
+export function registerDiffTools(
+    server: McpServer,
+    client: TiDBCloudClient,
+    defaultConfig: DatabaseConfig | undefined,
+): void {
+    // ========================================================================
+    // diff_schema
+    // ========================================================================
+    server.registerTool(
+        "diff_schema",
+        {
+            title: "Diff Schema",
+            description: `Compares the schema of a database on two endpoints and generates the DDL to align them.
+
+Each endpoint is a TiDB Cloud cluster, a branch of a cluster, or a host.
+Clusters and branches are resolved to their public endpoint, and the
+username gets the user prefix of the cluster or branch. Tables, columns,
+indexes and views are compared. The result lists what differs, seen from the
+target, and the DDL that makes the target match the source.
+
+Typical use: after testing a migration on a branch, compare the branch
+(source) with its parent cluster (target) to see and apply what changed.
+Nothing is executed; review the DDL and run it with db_execute.
+
+**IMPORTANT: Database credentials required.** You MUST ask the user to choose:
+1. Provide credentials in this conversation (ask for username/password)
+2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
+
+Args:
+  - source (object, required): Endpoint with the desired schema, with
+    cluster and optional branch (names or IDs), or host, and optional
+    username, password and database
+  - target (object, required): Endpoint the DDL applies to, same fields
+  - database (string, optional): The database to compare (defaults to the
+    configured database)
+  - username (string, optional): Database username for both endpoints
+  - password (string, optional): Database password for both endpoints
+
+Returns:
+  The differences and the DDL, in markdown and as structured content.`,
+            inputSchema: DiffSchemaInputSchema,
+            annotations: {
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true,
+                openWorldHint: true,
+            },
+        },
+        async (params: DiffSchemaInput) => {
+            try {
+                const { source, target } = await connectEndpoints(
+                    client,
+                    defaultConfig,
+                    params,
+                );
+                const sourceDatabase = source.database;
+                const targetDatabase = target.database;
+                const diff = await diffSchemas(
+                    source.db,
+                    target.db,
+                    sourceDatabase,
+                    targetDatabase,
+                );
+
+                const lines = [
+                    "# Schema Diff",
+                    "",
+                    `- Source: ${source.label}, database \`${sourceDatabase}\``,
+                    `- Target: ${target.label}, database \`${targetDatabase}\``,
+                    "",
+                ];
+                if (diff.changes.length === 0) {
+                    lines.push("The schemas are identical.");
+                } else {
+                    lines.push(
+                        `${diff.changes.length} difference(s). "added" means only the source has it, "removed" only the target.`,
+                        "",
+                        formatSchemaChanges(diff.changes),
+                        "",
+                    );
+                    if (diff.warnings.length > 0) {
+                        lines.push(
+                            "## Warnings",
+                            "",
+                            ...diff.warnings.map((warning) => `- ${warning}`),
+                            "",
+                        );
+                    }
+                    if (diff.ddl.length > 0) {
+                        lines.push(
+                            "## DDL for the Target",
+                            "",
+                            "```sql",
+                            ...diff.ddl,
+                            "```",
+                            "",
+                            "Review the DDL before running it with db_execute. DROP statements delete data.",
+                        );
+                    }
+                }
+
+                return {
+                    content: [{ type: "text", text: lines.join("\n") }],
+                    structuredContent: {
+                        source: {
+                            label: source.label,
+                            database: sourceDatabase,
+                        },
+                        target: {
+                            label: target.label,
+                            database: targetDatabase,
+                        },
+                        identical: diff.changes.length === 0,
+                        ...diff,
+                    },
+                };
+            } catch (error) {
+                return {
+                    content: [
+                        { type: "text", text: formatEndpointError(error) },
+                    ],
+                };
+            }
+        },
+    );
+
+    // ========================================================================
+    // diff_table_data
+    // ========================================================================
+    server.registerTool(
+        "diff_table_data",
+        {
+            title: "Diff Table Data",
+            description: `Compares the rows of a table on two endpoints and reports which rows differ.
+
+Endpoints are given like for diff_schema. Rows are matched by primary key,
+or by _tidb_rowid for tables without one. A branch shares row IDs with its
+parent only for rows that existed when it was created: rows inserted later
+on both sides may get the same row ID and be reported as updated rather than
+as one insert and one delete. The key range is split into chunks whose row count and
+checksum are compared on both sides; differing chunks are split further
+until the differing rows are found, so whole tables are never read. Only
+columns present on both sides are compared.
+
+Changes are seen from the target: inserted rows exist only in the source,
+deleted rows only in the target, and updated rows have different values.
+Typical use: after running a data fix on a branch (source), compare it with
+the parent cluster (target) to see exactly which rows it touched.
+
+**IMPORTANT: Database credentials required.** You MUST ask the user to choose:
+1. Provide credentials in this conversation (ask for username/password)
+2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
+
+Args:
+  - source (object, required): Endpoint with the changed data
+  - target (object, required): Endpoint to compare with
+  - table (string, required): The table to compare
+  - database (string, optional): The database of the table (defaults to the
+    configured database)
+  - chunkSize (number, optional): Rows per checksum chunk (default: 10000)
+  - sampleSize (number, optional): Sample rows per kind of change
+    (default: 5, max: 20)
+  - username (string, optional): Database username for both endpoints
+  - password (string, optional): Database password for both endpoints
+
+Returns:
+  Counts of inserted, updated and deleted rows with sample rows.`,
+            inputSchema: DiffTableDataInputSchema,
+            annotations: {
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true,
+                openWorldHint: true,
+            },
+        },
+        async (params: DiffTableDataInput) => {
+            try {
+                const { source, target } = await connectEndpoints(
+                    client,
+                    defaultConfig,
+                    params,
+                );
+                const diff = await diffTableData(
+                    source.db,
+                    target.db,
+                    params.table,
+                    {
+                        sourceDatabase: source.database,
+                        targetDatabase: target.database,
+                        chunkSize: params.chunkSize,
+                        sampleSize: params.sampleSize,
+                    },
+                );
+
+                const lines = [
+                    `# Table Data Diff: \`${params.table}\``,
+                    "",
+                    `- Source: ${source.label}, database \`${source.database}\` (${diff.sourceRows} rows)`,
+                    `- Target: ${target.label}, database \`${target.database}\` (${diff.targetRows} rows)`,
+                    `- Rows matched by: ${diff.key.join(", ")}`,
+                    ...(diff.key.includes("_tidb_rowid")
+                        ? [
+                              "- The table has no primary key, so rows inserted on both sides after the branch was created may be reported as updated",
+                          ]
+                        : []),
+                    `- Compared ${diff.chunks} chunk(s) of up to ${params.chunkSize} rows; ${diff.mismatchedChunks} differed`,
+                ];
+                if (diff.skippedColumns.length > 0) {
+                    lines.push(
+                        `- Not compared (only on one side): ${diff.skippedColumns.join(", ")}`,
+                    );
+                }
+                lines.push("");
+
+                if (diff.inserted + diff.updated + diff.deleted === 0) {
+                    lines.push("The table data is identical.");
+                } else {
+                    lines.push(
+                        formatQueryResultsAsTable(
+                            ["Change", "Rows"],
+                            [
+                                {
+                                    Change: "Inserted (only in source)",
+                                    Rows: diff.inserted,
+                                },
+                                { Change: "Updated", Rows: diff.updated },
+                                {
+                                    Change: "Deleted (only in target)",
+                                    Rows: diff.deleted,
+                                },
+                            ],
+                        ),
+                        "",
+                    );
+                    if (diff.samples.inserted.length > 0) {
+                        lines.push(
+                            "## Inserted Rows (sample)",
+                            "",
+                            formatSampleRows(
+                                diff.columns,
+                                diff.samples.inserted.map((row) => row.source),
+                            ),
+                            "",
+                        );
+                    }
+                    if (diff.samples.updated.length > 0) {
+                        lines.push("## Updated Rows (sample)", "");
+                        for (const row of diff.samples.updated) {
+                            const changes = (row.changedColumns ?? []).map(
+                                (column) =>
+                                    `${column}: ${JSON.stringify(row.target?.[column])} → ${JSON.stringify(row.source?.[column])}`,
+                            );
+                            lines.push(
+                                `- ${formatKey(row.key)}: ${changes.join("; ") || "changed since the comparison"}`,
+                            );
+                        }
+                        lines.push("");
+                    }
+                    if (diff.samples.deleted.length > 0) {
+                        lines.push(
+                            "## Deleted Rows (sample)",
+                            "",
+                            formatSampleRows(
+                                diff.columns,
+                                diff.samples.deleted.map((row) => row.target),
+                            ),
+                            "",
+                        );
+                    }
+                }
+
+                return {
+                    content: [{ type: "text", text: lines.join("\n") }],
+                    structuredContent: {
+                        table: params.table,
+                        source: {
+                            label: source.label,
+                            database: source.database,
+                        },
+                        target: {
+                            label: target.label,
+                            database: target.database,
+                        },
+                        identical:
+                            diff.inserted + diff.updated + diff.deleted === 0,
+                        ...diff,
+                    },
+                };
+            } catch (error) {
+                return {
+                    content: [
+                        { type: "text", text: formatEndpointError(error) },
+                    ],
+                };
+            }
+        },
+    );
+}
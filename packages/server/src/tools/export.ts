@@ -0,0 +1,599 @@
+/**
+ * Data export tools for TiDB Cloud MCP Server
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { TiDBCloudClient, formatApiError } from "../api/client.js";
+import {
+  ExportState,
+  type Export,
+  type ExportDownload,
+  type ExportFilter,
+  type ExportTarget,
+} from "../api/types.js";
+
+// ============================================================================
+// Zod Schemas
+// ============================================================================
+
+const CreateExportInputSchema = z
+  .object({
+    cluster: z
+      .string()
+      .min(1, "Cluster name or ID is required")
+      .describe(
+        "The cluster name or ID to export from. You can use the display name (e.g., 'my-cluster') or the cluster ID.",
+      ),
+    fileType: z
+      .enum(["CSV", "PARQUET", "SQL"])
+      .describe("Format of the exported files"),
+    database: z
+      .string()
+      .optional()
+      .describe("Database to export. Omit (with sql unset) to export all data"),
+    table: z
+      .string()
+      .optional()
+      .describe("Table to export within database. Omit to export every table"),
+    where: z
+      .string()
+      .optional()
+      .describe(
+        "Optional WHERE condition applied to exported tables, e.g. \"created_at > '2024-01-01'\"",
+      ),
+    sql: z
+      .string()
+      .optional()
+      .describe(
+        "Export the result of this SELECT query instead of whole tables",
+      ),
+    compression: z
+      .enum(["GZIP", "SNAPPY", "ZSTD", "NONE"])
+      .optional()
+      .describe("Compression for exported files (default GZIP)"),
+    displayName: z
+      .string()
+      .max(64)
+      .optional()
+      .describe("Display name for the export task"),
+    s3Uri: z
+      .string()
+      .optional()
+      .describe(
+        "Write files to this S3 folder (e.g. 's3://bucket/exports/') instead of TiDB Cloud storage",
+      ),
+    s3RoleArn: z
+      .string()
+      .optional()
+      .describe("IAM role ARN TiDB Cloud assumes to write to the bucket"),
+    s3AccessKeyId: z
+      .string()
+      .optional()
+      .describe("Access key ID for the bucket (alternative to s3RoleArn)"),
+    s3SecretAccessKey: z
+      .string()
+      .optional()
+      .describe("Secret access key matching s3AccessKeyId"),
+  })
+  .strict();
+
+const ListExportsInputSchema = z
+  .object({
+    cluster: z
+      .string()
+      .min(1, "Cluster name or ID is required")
+      .describe(
+        "The cluster name or ID. You can use the display name (e.g., 'my-cluster') or the cluster ID.",
+      ),
+    pageSize: z
+      .number()
+      .min(1)
+      .max(100)
+      .optional()
+      .describe("Number of export tasks per page (1-100, default 10)"),
+    pageToken: z
+      .string()
+      .optional()
+      .describe("Token for fetching the next page of results"),
+  })
+  .strict();
+
+const ExportTaskInputSchema = z
+  .object({
+    cluster: z
+      .string()
+      .min(1, "Cluster name or ID is required")
+      .describe(
+        "The cluster name or ID. You can use the display name (e.g., 'my-cluster') or the cluster ID.",
+      ),
+    exportId: z
+      .string()
+      .min(1, "Export ID is required")
+      .describe("The export task ID"),
+  })
+  .strict();
+
+type CreateExportInput = z.infer<typeof CreateExportInputSchema>;
+type ListExportsInput = z.infer<typeof ListExportsInputSchema>;
+type ExportTaskInput = z.infer<typeof ExportTaskInputSchema>;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Builds the export filter from tool input
+ */
+function buildExportFilter(
+  params: CreateExportInput,
+): ExportFilter | undefined {
+  if (params.sql) {
+    if (params.database || params.table || params.where) {
+      throw new Error(
+        "sql cannot be combined with database, table or where. Put the conditions in the query instead.",
+      );
+    }
+    return { sql: params.sql };
+  }
+
+  if (params.table && !params.database) {
+    throw new Error("database is required when table is set.");
+  }
+
+  if (params.database) {
+    return {
+      table: {
+        patterns: [`${params.database}.${params.table ?? "*"}`],
+        where: params.where,
+      },
+    };
+  }
+
+  if (params.where) {
+    throw new Error("where requires database (and usually table) to be set.");
+  }
+
+  return undefined;
+}
+
+/**
+ * Builds the export target from tool input
+ */
+function buildExportTarget(params: CreateExportInput): ExportTarget {
+  if (!params.s3Uri) {
+    return { type: "LOCAL" };
+  }
+  if (params.s3RoleArn) {
+    return {
+      type: "S3",
+      s3: {
+        uri: params.s3Uri,
+        authType: "ROLE_ARN",
+        roleArn: params.s3RoleArn,
+      },
+    };
+  }
+  if (params.s3AccessKeyId && params.s3SecretAccessKey) {
+    return {
+      type: "S3",
+      s3: {
+        uri: params.s3Uri,
+        authType: "ACCESS_KEY",
+        accessKey: {
+          id: params.s3AccessKeyId,
+          secret: params.s3SecretAccessKey,
+        },
+      },
+    };
+  }
+  throw new Error(
+    "S3 exports need either s3RoleArn or both s3AccessKeyId and s3SecretAccessKey.",
+  );
+}
+
+// ============================================================================
+// Formatting Functions
+// ============================================================================
+
+/**
+ * Formats a single export task into a readable string
+ */
+function formatExportOutput(task: Export, title: string): string {
+  const lines = [
+    `# ${title}`,
+    "",
+    `**Export ID:** ${task.exportId}`,
+    `**Cluster ID:** ${task.clusterId}`,
+    `**State:** ${task.state}`,
+    `**Created At:** ${task.createTime}`,
+  ];
+
+  if (task.displayName) {
+    lines.push(`**Display Name:** ${task.displayName}`);
+  }
+  if (task.exportOptions) {
+    lines.push(`**File Type:** ${task.exportOptions.fileType}`);
+  }
+  if (task.target) {
+    lines.push(
+      `**Target:** ${task.target.type === "S3" ? task.target.s3?.uri : "TiDB Cloud storage (download)"}`,
+    );
+  }
+  if (task.snapshotTime) {
+    lines.push(`**Snapshot Time:** ${task.snapshotTime}`);
+  }
+  if (task.completeTime) {
+    lines.push(`**Completed At:** ${task.completeTime}`);
+  }
+  if (task.expireTime) {
+    lines.push(`**Files Expire At:** ${task.expireTime}`);
+  }
+  if (task.reason) {
+    lines.push("");
+    lines.push(`**Reason:** ${task.reason}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Formats a list of export tasks into a readable string
+ */
+function formatExportListOutput(
+  exports: Export[],
+  clusterId: string,
+  nextPageToken?: string,
+): string {
+  if (exports.length === 0) {
+    return `No export tasks found for cluster ${clusterId}.`;
+  }
+
+  const lines = [
+    `# Export Tasks for Cluster ${clusterId}`,
+    "",
+    "| Export ID | Name | State | Created At |",
+    "|-----------|------|-------|------------|",
+  ];
+
+  for (const task of exports) {
+    lines.push(
+      `| ${task.exportId} | ${task.displayName ?? ""} | ${task.state} | ${task.createTime} |`,
+    );
+  }
+
+  if (nextPageToken) {
+    lines.push("");
+    lines.push("---");
+    lines.push(
+      `More export tasks available. Use pageToken: "${nextPageToken}" to fetch the next page.`,
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Formats download links for exported files
+ */
+function formatDownloadsOutput(
+  exportId: string,
+  downloads: ExportDownload[],
+): string {
+  if (downloads.length === 0) {
+    return `No files available for export ${exportId}.`;
+  }
+
+  const lines = [
+    `# Export ${exportId} Files`,
+    "",
+    `${downloads.length} file(s) available. Links are temporary.`,
+    "",
+  ];
+
+  for (const file of downloads) {
+    const size = file.size !== undefined ? ` (${file.size} bytes)` : "";
+    lines.push(`- [${file.name}](${file.url})${size}`);
+  }
+
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Tool Registration
+// ============================================================================
+
+/**
+ * Registers data export tools with the MCP server
+ */
+export function registerExportTools(
+  server: McpServer,
+  client: TiDBCloudClient,
+): void {
+  // ========================================================================
+  // Create Export
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_create_export",
+    {
+      title: "Create TiDB Cloud Export",
+      description: `Exports data from a TiDB Cloud cluster to CSV, Parquet or SQL files.
+
+Choose what to export:
+  - database (+ optional table and where) to export tables
+  - sql to export the result of a SELECT query
+  - neither to export all data in the cluster
+
+Files are kept in TiDB Cloud storage for download unless s3Uri is given.
+
+Branches can't be exported: the export API takes a cluster ID only and has
+no way to target a branch. To get data out of a branch, read it with
+db_query on the branch endpoint instead.
+
+This operation is asynchronous. Use tidbcloud_get_export to track progress
+and tidbcloud_download_export to get download links once it SUCCEEDED.
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - fileType (string, required): CSV, PARQUET or SQL
+  - database (string, optional): Database to export
+  - table (string, optional): Table to export
+  - where (string, optional): Row filter for exported tables
+  - sql (string, optional): SELECT query whose result is exported
+  - compression (string, optional): GZIP, SNAPPY, ZSTD or NONE
+  - displayName (string, optional): Name for the export task
+  - s3Uri (string, optional): S3 folder to write files to
+  - s3RoleArn (string, optional): IAM role ARN for S3 access
+  - s3AccessKeyId / s3SecretAccessKey (string, optional): Access key for S3
+
+Returns:
+  The created export task.`,
+      inputSchema: CreateExportInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params: CreateExportInput) => {
+      try {
+        const filter = buildExportFilter(params);
+        const target = buildExportTarget(params);
+
+        // Resolve cluster name to ID
+        const clusterId = await client.resolveClusterId(params.cluster);
+        const task = await client.createExport(clusterId, {
+          displayName: params.displayName,
+          exportOptions: {
+            fileType: params.fileType,
+            compression: params.compression,
+            filter,
+          },
+          target,
+        });
+
+        let textContent = formatExportOutput(task, "Export Started");
+        textContent += "\n\n";
+        textContent +=
+          "> Use `tidbcloud_get_export` to track progress until the state is SUCCEEDED.";
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: { ...task },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // List Exports
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_list_exports",
+    {
+      title: "List TiDB Cloud Exports",
+      description: `Lists data export tasks of a TiDB Cloud cluster.
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - pageSize (number, optional): Number of export tasks per page (1-100, default 10)
+  - pageToken (string, optional): Token for fetching the next page
+
+Returns:
+  List of export tasks with their state.`,
+      inputSchema: ListExportsInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: ListExportsInput) => {
+      try {
+        // Resolve cluster name to ID
+        const clusterId = await client.resolveClusterId(params.cluster);
+        const response = await client.listExports(
+          clusterId,
+          params.pageSize,
+          params.pageToken,
+        );
+        const exports = response.exports || [];
+
+        const textContent = formatExportListOutput(
+          exports,
+          clusterId,
+          response.nextPageToken,
+        );
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: {
+            clusterId,
+            exports,
+            nextPageToken: response.nextPageToken,
+            totalSize: response.totalSize,
+          },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // Get Export
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_get_export",
+    {
+      title: "Get TiDB Cloud Export",
+      description: `Gets the state of a data export task.
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - exportId (string, required): The export task ID
+
+Returns:
+  Export task details including state, target and any failure reason.`,
+      inputSchema: ExportTaskInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: ExportTaskInput) => {
+      try {
+        // Resolve cluster name to ID
+        const clusterId = await client.resolveClusterId(params.cluster);
+        const task = await client.getExport(clusterId, params.exportId);
+
+        let textContent = formatExportOutput(task, "Export Details");
+        if (
+          task.state === ExportState.SUCCEEDED &&
+          task.target?.type !== "S3"
+        ) {
+          textContent +=
+            "\n\n> Use `tidbcloud_download_export` to get download links for the files.";
+        }
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: { ...task },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // Cancel Export
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_cancel_export",
+    {
+      title: "Cancel TiDB Cloud Export",
+      description: `Cancels a running data export task.
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - exportId (string, required): The export task ID to cancel
+
+Returns:
+  The canceled export task.`,
+      inputSchema: ExportTaskInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: ExportTaskInput) => {
+      try {
+        // Resolve cluster name to ID
+        const clusterId = await client.resolveClusterId(params.cluster);
+        const task = await client.cancelExport(clusterId, params.exportId);
+        const textContent = formatExportOutput(task, "Export Canceled");
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: { ...task },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // Download Export
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_download_export",
+    {
+      title: "Download TiDB Cloud Export",
+      description: `Gets temporary download links for the files of a finished export.
+
+Only applies to exports kept in TiDB Cloud storage (no s3Uri) whose state
+is SUCCEEDED.
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - exportId (string, required): The export task ID
+
+Returns:
+  One download URL per exported file.`,
+      inputSchema: ExportTaskInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: ExportTaskInput) => {
+      try {
+        // Resolve cluster name to ID
+        const clusterId = await client.resolveClusterId(params.cluster);
+        const response = await client.downloadExport(
+          clusterId,
+          params.exportId,
+        );
+        const downloads = response.downloads || [];
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatDownloadsOutput(params.exportId, downloads),
+            },
+          ],
+          structuredContent: {
+            clusterId,
+            exportId: params.exportId,
+            downloads,
+          },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * Output formatting shared by the database tools
+ */
+
+/**
+ * Formats query results as a markdown table
+ */
+export function formatQueryResultsAsTable(
+    columns: string[],
+    rows: Record<string, unknown>[],
+): string {
+    if (rows.length === 0) {
+        return "No results returned.";
+    }
+
+    const lines: string[] = [];
+
+    // Header row
+    lines.push("| " + columns.join(" | ") + " |");
+    // Separator row
+    lines.push("| " + columns.map(() => "---").join(" | ") + " |");
+    // Data rows
+    for (const row of rows) {
+        const values = columns.map((col) => {
+            const value = row[col];
+            if (value === null) return "NULL";
+            if (value === undefined) return "";
+            return String(value);
+        });
+        lines.push("| " + values.join(" | ") + " |");
+    }
+
+    return lines.join("\n");
+}
+
+/**
+ * Formats a byte count with a binary unit, e.g. "1.5 MiB"
+ */
+export function formatByteSize(bytes: number): string {
+    const units = ["B", "KiB", "MiB", "GiB", "TiB"];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return unit === 0
+        ? `${value} ${units[unit]}`
+        : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Shortens a statement for display in a report
+ */
+export function summarizeStatement(sql: string, maxLength = 80): string {
+    const singleLine = sql.replace(/\s+/g, " ");
+    return singleLine.length > maxLength
+        ? `${singleLine.slice(0, maxLength - 3)}...`
+        : singleLine;
+}
+
+/**
+ * Formats a duration in milliseconds with a readable unit, e.g. "1.25 s"
+ */
+export function formatDuration(ms: number): string {
+    if (ms < 1) {
+        return `${Math.round(ms * 1000)} µs`;
+    }
+    if (ms < 1000) {
+        return `${ms.toFixed(1)} ms`;
+    }
+    return `${(ms / 1000).toFixed(2)} s`;
+}
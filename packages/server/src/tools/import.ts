@@ -0,0 +1,547 @@
+/**
+ * Data import tools for TiDB Cloud MCP Server
+ */
+
+import { z } from "zod";
+import { basename } from "path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { TiDBCloudClient, formatApiError } from "../api/client.js";
+import type { Import, ImportSource } from "../api/types.js";
+
+/**
+ * Options controlling which import sources are offered
+ */
+export interface ImportToolOptions {
+  /**
+   * Allow importing files from the local filesystem. Only enable this for
+   * servers running on the user's machine (stdio), never for hosted ones.
+   */
+  allowLocalFiles?: boolean;
+}
+
+// ============================================================================
+// Zod Schemas
+// ============================================================================
+
+const CsvOptionsSchema = z
+  .object({
+    separator: z.string().optional().describe("Field separator (default ',')"),
+    delimiter: z
+      .string()
+      .optional()
+      .describe("Quote delimiter around fields (default '\"')"),
+    header: z
+      .boolean()
+      .optional()
+      .describe("Whether the first row is a header (default true)"),
+    nullValue: z
+      .string()
+      .optional()
+      .describe("String that represents NULL (default '\\N')"),
+    backslashEscape: z
+      .boolean()
+      .optional()
+      .describe("Whether backslashes escape characters (default true)"),
+  })
+  .strict();
+
+const CreateImportInputSchema = z
+  .object({
+    cluster: z
+      .string()
+      .min(1, "Cluster name or ID is required")
+      .describe(
+        "The cluster name or ID to import into. You can use the display name (e.g., 'my-cluster') or the cluster ID.",
+      ),
+    fileType: z
+      .enum(["CSV", "PARQUET", "SQL"])
+      .describe("Format of the source files"),
+    database: z
+      .string()
+      .min(1, "Target database is required")
+      .describe("Database to import into"),
+    table: z
+      .string()
+      .optional()
+      .describe("Table to import into (required for local CSV/Parquet files)"),
+    localPath: z
+      .string()
+      .optional()
+      .describe(
+        "Path of a local file to upload and import (only on the local stdio server)",
+      ),
+    s3Uri: z
+      .string()
+      .optional()
+      .describe(
+        "S3 URI of the file or folder to import, e.g. 's3://bucket/path/' or 's3://bucket/data.*.csv'",
+      ),
+    s3RoleArn: z
+      .string()
+      .optional()
+      .describe("IAM role ARN TiDB Cloud assumes to read the bucket"),
+    s3AccessKeyId: z
+      .string()
+      .optional()
+      .describe("Access key ID for the bucket (alternative to s3RoleArn)"),
+    s3SecretAccessKey: z
+      .string()
+      .optional()
+      .describe("Secret access key matching s3AccessKeyId"),
+    csv: CsvOptionsSchema.optional().describe("CSV parsing options"),
+  })
+  .strict();
+
+const ListImportsInputSchema = z
+  .object({
+    cluster: z
+      .string()
+      .min(1, "Cluster name or ID is required")
+      .describe(
+        "The cluster name or ID. You can use the display name (e.g., 'my-cluster') or the cluster ID.",
+      ),
+    pageSize: z
+      .number()
+      .min(1)
+      .max(100)
+      .optional()
+      .describe("Number of import tasks per page (1-100, default 10)"),
+    pageToken: z
+      .string()
+      .optional()
+      .describe("Token for fetching the next page of results"),
+  })
+  .strict();
+
+const ImportTaskInputSchema = z
+  .object({
+    cluster: z
+      .string()
+      .min(1, "Cluster name or ID is required")
+      .describe(
+        "The cluster name or ID. You can use the display name (e.g., 'my-cluster') or the cluster ID.",
+      ),
+    importId: z
+      .string()
+      .min(1, "Import ID is required")
+      .describe("The import task ID"),
+  })
+  .strict();
+
+type CreateImportInput = z.infer<typeof CreateImportInputSchema>;
+type ListImportsInput = z.infer<typeof ListImportsInputSchema>;
+type ImportTaskInput = z.infer<typeof ImportTaskInputSchema>;
+
+// ============================================================================
+// Formatting Functions
+// ============================================================================
+
+/**
+ * Formats a single import task into a readable string
+ */
+function formatImportOutput(task: Import, title: string): string {
+  const lines = [
+    `# ${title}`,
+    "",
+    `**Import ID:** ${task.importId}`,
+    `**Cluster ID:** ${task.clusterId}`,
+    `**State:** ${task.state}`,
+    `**Created At:** ${task.createTime}`,
+  ];
+
+  if (task.completePercent !== undefined) {
+    lines.push(`**Progress:** ${task.completePercent}%`);
+  }
+  if (task.totalSize) {
+    lines.push(`**Total Size:** ${task.totalSize} bytes`);
+  }
+  if (task.completeTime) {
+    lines.push(`**Completed At:** ${task.completeTime}`);
+  }
+  if (task.message) {
+    lines.push("");
+    lines.push(`**Message:** ${task.message}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Formats a list of import tasks into a readable string
+ */
+function formatImportListOutput(
+  imports: Import[],
+  clusterId: string,
+  nextPageToken?: string,
+): string {
+  if (imports.length === 0) {
+    return `No import tasks found for cluster ${clusterId}.`;
+  }
+
+  const lines = [
+    `# Import Tasks for Cluster ${clusterId}`,
+    "",
+    "| Import ID | State | Progress | Created At |",
+    "|-----------|-------|----------|------------|",
+  ];
+
+  for (const task of imports) {
+    lines.push(
+      `| ${task.importId} | ${task.state} | ${task.completePercent ?? 0}% | ${task.createTime} |`,
+    );
+  }
+
+  if (nextPageToken) {
+    lines.push("");
+    lines.push("---");
+    lines.push(
+      `More import tasks available. Use pageToken: "${nextPageToken}" to fetch the next page.`,
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Builds the import source from tool input, uploading local files first
+ */
+async function buildImportSource(
+  client: TiDBCloudClient,
+  clusterId: string,
+  params: CreateImportInput,
+  options: ImportToolOptions,
+): Promise<ImportSource> {
+  if (params.localPath && params.s3Uri) {
+    throw new Error(
+      "Provide either localPath or s3Uri as the import source, not both.",
+    );
+  }
+  if (params.localPath) {
+    if (!options.allowLocalFiles) {
+      throw new Error(
+        "Local file imports are only available on the local (stdio) server. Use s3Uri instead.",
+      );
+    }
+    if (params.fileType !== "SQL" && !params.table) {
+      throw new Error(
+        "table is required when importing a local CSV or Parquet file.",
+      );
+    }
+
+    // Loaded lazily so hosted builds never touch the filesystem module
+    const { open } = await import("fs/promises");
+    const file = await open(params.localPath, "r");
+    let uploadId: string;
+    try {
+      const { size } = await file.stat();
+      // One buffer, reused for every part, so memory use stays at one part
+      let buffer: Buffer | undefined;
+      uploadId = await client.uploadImportFile(
+        clusterId,
+        basename(params.localPath),
+        {
+          size,
+          read: async (offset, length) => {
+            if (!buffer || buffer.length < length) {
+              buffer = Buffer.alloc(length);
+            }
+            const { bytesRead } = await file.read(buffer, 0, length, offset);
+            return buffer.subarray(0, bytesRead);
+          },
+        },
+        params.database,
+        params.table,
+      );
+    } finally {
+      await file.close();
+    }
+
+    return {
+      type: "LOCAL",
+      local: {
+        uploadId,
+        targetDatabase: params.database,
+        targetTable: params.table,
+      },
+    };
+  }
+
+  if (params.s3Uri) {
+    if (params.s3RoleArn) {
+      return {
+        type: "S3",
+        s3: {
+          uri: params.s3Uri,
+          authType: "ROLE_ARN",
+          roleArn: params.s3RoleArn,
+        },
+      };
+    }
+    if (params.s3AccessKeyId && params.s3SecretAccessKey) {
+      return {
+        type: "S3",
+        s3: {
+          uri: params.s3Uri,
+          authType: "ACCESS_KEY",
+          accessKey: {
+            id: params.s3AccessKeyId,
+            secret: params.s3SecretAccessKey,
+          },
+        },
+      };
+    }
+    throw new Error(
+      "S3 imports need either s3RoleArn or both s3AccessKeyId and s3SecretAccessKey.",
+    );
+  }
+
+  throw new Error("Provide either localPath or s3Uri as the import source.");
+}
+
+// ============================================================================
+// Tool Registration
+// ============================================================================
+
+/**
+ * Registers data import tools with the MCP server
+ */
+export function registerImportTools(
+  server: McpServer,
+  client: TiDBCloudClient,
+  options: ImportToolOptions = {},
+): void {
+  // ========================================================================
+  // Create Import
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_create_import",
+    {
+      title: "Create TiDB Cloud Import",
+      description: `Imports CSV, Parquet or SQL files into a TiDB Cloud Serverless cluster.
+
+Sources (give exactly one):
+  - Local file (localPath): uploaded from this machine, only on the local stdio server
+  - Amazon S3 (s3Uri): read by TiDB Cloud using an IAM role ARN or access key
+
+This operation is asynchronous. Use tidbcloud_get_import to track progress
+until the state is COMPLETED.
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - fileType (string, required): CSV, PARQUET or SQL
+  - database (string, required): Target database
+  - table (string, optional): Target table (required for local CSV/Parquet)
+  - localPath (string, optional): Local file to upload
+  - s3Uri (string, optional): S3 URI of the file(s) to import
+  - s3RoleArn (string, optional): IAM role ARN for S3 access
+  - s3AccessKeyId / s3SecretAccessKey (string, optional): Access key for S3
+  - csv (object, optional): CSV options (separator, delimiter, header, nullValue, backslashEscape)
+
+Returns:
+  The created import task.`,
+      inputSchema: CreateImportInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params: CreateImportInput) => {
+      try {
+        // Resolve cluster name to ID
+        const clusterId = await client.resolveClusterId(params.cluster);
+        const source = await buildImportSource(
+          client,
+          clusterId,
+          params,
+          options,
+        );
+
+        const task = await client.createImport(clusterId, {
+          importOptions: {
+            fileType: params.fileType,
+            csvFormat: params.csv
+              ? {
+                  separator: params.csv.separator,
+                  delimiter: params.csv.delimiter,
+                  header: params.csv.header,
+                  null: params.csv.nullValue,
+                  backslashEscape: params.csv.backslashEscape,
+                }
+              : undefined,
+          },
+          source,
+        });
+
+        let textContent = formatImportOutput(task, "Import Started");
+        textContent += "\n\n";
+        textContent +=
+          "> Use `tidbcloud_get_import` to track progress until the state is COMPLETED.";
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: { ...task },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // List Imports
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_list_imports",
+    {
+      title: "List TiDB Cloud Imports",
+      description: `Lists data import tasks of a TiDB Cloud cluster.
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - pageSize (number, optional): Number of import tasks per page (1-100, default 10)
+  - pageToken (string, optional): Token for fetching the next page
+
+Returns:
+  List of import tasks with their state and progress.`,
+      inputSchema: ListImportsInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: ListImportsInput) => {
+      try {
+        // Resolve cluster name to ID
+        const clusterId = await client.resolveClusterId(params.cluster);
+        const response = await client.listImports(
+          clusterId,
+          params.pageSize,
+          params.pageToken,
+        );
+        const imports = response.imports || [];
+
+        const textContent = formatImportListOutput(
+          imports,
+          clusterId,
+          response.nextPageToken,
+        );
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: {
+            clusterId,
+            imports,
+            nextPageToken: response.nextPageToken,
+            totalSize: response.totalSize,
+          },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // Get Import
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_get_import",
+    {
+      title: "Get TiDB Cloud Import",
+      description: `Gets the state and progress of a data import task.
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - importId (string, required): The import task ID
+
+Returns:
+  Import task details including state, progress and any error message.`,
+      inputSchema: ImportTaskInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: ImportTaskInput) => {
+      try {
+        // Resolve cluster name to ID
+        const clusterId = await client.resolveClusterId(params.cluster);
+        const task = await client.getImport(clusterId, params.importId);
+        const textContent = formatImportOutput(task, "Import Details");
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: { ...task },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // Cancel Import
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_cancel_import",
+    {
+      title: "Cancel TiDB Cloud Import",
+      description: `Cancels a running data import task.
+
+Rows already written by the import are not rolled back.
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - importId (string, required): The import task ID to cancel
+
+Returns:
+  Confirmation of cancellation.`,
+      inputSchema: ImportTaskInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: ImportTaskInput) => {
+      try {
+        // Resolve cluster name to ID
+        const clusterId = await client.resolveClusterId(params.cluster);
+        await client.cancelImport(clusterId, params.importId);
+
+        const textContent = [
+          "# Import Cancellation Requested",
+          "",
+          `**Cluster ID:** ${clusterId}`,
+          `**Import ID:** ${params.importId}`,
+        ].join("\n");
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: {
+            clusterId,
+            importId: params.importId,
+            status: "CANCELING",
+          },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+}
@@ -6,3 +6,11 @@ export { registerBranchTools } from "./branch.js";
 export { registerClusterTools } from "./cluster.js";
 export { registerRegionTools } from "./region.js";
 export { registerDatabaseTools } from "./database.js";
+export { registerSchemaTools } from "./schema.js";
+export { registerDiagnosticTools } from "./diagnostics.js";
+export { registerDiffTools } from "./diff.js";
+export { registerMigrationTools } from "./migration.js";
+export { registerBackupTools } from "./backup.js";
+export { registerImportTools, type ImportToolOptions } from "./import.js";
+export { registerExportTools } from "./export.js";
+export { registerSqlUserTools } from "./user.js";
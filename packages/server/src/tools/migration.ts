@@ -0,0 +1,906 @@
+/**
+ * Schema migration tools for TiDB Cloud MCP Server
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { TiDBCloudClient, formatApiError } from "../api/client.js";
+import { BranchState } from "../api/types.js";
+import { TiDBDatabase, formatDatabaseError } from "../db/client.js";
+import {
+    MIGRATIONS_TABLE,
+    applyMigrations,
+    getMigrationStatus,
+    registerMigrations,
+    rollbackMigrations,
+} from "../db/migrations.js";
+import {
+    applyRowLimit,
+    classifySql,
+    formatStatementCategory,
+} from "../db/sql.js";
+import type {
+    BatchResult,
+    ClassifiedStatement,
+    DatabaseConfig,
+    MigrationRecord,
+    MigrationRun,
+    QueryResult,
+} from "../db/types.js";
+import {
+    EndpointSchema,
+    connectEndpoint,
+    formatEndpointError,
+    resolveEndpoint,
+    type Endpoint,
+} from "./connection.js";
+import { formatQueryResultsAsTable, summarizeStatement } from "./format.js";
+import { createProgressReporter, type ToolExtra } from "./progress.js";
+
+// ============================================================================
+// Zod Schemas
+// ============================================================================
+
+const MigrationSchema = z
+    .object({
+        version: z
+            .string()
+            .min(1, "Version is required")
+            .max(128)
+            .describe(
+                'Version that orders the migration, e.g. "0001" or "20250101120000"',
+            ),
+        name: z
+            .string()
+            .min(1, "Name is required")
+            .max(255)
+            .describe("Short description, e.g. add_orders_status"),
+        up: z
+            .string()
+            .min(1, "Up SQL is required")
+            .describe("SQL that applies the migration"),
+        down: z.string().optional().describe("SQL that reverts the migration"),
+    })
+    .strict();
+
+const RegisterMigrationsInputSchema = EndpointSchema.extend({
+    migrations: z
+        .array(MigrationSchema)
+        .min(1, "At least one migration is required")
+        .max(100)
+        .describe("The migrations to register"),
+}).strict();
+
+const MigrationStatusInputSchema = EndpointSchema;
+
+const ApplyMigrationsInputSchema = EndpointSchema.extend({
+    to: z
+        .string()
+        .optional()
+        .describe(
+            "Apply pending migrations up to and including this version (defaults to all)",
+        ),
+}).strict();
+
+const RollbackMigrationsInputSchema = EndpointSchema.extend({
+    steps: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .default(1)
+        .describe("Number of applied migrations to roll back (default: 1)"),
+}).strict();
+
+const TestMigrationOnBranchInputSchema = z
+    .object({
+        cluster: z
+            .string()
+            .min(1, "Cluster name or ID is required")
+            .describe(
+                "The cluster name or ID to branch from. You can use either the display name (e.g., 'my-cluster') or the cluster ID.",
+            ),
+        sql: z
+            .string()
+            .min(1, "SQL is required")
+            .describe(
+                "DDL and DML statements to rehearse, separated by semicolons",
+            ),
+        verify: z
+            .array(z.string().min(1))
+            .max(20)
+            .optional()
+            .describe(
+                "Read-only queries run after the SQL to check the result",
+            ),
+        branchName: z
+            .string()
+            .min(1)
+            .max(64, "Branch name must not exceed 64 characters")
+            .optional()
+            .describe(
+                "Display name for the branch (defaults to a timestamped name)",
+            ),
+        database: z
+            .string()
+            .optional()
+            .describe(
+                "The database to run the SQL in (defaults to the configured database)",
+            ),
+        username: z
+            .string()
+            .optional()
+            .describe(
+                "Database username; the branch user prefix is applied to it",
+            ),
+        password: z.string().optional().describe("Database password"),
+        deleteBranch: z
+            .boolean()
+            .optional()
+            .default(false)
+            .describe(
+                "Delete the branch afterwards, whatever the outcome (default: false)",
+            ),
+        timeoutSeconds: z
+            .number()
+            .int()
+            .min(60)
+            .max(1800)
+            .optional()
+            .default(600)
+            .describe(
+                "Maximum time to wait for the branch to become ACTIVE (default: 600)",
+            ),
+    })
+    .strict();
+
+type RegisterMigrationsInput = z.infer<typeof RegisterMigrationsInputSchema>;
+type ApplyMigrationsInput = z.infer<typeof ApplyMigrationsInputSchema>;
+type RollbackMigrationsInput = z.infer<typeof RollbackMigrationsInputSchema>;
+type TestMigrationOnBranchInput = z.infer<
+    typeof TestMigrationOnBranchInputSchema
+>;
+
+/**
+ * Rows returned per verification query
+ */
+const VERIFY_MAX_ROWS = 20;
+
+/**
+ * Result of a verification query run on the branch
+ */
+interface VerificationResult {
+    sql: string;
+    result?: QueryResult;
+    truncated?: boolean;
+    error?: string;
+}
+
+const ENDPOINT_ARGS = `  - cluster (string, optional): Cluster name or ID; connects to its public
+    endpoint (defaults to the configured host)
+  - branch (string, optional): Branch name or ID of the cluster
+  - host (string, optional): Database host, instead of cluster and branch
+  - username (string, optional): Database username
+  - password (string, optional): Database password
+  - database (string, optional): The database the migrations apply to
+    (defaults to the configured database)`;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Formats migration records as a markdown table
+ */
+function formatMigrations(migrations: MigrationRecord[]): string {
+    return formatQueryResultsAsTable(
+        ["Version", "Name", "State", "Applied At", "Rollback", "Checksum"],
+        migrations.map((migration) => ({
+            Version: migration.version,
+            Name: migration.name.replace(/\|/g, "\\|"),
+            State: migration.appliedAt ? "applied" : "pending",
+            "Applied At": migration.appliedAt ?? "",
+            Rollback: migration.down?.trim() ? "yes" : "no",
+            Checksum: migration.checksumValid ? "ok" : "MISMATCH",
+        })),
+    );
+}
+
+/**
+ * Formats the outcome of applying or rolling back migrations
+ */
+function formatMigrationRun(
+    title: string,
+    verb: string,
+    label: string,
+    database: string,
+    run: MigrationRun,
+): string {
+    const lines = [
+        `# ${title}`,
+        "",
+        `- Endpoint: ${label}, database \`${database}\``,
+        `- ${verb}: ${run.completed.length > 0 ? run.completed.join(", ") : "none"}`,
+    ];
+    if (run.failure) {
+        const { failure } = run;
+        let outcome: string;
+        if (failure.unrecorded) {
+            outcome = `${failure.message}\n\nThe changes of the migration are in place, but it is still recorded as it was. Don't run it again; update the ${MIGRATIONS_TABLE} table by hand instead.`;
+        } else if (failure.partial) {
+            outcome = `Statement ${failure.statement + 1} failed: ${failure.message}\n\nThe statements before it were committed, as DDL statements commit on their own. Fix the database by hand before retrying; the migration is still recorded as it was.`;
+        } else {
+            outcome = `Statement ${failure.statement + 1} failed: ${failure.message}\n\nThe migration made no changes.`;
+        }
+        lines.push(
+            "",
+            `## Failed: ${failure.version}`,
+            "",
+            outcome,
+            "The migrations after it were not run.",
+        );
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Checks that a verification query is a single read-only statement
+ * @returns Why the query is rejected, if it is
+ */
+function getVerificationViolation(sql: string): string | undefined {
+    const statements = classifySql(sql);
+    if (statements.length !== 1) {
+        return `Verification queries run one statement each, but "${summarizeStatement(sql)}" has ${statements.length}.`;
+    }
+    if (!statements[0].readOnly) {
+        return `Verification query "${summarizeStatement(sql)}" is not read-only.`;
+    }
+    return undefined;
+}
+
+/**
+ * Runs verification queries, keeping going when one of them fails
+ */
+async function runVerification(
+    db: TiDBDatabase,
+    queries: string[],
+    database: string | undefined,
+): Promise<VerificationResult[]> {
+    const results: VerificationResult[] = [];
+    for (const sql of queries) {
+        try {
+            const limitedSql = applyRowLimit(sql, 0, VERIFY_MAX_ROWS + 1);
+            const result = await db.query(
+                limitedSql ?? sql,
+                undefined,
+                database,
+            );
+            const truncated = result.rows.length > VERIFY_MAX_ROWS;
+            results.push({
+                sql,
+                result: {
+                    ...result,
+                    rows: result.rows.slice(0, VERIFY_MAX_ROWS),
+                },
+                truncated,
+            });
+        } catch (error) {
+            results.push({ sql, error: formatDatabaseError(error) });
+        }
+    }
+    return results;
+}
+
+/**
+ * Formats the statements of a rehearsed migration and their outcome
+ */
+function formatRehearsal(
+    statements: ClassifiedStatement[],
+    batch: BatchResult,
+): string[] {
+    const lines = [
+        batch.failure
+            ? `Statement ${batch.failure.index + 1} of ${statements.length} failed. Statements before it were executed; statements after it were not.`
+            : `Executed ${statements.length} statement(s).`,
+        "",
+    ];
+    statements.forEach((statement, i) => {
+        const result = batch.results[i];
+        lines.push(
+            `**Statement ${i + 1}** (${formatStatementCategory(statement.category)}: ${statement.keyword || "?"}): \`${summarizeStatement(statement.sql)}\``,
+        );
+        if (result) {
+            lines.push(`- Rows affected: ${result.rowsAffected}`);
+        } else if (batch.failure?.index === i) {
+            lines.push(`- Error: ${batch.failure.message}`);
+        } else {
+            lines.push("- Not executed");
+        }
+        lines.push("");
+    });
+    return lines;
+}
+
+/**
+ * Formats the results of verification queries
+ */
+function formatVerification(results: VerificationResult[]): string[] {
+    const lines: string[] = [];
+    results.forEach((verification, i) => {
+        lines.push(
+            `### Query ${i + 1}: \`${summarizeStatement(verification.sql)}\``,
+            "",
+        );
+        if (verification.result) {
+            lines.push(
+                formatQueryResultsAsTable(
+                    verification.result.columns,
+                    verification.result.rows,
+                ),
+            );
+            if (verification.truncated) {
+                lines.push("", `> Showing the first ${VERIFY_MAX_ROWS} rows.`);
+            }
+        } else {
+            lines.push(verification.error ?? "");
+        }
+        lines.push("");
+    });
+    return lines;
+}
+
+// ============================================================================
+// Tool Registration
+// ============================================================================
+
+/**
+ * Registers schema migration tools with the MCP server
+ */
+export function registerMigrationTools(
+    server: McpServer,
+    client: TiDBCloudClient,
+    defaultConfig: DatabaseConfig | undefined,
+): void {
+    // ========================================================================
+    // register_migrations
+    // ========================================================================
+    server.registerTool(
+        "register_migrations",
+        {
+            title: "Register Migrations",
+            description: `Registers versioned schema migrations in a database, to be applied later with apply_migrations.
+
+Migrations are stored with their up and down SQL and a SHA-256 checksum in
+the ${MIGRATIONS_TABLE} table of the database, which is created if needed.
+Registering the same migration again changes nothing, and a pending
+migration with new SQL is updated. Applied migrations can't be changed;
+add a new migration instead. Branches inherit the history of their parent,
+so migrations registered on a cluster can be tried on a branch first.
+
+**IMPORTANT: Database credentials required.** You MUST ask the user to choose:
+1. Provide credentials in this conversation (ask for username/password)
+2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
+
+Args:
+  - migrations (array, required): Migrations with version, name, up SQL and
+    optional down SQL (required to roll the migration back)
+${ENDPOINT_ARGS}
+
+Returns:
+  The versions registered, updated and left unchanged.`,
+            inputSchema: RegisterMigrationsInputSchema,
+            annotations: {
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: true,
+                openWorldHint: true,
+            },
+        },
+        async (params: RegisterMigrationsInput) => {
+            try {
+                const { migrations, ...endpoint } = params;
+                const { db, label, database } = await connectEndpoint(
+                    client,
+                    defaultConfig,
+                    endpoint,
+                    {},
+                );
+                const result = await registerMigrations(
+                    db,
+                    database,
+                    migrations,
+                );
+
+                const list = (versions: string[]) =>
+                    versions.length > 0 ? versions.join(", ") : "none";
+                const text = [
+                    "# Migrations Registered",
+                    "",
+                    `- Endpoint: ${label}, database \`${database}\``,
+                    `- Registered: ${list(result.registered)}`,
+                    `- Updated: ${list(result.updated)}`,
+                    `- Unchanged: ${list(result.unchanged)}`,
+                    "",
+                    "Apply them with apply_migrations.",
+                ].join("\n");
+
+                return {
+                    content: [{ type: "text", text }],
+                    structuredContent: { label, database, ...result },
+                };
+            } catch (error) {
+                return {
+                    content: [
+                        { type: "text", text: formatEndpointError(error) },
+                    ],
+                };
+            }
+        },
+    );
+
+    // ========================================================================
+    // migration_status
+    // ========================================================================
+    server.registerTool(
+        "migration_status",
+        {
+            title: "Migration Status",
+            description: `Lists the registered migrations of a database and checks for drift.
+
+Shows which migrations are applied and pending, and reports two kinds of
+drift: migrations whose stored SQL no longer matches its checksum, and
+schema changes made outside of migrations since the last migration was
+applied or rolled back.
+
+**IMPORTANT: Database credentials required.** You MUST ask the user to choose:
+1. Provide credentials in this conversation (ask for username/password)
+2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
+
+Args:
+${ENDPOINT_ARGS}
+
+Returns:
+  The migrations with their state, and the drift found.`,
+            inputSchema: MigrationStatusInputSchema,
+            annotations: {
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true,
+                openWorldHint: true,
+            },
+        },
+        async (params: Endpoint) => {
+            try {
+                const { db, label, database } = await connectEndpoint(
+                    client,
+                    defaultConfig,
+                    params,
+                    {},
+                );
+                const status = await getMigrationStatus(db, database);
+                const pending = status.migrations.filter(
+                    (migration) => !migration.appliedAt,
+                );
+                const tampered = status.migrations.filter(
+                    (migration) => !migration.checksumValid,
+                );
+
+                const lines = [
+                    "# Migration Status",
+                    "",
+                    `- Endpoint: ${label}, database \`${database}\``,
+                ];
+                if (status.migrations.length === 0) {
+                    lines.push(
+                        "",
+                        "No migrations registered. Register them with register_migrations.",
+                    );
+                } else {
+                    lines.push(
+                        `- Applied: ${status.migrations.length - pending.length}`,
+                        `- Pending: ${pending.length}`,
+                        "",
+                        formatMigrations(status.migrations),
+                    );
+                    const drift: string[] = [];
+                    if (tampered.length > 0) {
+                        drift.push(
+                            `- The stored SQL of ${tampered.map((migration) => migration.version).join(", ")} no longer matches its checksum.`,
+                        );
+                    }
+                    if (status.schemaDrift) {
+                        drift.push(
+                            "- The schema changed outside of migrations since the last migration was applied. Use diff_schema against another endpoint to find what changed.",
+                        );
+                    }
+                    if (drift.length > 0) {
+                        lines.push("", "## Drift", "", ...drift);
+                    }
+                }
+
+                return {
+                    content: [{ type: "text", text: lines.join("\n") }],
+                    structuredContent: {
+                        label,
+                        database,
+                        migrations: status.migrations.map(
+                            ({ up: _up, down: _down, ...migration }) =>
+                                migration,
+                        ),
+                        schemaDrift: status.schemaDrift ?? false,
+                    },
+                };
+            } catch (error) {
+                return {
+                    content: [
+                        { type: "text", text: formatEndpointError(error) },
+                    ],
+                };
+            }
+        },
+    );
+
+    // ========================================================================
+    // apply_migrations
+    // ========================================================================
+    server.registerTool(
+        "apply_migrations",
+        {
+            title: "Apply Migrations",
+            description: `Applies the pending registered migrations of a database in version order.
+
+A migration with only DML runs in one transaction together with its history
+update, so it is applied completely or not at all. DDL statements commit on
+their own in TiDB, so a migration with DDL that fails partway leaves the
+statements before the failure applied. Applying stops at the first failed
+migration. Pending migrations older than the latest applied one, or whose
+stored SQL no longer matches its checksum, are refused.
+
+Apply on a branch first (see tidbcloud_create_branch), then on the cluster.
+
+**IMPORTANT: Database credentials required.** You MUST ask the user to choose:
+1. Provide credentials in this conversation (ask for username/password)
+2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
+
+Args:
+  - to (string, optional): Apply up to and including this version (defaults
+    to all pending migrations)
+${ENDPOINT_ARGS}
+
+Returns:
+  The versions applied and the failure, if any.`,
+            inputSchema: ApplyMigrationsInputSchema,
+            annotations: {
+                readOnlyHint: false,
+                destructiveHint: true,
+                idempotentHint: false,
+                openWorldHint: true,
+            },
+        },
+        async (params: ApplyMigrationsInput) => {
+            try {
+                const { to, ...endpoint } = params;
+                const { db, label, database } = await connectEndpoint(
+                    client,
+                    defaultConfig,
+                    endpoint,
+                    {},
+                );
+                const run = await applyMigrations(db, database, to);
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: formatMigrationRun(
+                                "Migrations Applied",
+                                "Applied",
+                                label,
+                                database,
+                                run,
+                            ),
+                        },
+                    ],
+                    structuredContent: { label, database, ...run },
+                };
+            } catch (error) {
+                return {
+                    content: [
+                        { type: "text", text: formatEndpointError(error) },
+                    ],
+                };
+            }
+        },
+    );
+
+    // ========================================================================
+    // rollback_migrations
+    // ========================================================================
+    server.registerTool(
+        "rollback_migrations",
+        {
+            title: "Roll Back Migrations",
+            description: `Rolls back the most recently applied migrations with their down SQL, newest first.
+
+Every migration rolled back needs down SQL; if one has none, nothing is
+rolled back. The same transaction rules as apply_migrations apply, and
+rolling back stops at the first failure. Rolled back migrations stay
+registered as pending.
+
+**IMPORTANT: Database credentials required.** You MUST ask the user to choose:
+1. Provide credentials in this conversation (ask for username/password)
+2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
+
+Args:
+  - steps (number, optional): Number of migrations to roll back (default: 1)
+${ENDPOINT_ARGS}
+
+Returns:
+  The versions rolled back and the failure, if any.`,
+            inputSchema: RollbackMigrationsInputSchema,
+            annotations: {
+                readOnlyHint: false,
+                destructiveHint: true,
+                idempotentHint: false,
+                openWorldHint: true,
+            },
+        },
+        async (params: RollbackMigrationsInput) => {
+            try {
+                const { steps, ...endpoint } = params;
+                const { db, label, database } = await connectEndpoint(
+                    client,
+                    defaultConfig,
+                    endpoint,
+                    {},
+                );
+                const run = await rollbackMigrations(db, database, steps);
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: formatMigrationRun(
+                                "Migrations Rolled Back",
+                                "Rolled back",
+                                label,
+                                database,
+                                run,
+                            ),
+                        },
+                    ],
+                    structuredContent: { label, database, ...run },
+                };
+            } catch (error) {
+                return {
+                    content: [
+                        { type: "text", text: formatEndpointError(error) },
+                    ],
+                };
+            }
+        },
+    );
+
+    // ========================================================================
+    // tidbcloud_test_migration_on_branch
+    // ========================================================================
+    server.registerTool(
+        "tidbcloud_test_migration_on_branch",
+        {
+            title: "Test Migration on TiDB Cloud Branch",
+            description: `Rehearses DDL and DML on a fresh branch of a cluster in one call.
+
+Creates a branch of the cluster with its current data, waits until it is
+ACTIVE, runs the SQL on the branch and then the verification queries, and
+reports the results. The cluster itself is never changed. The statements
+run one by one and stop at the first failure; verification queries only run
+when all statements succeed.
+
+The branch is kept by default so it can be inspected, e.g. with diff_schema
+(source: the branch, target: the cluster), and counts towards the branch
+quota until deleted. Set deleteBranch to remove it afterwards.
+
+**IMPORTANT: Database credentials required.** You MUST ask the user to choose:
+1. Provide credentials in this conversation (ask for username/password)
+2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
+
+Args:
+  - cluster (string, required): The cluster name or ID to branch from
+  - sql (string, required): DDL and DML statements to rehearse
+  - verify (string[], optional): Read-only queries to check the result (max
+    20, first ${VERIFY_MAX_ROWS} rows of each are shown)
+  - branchName (string, optional): Display name for the branch
+  - database (string, optional): The database to run the SQL in (defaults to
+    the configured database)
+  - username (string, optional): Database username; the branch user prefix
+    is applied to it
+  - password (string, optional): Database password
+  - deleteBranch (boolean, optional): Delete the branch afterwards (default:
+    false)
+  - timeoutSeconds (number, optional): Maximum time to wait for the branch
+    (60-1800, default 600)
+
+Returns:
+  The branch, the outcome of each statement and the verification results.
+
+Limitations:
+  - Maximum 5 branches per organization (default quota)
+  - Cannot branch clusters larger than 100 GiB`,
+            inputSchema: TestMigrationOnBranchInputSchema,
+            annotations: {
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false,
+                openWorldHint: true,
+            },
+        },
+        async (params: TestMigrationOnBranchInput, extra: ToolExtra) => {
+            const statements = classifySql(params.sql);
+            const verify = params.verify ?? [];
+            const violation =
+                statements.length === 0
+                    ? "No SQL statement found."
+                    : verify
+                          .map(getVerificationViolation)
+                          .find((message) => message !== undefined);
+            if (violation) {
+                return {
+                    content: [{ type: "text", text: `Error: ${violation}` }],
+                };
+            }
+            // Check before creating a branch that could not be used
+            if (
+                !(params.username ?? defaultConfig?.username) ||
+                !(params.password ?? defaultConfig?.password)
+            ) {
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: "Error: Database credentials are required to run the SQL on the branch. Provide username and password, or configure them with --header flags.",
+                        },
+                    ],
+                };
+            }
+            const database = params.database ?? defaultConfig?.database;
+
+            let clusterId: string | undefined;
+            let branchId: string | undefined;
+            let branchName = params.branchName;
+            let batch: BatchResult | undefined;
+            let verification: VerificationResult[] = [];
+            let error: string | undefined;
+            try {
+                clusterId = await client.resolveClusterId(params.cluster);
+                branchName ??= `mcp-test-${new Date()
+                    .toISOString()
+                    .replace(/\D/g, "")
+                    .slice(0, 14)}`;
+                const created = await client.createBranch(clusterId, {
+                    displayName: branchName,
+                });
+                branchId = created.branchId;
+
+                const timeoutMs = params.timeoutSeconds * 1000;
+                const report = createProgressReporter(extra, timeoutMs);
+                await client.waitForBranchState(
+                    clusterId,
+                    branchId,
+                    BranchState.ACTIVE,
+                    {
+                        timeoutMs,
+                        signal: extra.signal,
+                        onPoll: (state, elapsedMs) =>
+                            report(`Branch is ${state}`, elapsedMs),
+                    },
+                );
+
+                const { config } = await resolveEndpoint(
+                    client,
+                    defaultConfig,
+                    { cluster: clusterId, branch: branchId },
+                    { username: params.username, password: params.password },
+                );
+                const db = new TiDBDatabase(config);
+                batch = await db.executeMultiple(
+                    statements.map((statement) => statement.sql),
+                    database,
+                );
+                if (!batch.failure) {
+                    verification = await runVerification(db, verify, database);
+                }
+            } catch (caught) {
+                error = formatEndpointError(caught);
+            }
+
+            let deleteError: string | undefined;
+            const deleted = Boolean(
+                params.deleteBranch && clusterId && branchId,
+            );
+            if (deleted && clusterId && branchId) {
+                try {
+                    await client.deleteBranch(clusterId, branchId);
+                } catch (caught) {
+                    deleteError = formatApiError(caught);
+                }
+            }
+
+            if (!branchId) {
+                return { content: [{ type: "text", text: error ?? "" }] };
+            }
+
+            const success =
+                Boolean(batch && !batch.failure && !error) &&
+                verification.every((result) => !result.error);
+            const lines = [
+                success ? "# Migration Test Passed" : "# Migration Test Failed",
+                "",
+                `**Cluster ID:** ${clusterId}`,
+                `**Branch:** ${branchName} (${branchId})`,
+                "",
+            ];
+            if (error) {
+                lines.push(`**Error:** ${error}`, "");
+            }
+            if (batch) {
+                lines.push(
+                    "## Statements",
+                    "",
+                    ...formatRehearsal(statements, batch),
+                );
+            }
+            if (verification.length > 0) {
+                lines.push(
+                    "## Verification",
+                    "",
+                    ...formatVerification(verification),
+                );
+            }
+            if (deleteError) {
+                lines.push(
+                    `> **Branch deletion failed:** ${deleteError} Delete it with tidbcloud_delete_branch.`,
+                );
+            } else if (deleted) {
+                lines.push("> The branch is being deleted.");
+            } else {
+                lines.push(
+                    "> The branch was kept. Compare it with the cluster using diff_schema or diff_table_data, and delete it with tidbcloud_delete_branch when done.",
+                );
+            }
+
+            return {
+                content: [{ type: "text", text: lines.join("\n") }],
+                structuredContent: {
+                    clusterId,
+                    branchId,
+                    branchName,
+                    success,
+                    error,
+                    statements: statements.map((statement, i) => ({
+                        sql: statement.sql,
+                        category: statement.category,
+                        status: !batch?.results[i]
+                            ? batch?.failure?.index === i
+                                ? "failed"
+                                : "skipped"
+                            : "executed",
+                        rowsAffected: batch?.results[i]?.rowsAffected,
+                        error:
+                            batch?.failure?.index === i
+                                ? batch.failure.message
+                                : undefined,
+                    })),
+                    verification: verification.map((result) => ({
+                        sql: result.sql,
+                        columns: result.result?.columns,
+                        rows: result.result?.rows,
+                        truncated: result.truncated,
+                        error: result.error,
+                    })),
+                    branchDeleted: deleted && !deleteError,
+                },
+            };
+        },
+    );
+}
@@ -0,0 +1,48 @@
+/**
+ * MCP progress notification helpers for long-running tools
+ */
+
+import type {
+  RequestHandlerExtra,
+} from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Creates a callback that reports progress to the client, if it asked for it
+ * by sending a progress token. Progress is measured in elapsed seconds out of
+ * the timeout.
+ */
+export function createProgressReporter(
+  extra: ToolExtra,
+  timeoutMs: number,
+): (message: string, elapsedMs: number) => Promise<void> {
+  const progressToken = extra._meta?.progressToken;
+  let lastProgress = -1;
+
+  return async (message, elapsedMs) => {
+    if (progressToken === undefined) {
+      return;
+    }
+    // Progress must strictly increase between notifications
+    const progress = Math.max(Math.round(elapsedMs / 1000), lastProgress + 1);
+    lastProgress = progress;
+    try {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress,
+          total: Math.round(timeoutMs / 1000),
+          message,
+        },
+      });
+    } catch {
+      // A failed notification should not abort the wait
+    }
+  };
+}
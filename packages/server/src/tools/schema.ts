@@ -0,0 +1,228 @@
+/**
+ * Schema introspection tools for TiDB Cloud MCP Server
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+    TiDBDatabase,
+    TiDBDatabaseError,
+    formatDatabaseError,
+} from "../db/client.js";
+import { describeSchema } from "../db/schema.js";
+import type { DatabaseConfig, TableSchema } from "../db/types.js";
+import { ConnectionOverrideSchema, resolveConfig } from "./connection.js";
+import { formatByteSize, formatQueryResultsAsTable } from "./format.js";
+
+/**
+ * Maximum number of tables described when no table is given
+ */
+const MAX_DESCRIBED_TABLES = 50;
+
+// ============================================================================
+// Zod Schemas
+// ============================================================================
+
+const DescribeSchemaInputSchema = ConnectionOverrideSchema.extend({
+    database: z
+        .string()
+        .optional()
+        .describe(
+            "The database to describe (defaults to the configured database)",
+        ),
+    table: z
+        .string()
+        .optional()
+        .describe("Describe only this table (default: all tables)"),
+}).strict();
+
+type DescribeSchemaInput = z.infer<typeof DescribeSchemaInputSchema>;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Formats the structure of a table as markdown
+ */
+function formatTableSchema(table: TableSchema): string {
+    const lines = [
+        `## \`${table.name}\`${table.type === "BASE TABLE" ? "" : ` (${table.type})`}`,
+        "",
+    ];
+
+    if (table.comment) {
+        lines.push(table.comment, "");
+    }
+
+    const details = [
+        `~${table.estimatedRows} rows`,
+        `${formatByteSize(table.dataBytes)} data`,
+        `${formatByteSize(table.indexBytes)} indexes`,
+    ];
+    if (table.tiflashReplica) {
+        const replica = table.tiflashReplica;
+        details.push(
+            `TiFlash: ${replica.count} replica(s), ${replica.available ? "available" : `${Math.round(replica.progress * 100)}% replicated`}`,
+        );
+    }
+    lines.push(details.join(" | "), "");
+
+    lines.push(
+        formatQueryResultsAsTable(
+            ["Column", "Type", "Null", "Default", "Extra", "Comment"],
+            table.columns.map((column) => ({
+                Column: column.name,
+                Type: column.type,
+                Null: column.nullable ? "YES" : "NO",
+                Default: column.default,
+                Extra: column.extra,
+                Comment: column.comment,
+            })),
+        ),
+        "",
+    );
+
+    if (table.indexes.length > 0) {
+        lines.push("**Indexes:**");
+        for (const index of table.indexes) {
+            const label =
+                index.kind === "primary"
+                    ? "PRIMARY KEY"
+                    : `${index.kind === "unique" ? "UNIQUE " : ""}INDEX \`${index.name}\``;
+            const flags = [
+                index.clustered ? "clustered" : "",
+                index.visible ? "" : "invisible",
+            ].filter(Boolean);
+            lines.push(
+                `- ${label} (${index.columns.join(", ")})${flags.length > 0 ? ` [${flags.join(", ")}]` : ""}`,
+            );
+        }
+        lines.push("");
+    } else if (table.type === "BASE TABLE") {
+        lines.push(
+            "**Indexes:** none (rows are addressed by the hidden _tidb_rowid)",
+            "",
+        );
+    }
+
+    if (table.foreignKeys.length > 0) {
+        lines.push("**Foreign keys:**");
+        for (const key of table.foreignKeys) {
+            lines.push(
+                `- \`${key.name}\` (${key.columns.join(", ")}) → \`${key.referencedDatabase}\`.\`${key.referencedTable}\` (${key.referencedColumns.join(", ")}) ON DELETE ${key.onDelete} ON UPDATE ${key.onUpdate}`,
+            );
+        }
+        lines.push("");
+    }
+
+    return lines.join("\n");
+}
+
+// ============================================================================
+// Tool Registration
+// ============================================================================
+
+/**
+ * Registers schema introspection tools with the MCP server
+ */
+export function registerSchemaTools(
+    server: McpServer,
+    defaultConfig: DatabaseConfig | undefined,
+): void {
+    // ========================================================================
+    // describe_schema
+    // ========================================================================
+    server.registerTool(
+        "describe_schema",
+        {
+            title: "Describe Schema",
+            description: `Describes the structure of a table or of every table in a database.
+
+For each table, returns the columns (type, nullability, default, comment),
+the primary, unique and secondary indexes, foreign keys, the TiFlash replica
+status and estimated row count and size. Use this instead of writing
+INFORMATION_SCHEMA queries with db_query.
+
+Without a table, at most ${MAX_DESCRIBED_TABLES} tables are described; pass table to
+describe the others.
+
+**IMPORTANT: Database credentials required.** You MUST ask the user to choose:
+1. Provide credentials in this conversation (ask for username/password)
+2. Configure in Claude Desktop config with --header flags (RECOMMENDED - show the config example)
+
+Args:
+  - database (string, optional): The database to describe (defaults to the
+    configured database)
+  - table (string, optional): Describe only this table
+  - host (string, optional): Database host
+  - username (string, optional): Database username
+  - password (string, optional): Database password
+
+Returns:
+  The structure of each table in markdown and as structured content.`,
+            inputSchema: DescribeSchemaInputSchema,
+            annotations: {
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true,
+                openWorldHint: true,
+            },
+        },
+        async (params: DescribeSchemaInput) => {
+            try {
+                const config = resolveConfig(defaultConfig, params);
+                const database = params.database ?? config.database;
+                if (!database) {
+                    throw new TiDBDatabaseError(
+                        "No database given and no default database configured. Pass the database parameter.",
+                    );
+                }
+
+                const db = new TiDBDatabase(config);
+                const schema = await describeSchema(db, database, {
+                    table: params.table,
+                    limit: MAX_DESCRIBED_TABLES,
+                });
+
+                if (schema.tables.length === 0) {
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: params.table
+                                    ? `Error: Table \`${params.table}\` not found in database \`${database}\`.`
+                                    : `Database \`${database}\` has no tables or does not exist.`,
+                            },
+                        ],
+                    };
+                }
+
+                const lines = [`# Schema of \`${database}\``, ""];
+                if (schema.totalTables > schema.tables.length) {
+                    lines.push(
+                        `Showing ${schema.tables.length} of ${schema.totalTables} tables. Pass table to describe a specific one.`,
+                        "",
+                    );
+                }
+                lines.push(...schema.tables.map(formatTableSchema));
+
+                return {
+                    content: [{ type: "text", text: lines.join("\n") }],
+                    structuredContent: {
+                        database,
+                        totalTables: schema.totalTables,
+                        truncated: schema.totalTables > schema.tables.length,
+                        tables: schema.tables,
+                    },
+                };
+            } catch (error) {
+                return {
+                    content: [
+                        { type: "text", text: formatDatabaseError(error) },
+                    ],
+                };
+            }
+        },
+    );
+}
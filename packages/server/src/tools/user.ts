@@ -0,0 +1,473 @@
+/**
+ * SQL user management tools for TiDB Cloud MCP Server
+ *
+ * These tools use the TiDB Cloud IAM API, so they only need API keys -
+ * no database admin credentials.
+ */
+
+import { z } from "zod";
+import { randomBytes } from "crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { TiDBCloudClient, formatApiError } from "../api/client.js";
+import type { SqlUser, SqlUserBuiltinRole } from "../api/types.js";
+
+// ============================================================================
+// Zod Schemas
+// ============================================================================
+
+const ROLE_VALUES = ["admin", "readwrite", "readonly"] as const;
+
+const ClusterInputSchema = z
+  .string()
+  .min(1, "Cluster name or ID is required")
+  .describe(
+    "The cluster name or ID. You can use the display name (e.g., 'my-cluster') or the cluster ID.",
+  );
+
+const ListSqlUsersInputSchema = z
+  .object({
+    cluster: ClusterInputSchema,
+    pageSize: z
+      .number()
+      .min(1)
+      .max(100)
+      .optional()
+      .describe("Number of users per page (1-100, default 10)"),
+    pageToken: z
+      .string()
+      .optional()
+      .describe("Token for fetching the next page of results"),
+  })
+  .strict();
+
+const SqlUserInputSchema = z
+  .object({
+    cluster: ClusterInputSchema,
+    userName: z
+      .string()
+      .min(1, "User name is required")
+      .describe("The full user name, including the prefix (e.g., '4F9x.app')"),
+  })
+  .strict();
+
+const CreateSqlUserInputSchema = z
+  .object({
+    cluster: ClusterInputSchema,
+    userName: z
+      .string()
+      .min(1, "User name is required")
+      .max(32)
+      .describe(
+        "User name without the cluster prefix. The prefix is added automatically.",
+      ),
+    role: z
+      .enum(ROLE_VALUES)
+      .describe("Built-in role: admin, readwrite or readonly"),
+    password: z
+      .string()
+      .min(8, "Password must be at least 8 characters")
+      .optional()
+      .describe("Password for the user. Generated if not provided"),
+  })
+  .strict();
+
+const UpdateSqlUserInputSchema = z
+  .object({
+    cluster: ClusterInputSchema,
+    userName: z
+      .string()
+      .min(1, "User name is required")
+      .describe("The full user name, including the prefix (e.g., '4F9x.app')"),
+    role: z
+      .enum(ROLE_VALUES)
+      .optional()
+      .describe("New built-in role: admin, readwrite or readonly"),
+    password: z
+      .string()
+      .min(8, "Password must be at least 8 characters")
+      .optional()
+      .describe("New password for the user"),
+  })
+  .strict();
+
+type ListSqlUsersInput = z.infer<typeof ListSqlUsersInputSchema>;
+type SqlUserInput = z.infer<typeof SqlUserInputSchema>;
+type CreateSqlUserInput = z.infer<typeof CreateSqlUserInputSchema>;
+type UpdateSqlUserInput = z.infer<typeof UpdateSqlUserInputSchema>;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Maps a tool role name to the API's built-in role
+ */
+function toBuiltinRole(
+  role: (typeof ROLE_VALUES)[number],
+): SqlUserBuiltinRole {
+  return `role_${role}`;
+}
+
+/**
+ * Generates a random password accepted by TiDB Cloud
+ */
+function generatePassword(): string {
+  return randomBytes(18).toString("base64url");
+}
+
+// ============================================================================
+// Formatting Functions
+// ============================================================================
+
+/**
+ * Formats a single SQL user into a readable string
+ */
+function formatSqlUserOutput(user: SqlUser, title: string): string {
+  const lines = [
+    `# ${title}`,
+    "",
+    `**User Name:** ${user.userName}`,
+    `**Built-in Role:** ${user.builtinRole ?? "none"}`,
+  ];
+
+  if (user.customRoles && user.customRoles.length > 0) {
+    lines.push(`**Custom Roles:** ${user.customRoles.join(", ")}`);
+  }
+  if (user.authMethod) {
+    lines.push(`**Auth Method:** ${user.authMethod}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Formats a list of SQL users into a readable string
+ */
+function formatSqlUserListOutput(
+  users: SqlUser[],
+  clusterId: string,
+  nextPageToken?: string,
+): string {
+  if (users.length === 0) {
+    return `No SQL users found for cluster ${clusterId}.`;
+  }
+
+  const lines = [
+    `# SQL Users for Cluster ${clusterId}`,
+    "",
+    "| User Name | Built-in Role | Custom Roles |",
+    "|-----------|---------------|--------------|",
+  ];
+
+  for (const user of users) {
+    lines.push(
+      `| ${user.userName} | ${user.builtinRole ?? ""} | ${(user.customRoles ?? []).join(", ")} |`,
+    );
+  }
+
+  if (nextPageToken) {
+    lines.push("");
+    lines.push("---");
+    lines.push(
+      `More users available. Use pageToken: "${nextPageToken}" to fetch the next page.`,
+    );
+  }
+
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Tool Registration
+// ============================================================================
+
+/**
+ * Registers SQL user management tools with the MCP server
+ */
+export function registerSqlUserTools(
+  server: McpServer,
+  client: TiDBCloudClient,
+): void {
+  // ========================================================================
+  // List SQL Users
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_list_sql_users",
+    {
+      title: "List TiDB Cloud SQL Users",
+      description: `Lists SQL users of a TiDB Cloud cluster.
+
+Uses the TiDB Cloud API, so only API keys are needed (no database credentials).
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - pageSize (number, optional): Number of users per page (1-100, default 10)
+  - pageToken (string, optional): Token for fetching the next page
+
+Returns:
+  List of SQL users with their roles.`,
+      inputSchema: ListSqlUsersInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: ListSqlUsersInput) => {
+      try {
+        // Resolve cluster name to ID
+        const clusterId = await client.resolveClusterId(params.cluster);
+        const response = await client.listSqlUsers(
+          clusterId,
+          params.pageSize,
+          params.pageToken,
+        );
+        const users = response.sqlUsers || [];
+
+        const textContent = formatSqlUserListOutput(
+          users,
+          clusterId,
+          response.nextPageToken,
+        );
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: {
+            clusterId,
+            sqlUsers: users,
+            nextPageToken: response.nextPageToken,
+          },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // Get SQL User
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_get_sql_user",
+    {
+      title: "Get TiDB Cloud SQL User",
+      description: `Gets a SQL user of a TiDB Cloud cluster.
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - userName (string, required): The full user name, including the prefix
+
+Returns:
+  The user's built-in and custom roles.`,
+      inputSchema: SqlUserInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: SqlUserInput) => {
+      try {
+        // Resolve cluster name to ID
+        const clusterId = await client.resolveClusterId(params.cluster);
+        const user = await client.getSqlUser(clusterId, params.userName);
+        const textContent = formatSqlUserOutput(user, "SQL User Details");
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: { clusterId, ...user },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // Create SQL User
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_create_sql_user",
+    {
+      title: "Create TiDB Cloud SQL User",
+      description: `Creates a SQL user in a TiDB Cloud cluster with a built-in role.
+
+Uses the TiDB Cloud API, so only API keys are needed (no database admin
+credentials). The cluster's user prefix is prepended to the user name.
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - userName (string, required): User name without the prefix
+  - role (string, required): admin, readwrite or readonly
+  - password (string, optional): Password (min 8 chars). Generated if not provided
+
+Returns:
+  The created user, including the full user name and the password.`,
+      inputSchema: CreateSqlUserInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params: CreateSqlUserInput) => {
+      try {
+        // Resolve cluster name to ID
+        const clusterId = await client.resolveClusterId(params.cluster);
+        const password = params.password ?? generatePassword();
+
+        const user = await client.createSqlUser(clusterId, {
+          userName: params.userName,
+          password,
+          builtinRole: toBuiltinRole(params.role),
+          authMethod: "mysql_native_password",
+          autoPrefix: true,
+        });
+
+        let textContent = formatSqlUserOutput(user, "SQL User Created");
+        if (!params.password) {
+          textContent += "\n\n## Credentials\n";
+          textContent += `**Password:** ${password}\n`;
+          textContent +=
+            "> **Important:** Save this password securely. It will not be shown again.";
+        }
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: {
+            clusterId,
+            ...user,
+            password: params.password ? undefined : password,
+          },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // Update SQL User
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_update_sql_user",
+    {
+      title: "Update TiDB Cloud SQL User",
+      description: `Changes the password or built-in role of a SQL user.
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - userName (string, required): The full user name, including the prefix
+  - role (string, optional): New role: admin, readwrite or readonly
+  - password (string, optional): New password (min 8 chars)
+
+Returns:
+  The updated user.`,
+      inputSchema: UpdateSqlUserInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: UpdateSqlUserInput) => {
+      if (!params.role && !params.password) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Error: Provide a new role, a new password, or both.",
+            },
+          ],
+        };
+      }
+
+      try {
+        // Resolve cluster name to ID
+        const clusterId = await client.resolveClusterId(params.cluster);
+        const user = await client.updateSqlUser(clusterId, params.userName, {
+          password: params.password,
+          builtinRole: params.role ? toBuiltinRole(params.role) : undefined,
+        });
+
+        let textContent = formatSqlUserOutput(user, "SQL User Updated");
+        if (params.password) {
+          textContent += "\n\n> The password has been changed.";
+        }
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: { clusterId, ...user },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+
+  // ========================================================================
+  // Delete SQL User
+  // ========================================================================
+  server.registerTool(
+    "tidbcloud_delete_sql_user",
+    {
+      title: "Delete TiDB Cloud SQL User",
+      description: `Deletes a SQL user from a TiDB Cloud cluster.
+
+**WARNING: This action is irreversible!** Applications using this user will
+no longer be able to connect.
+
+Args:
+  - cluster (string, required): The cluster name or ID
+  - userName (string, required): The full user name, including the prefix
+
+Returns:
+  Confirmation of deletion.`,
+      inputSchema: SqlUserInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params: SqlUserInput) => {
+      try {
+        // Resolve cluster name to ID
+        const clusterId = await client.resolveClusterId(params.cluster);
+        await client.deleteSqlUser(clusterId, params.userName);
+
+        const textContent = [
+          "# SQL User Deleted",
+          "",
+          `**Cluster ID:** ${clusterId}`,
+          `**User Name:** ${params.userName}`,
+        ].join("\n");
+
+        return {
+          content: [{ type: "text", text: textContent }],
+          structuredContent: {
+            clusterId,
+            userName: params.userName,
+            deleted: true,
+          },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: formatApiError(error) }],
+        };
+      }
+    },
+  );
+}